@@ -7,6 +7,9 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Chatbot from "@/pages/chatbot";
 import AdminDashboard from "@/pages/admin";
+import AgentInbox from "@/pages/agent-inbox";
+import AdminLogin from "@/pages/admin-login";
+import { AdminRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -14,7 +17,9 @@ function Router() {
     <Switch>
       <Route path="/" component={Chatbot} />
       <Route path="/chat" component={Chatbot} />
-      <Route path="/admin" component={AdminDashboard} />
+      <Route path="/admin/login" component={AdminLogin} />
+      <AdminRoute path="/admin" component={AdminDashboard} />
+      <AdminRoute path="/admin/inbox" component={AgentInbox} roles={['owner', 'support_agent', 'analyst']} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,431 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+type Provider = 'azure' | 'ollama' | 'openai_compatible' | 'anthropic';
+
+interface ProfileHealth {
+  status: 'healthy' | 'degraded' | 'down';
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  averageLatencyMs?: number;
+  lastError?: string;
+  downUntil?: string;
+}
+
+interface AiProfile {
+  id: string;
+  name: string;
+  provider: Provider;
+  config: Record<string, string>;
+  priority: number;
+  enabled: boolean;
+  timeoutMs: number;
+  health: ProfileHealth;
+}
+
+interface RoutingRule {
+  intent: string;
+  profileId: string;
+}
+
+interface RoutingSettings {
+  rules: RoutingRule[];
+  failureThreshold: number;
+  cooldownSeconds: number;
+}
+
+interface ProfilesResponse {
+  profiles: AiProfile[];
+  routing: RoutingSettings;
+}
+
+const emptyConfigs: Record<Provider, Record<string, string>> = {
+  azure: { endpoint: '', apiKey: '', deploymentName: '', apiVersion: '2024-02-01' },
+  ollama: { endpoint: 'http://localhost:11434', model: '' },
+  openai_compatible: { baseUrl: 'http://localhost:8000/v1', apiKey: '', model: '' },
+  anthropic: { baseUrl: 'https://api.anthropic.com', apiKey: '', model: '', apiVersion: '2023-06-01' }
+};
+
+const configFields: Record<Provider, { key: string; label: string; type?: string }[]> = {
+  azure: [
+    { key: 'endpoint', label: 'Endpoint URL' },
+    { key: 'apiKey', label: 'API Key', type: 'password' },
+    { key: 'deploymentName', label: 'Deployment Name' },
+    { key: 'apiVersion', label: 'API Version' }
+  ],
+  ollama: [
+    { key: 'endpoint', label: 'Ollama Endpoint' },
+    { key: 'model', label: 'Model' }
+  ],
+  openai_compatible: [
+    { key: 'baseUrl', label: 'Base URL' },
+    { key: 'apiKey', label: 'API Key (optional)', type: 'password' },
+    { key: 'model', label: 'Model' }
+  ],
+  anthropic: [
+    { key: 'baseUrl', label: 'Base URL' },
+    { key: 'apiKey', label: 'API Key', type: 'password' },
+    { key: 'model', label: 'Model' },
+    { key: 'apiVersion', label: 'API Version' }
+  ]
+};
+
+const providerLabels: Record<Provider, string> = {
+  azure: 'Azure OpenAI',
+  ollama: 'Ollama',
+  openai_compatible: 'OpenAI-compatible',
+  anthropic: 'Anthropic'
+};
+
+const healthStyles: Record<ProfileHealth['status'], string> = {
+  healthy: 'bg-green-100 text-green-800',
+  degraded: 'bg-yellow-100 text-yellow-800',
+  down: 'bg-red-100 text-red-800'
+};
+
+const formatIntent = (intent: string) => intent.replace(/_/g, ' ');
+
+const newProfileDefaults = {
+  name: '',
+  provider: 'ollama' as Provider,
+  config: emptyConfigs.ollama,
+  priority: 1,
+  timeoutMs: 30000
+};
+
+export default function AiProfilesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newProfile, setNewProfile] = useState(newProfileDefaults);
+  const [routing, setRouting] = useState<RoutingSettings>({ rules: [], failureThreshold: 3, cooldownSeconds: 60 });
+  const [newRule, setNewRule] = useState<RoutingRule>({ intent: 'general', profileId: '' });
+
+  const { data } = useQuery<ProfilesResponse>({
+    queryKey: ['/api/admin/ai-profiles'],
+    queryFn: () => apiRequest('/api/admin/ai-profiles'),
+    // Keeps the health badges current while failover happens
+    refetchInterval: 15000
+  });
+
+  const { data: intentsData } = useQuery<{ intents: string[] }>({
+    queryKey: ['/api/admin/intents'],
+    queryFn: () => apiRequest('/api/admin/intents')
+  });
+
+  useEffect(() => {
+    if (data?.routing) {
+      setRouting(data.routing);
+    }
+  }, [data?.routing]);
+
+  const profiles = data?.profiles || [];
+  const intents = intentsData?.intents || [];
+  const profileName = (id: string) => profiles.find(profile => profile.id === id)?.name || 'Unknown profile';
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-profiles'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-config'] });
+  };
+
+  const createProfileMutation = useMutation({
+    mutationFn: (profile: typeof newProfile) => apiRequest('/api/admin/ai-profiles', {
+      method: 'POST',
+      body: JSON.stringify(profile)
+    }),
+    onSuccess: () => {
+      toast({ title: "Provider profile added!" });
+      invalidate();
+      setNewProfile(newProfileDefaults);
+    },
+    onError: onError("Failed to add provider profile")
+  });
+
+  // The redacted API key is sent back as is; the server keeps the stored one
+  const updateProfileMutation = useMutation({
+    mutationFn: ({ id, name, provider, config, priority, enabled, timeoutMs }: AiProfile) => apiRequest(`/api/admin/ai-profiles/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name, provider, config, priority, enabled, timeoutMs })
+    }),
+    onSuccess: invalidate,
+    onError: onError("Failed to update provider profile")
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/ai-profiles/${id}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+    onError: onError("Failed to delete provider profile")
+  });
+
+  const testProfileMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/ai-profiles/${id}/test`, { method: 'POST' }),
+    onSuccess: () => {
+      toast({ title: "Connection successful!" });
+    },
+    onError: onError("Connection failed")
+  });
+
+  const saveRoutingMutation = useMutation({
+    mutationFn: (settings: RoutingSettings) => apiRequest('/api/admin/ai-routing', {
+      method: 'PUT',
+      body: JSON.stringify(settings)
+    }),
+    onSuccess: () => {
+      toast({ title: "Routing saved!" });
+      invalidate();
+    },
+    onError: onError("Failed to save routing")
+  });
+
+  const handleAddRule = () => {
+    const rules = routing.rules.filter(rule => rule.intent !== newRule.intent);
+    setRouting({ ...routing, rules: [...rules, newRule] });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Provider Profiles & Failover
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-500">
+          Enabled profiles are tried in priority order, lowest first. A profile that errors or times out
+          is skipped for the next request, and taken out of rotation after repeated failures.
+        </p>
+
+        <div className="grid gap-2">
+          {profiles.map(profile => (
+            <div key={profile.id} className="border rounded-lg px-4 py-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{profile.name}</span>
+                  <Badge variant="outline">{providerLabels[profile.provider]}</Badge>
+                  <Badge className={healthStyles[profile.health.status]}>{profile.health.status}</Badge>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`priority-${profile.id}`} className="text-sm text-gray-500">Priority</Label>
+                  <Input
+                    key={profile.priority}
+                    id={`priority-${profile.id}`}
+                    type="number"
+                    min={0}
+                    className="w-20"
+                    defaultValue={profile.priority}
+                    onBlur={(e) => {
+                      const priority = parseInt(e.target.value) || 0;
+                      if (priority !== profile.priority) {
+                        updateProfileMutation.mutate({ ...profile, priority });
+                      }
+                    }}
+                  />
+                  <Switch
+                    checked={profile.enabled}
+                    onCheckedChange={(enabled) => updateProfileMutation.mutate({ ...profile, enabled })}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => testProfileMutation.mutate(profile.id)}
+                    disabled={testProfileMutation.isPending}
+                  >
+                    Test
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteProfileMutation.mutate(profile.id)}
+                    disabled={deleteProfileMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="text-xs text-gray-500 flex flex-wrap gap-x-4">
+                <span>{profile.config.deploymentName || profile.config.model} at {profile.config.endpoint || profile.config.baseUrl}</span>
+                <span>Timeout {profile.timeoutMs / 1000}s</span>
+                <span>{profile.health.requests} requests, {profile.health.failures} failed</span>
+                {profile.health.averageLatencyMs !== undefined && (
+                  <span>Avg {Math.round(profile.health.averageLatencyMs)}ms</span>
+                )}
+                {profile.health.downUntil && (
+                  <span>Skipped until {new Date(profile.health.downUntil).toLocaleTimeString()}</span>
+                )}
+              </div>
+              {profile.health.lastError && (
+                <p className="text-xs text-red-600">Last error: {profile.health.lastError}</p>
+              )}
+            </div>
+          ))}
+          {profiles.length === 0 && (
+            <p className="text-sm text-gray-500">No provider profiles yet. Save the configuration above or add one below.</p>
+          )}
+        </div>
+
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold">Add Profile</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                placeholder="Local fallback"
+                value={newProfile.name}
+                onChange={(e) => setNewProfile({ ...newProfile, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="profile-provider">Provider</Label>
+              <Select
+                value={newProfile.provider}
+                onValueChange={(value: Provider) => setNewProfile({ ...newProfile, provider: value, config: emptyConfigs[value] })}
+              >
+                <SelectTrigger id="profile-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(providerLabels) as Provider[]).map(provider => (
+                    <SelectItem key={provider} value={provider}>{providerLabels[provider]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {configFields[newProfile.provider].map(field => (
+              <div key={field.key}>
+                <Label htmlFor={`profile-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`profile-${field.key}`}
+                  type={field.type || 'text'}
+                  value={newProfile.config[field.key] || ''}
+                  onChange={(e) => setNewProfile({ ...newProfile, config: { ...newProfile.config, [field.key]: e.target.value } })}
+                />
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="profile-priority">Priority</Label>
+              <Input
+                id="profile-priority"
+                type="number"
+                min={0}
+                value={newProfile.priority}
+                onChange={(e) => setNewProfile({ ...newProfile, priority: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="profile-timeout">Timeout (seconds)</Label>
+              <Input
+                id="profile-timeout"
+                type="number"
+                min={1}
+                value={newProfile.timeoutMs / 1000}
+                onChange={(e) => setNewProfile({ ...newProfile, timeoutMs: (parseInt(e.target.value) || 1) * 1000 })}
+              />
+            </div>
+          </div>
+          <Button
+            onClick={() => createProfileMutation.mutate(newProfile)}
+            disabled={createProfileMutation.isPending || !newProfile.name.trim()}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {createProfileMutation.isPending ? 'Adding...' : 'Add Profile'}
+          </Button>
+        </div>
+
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold">Intent Routing</h3>
+          <p className="text-sm text-gray-500">
+            Send an intent to a specific profile first, e.g. small talk to a local model and complaints to Azure.
+            Other profiles still act as fallbacks.
+          </p>
+          <div className="grid gap-2">
+            {routing.rules.map(rule => (
+              <div key={rule.intent} className="flex items-center justify-between border rounded-lg px-4 py-2 bg-white">
+                <span className="text-sm">
+                  <span className="font-medium capitalize">{formatIntent(rule.intent)}</span> → {profileName(rule.profileId)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRouting({ ...routing, rules: routing.rules.filter(current => current.intent !== rule.intent) })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Select value={newRule.intent} onValueChange={(intent) => setNewRule({ ...newRule, intent })}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {intents.map(intent => (
+                  <SelectItem key={intent} value={intent} className="capitalize">{formatIntent(intent)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newRule.profileId} onValueChange={(profileId) => setNewRule({ ...newRule, profileId })}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAddRule} disabled={!newRule.profileId}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="failure-threshold">Failures before skipping a profile</Label>
+              <Input
+                id="failure-threshold"
+                type="number"
+                min={1}
+                value={routing.failureThreshold}
+                onChange={(e) => setRouting({ ...routing, failureThreshold: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="cooldown-seconds">Skip for (seconds)</Label>
+              <Input
+                id="cooldown-seconds"
+                type="number"
+                min={5}
+                value={routing.cooldownSeconds}
+                onChange={(e) => setRouting({ ...routing, cooldownSeconds: parseInt(e.target.value) || 5 })}
+              />
+            </div>
+          </div>
+          <Button onClick={() => saveRoutingMutation.mutate(routing)} disabled={saveRoutingMutation.isPending}>
+            {saveRoutingMutation.isPending ? 'Saving...' : 'Save Routing'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
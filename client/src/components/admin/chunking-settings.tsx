@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Scissors, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+type ChunkingStrategy = 'sentence' | 'paragraph' | 'heading' | 'token' | 'recursive';
+
+interface ChunkingConfig {
+  strategy: ChunkingStrategy;
+  chunkSize: number;
+  overlap: number;
+}
+
+interface ChunkingSettings {
+  default: ChunkingConfig;
+  byType: Record<string, ChunkingConfig>;
+}
+
+interface ChunkPreview {
+  type: string;
+  config: ChunkingConfig;
+  chunks: {
+    index: number;
+    text: string;
+    length: number;
+    page?: number;
+    sectionPath?: string;
+  }[];
+}
+
+const strategyLabels: Record<ChunkingStrategy, string> = {
+  sentence: 'Sentences',
+  paragraph: 'Paragraphs',
+  heading: 'Headings',
+  token: 'Token budget',
+  recursive: 'Recursive characters'
+};
+
+// apiRequest only sends JSON, so a file goes up as multipart form data here
+const previewChunks = async (input: { file: File | null; content: string; type: string; settings: ChunkingSettings }): Promise<ChunkPreview> => {
+  if (!input.file) {
+    return apiRequest('/api/admin/chunking/preview', {
+      method: 'POST',
+      body: JSON.stringify({ content: input.content, type: input.type, settings: input.settings })
+    });
+  }
+
+  const body = new FormData();
+  body.append('file', input.file);
+  body.append('settings', JSON.stringify(input.settings));
+
+  const res = await fetch('/api/admin/chunking/preview', { method: 'POST', body, credentials: 'include' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || res.statusText);
+  }
+  return data;
+};
+
+function ConfigFields({ config, onChange, disabled }: {
+  config: ChunkingConfig;
+  onChange: (config: ChunkingConfig) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <>
+      <Select
+        value={config.strategy}
+        disabled={disabled}
+        onValueChange={(value) => onChange({ ...config, strategy: value as ChunkingStrategy })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(strategyLabels).map(([strategy, label]) => (
+            <SelectItem key={strategy} value={strategy}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        min={100}
+        title={config.strategy === 'token' ? 'Chunk size in tokens' : 'Chunk size in characters'}
+        value={config.chunkSize}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...config, chunkSize: parseInt(e.target.value) || 100 })}
+      />
+      <Input
+        type="number"
+        min={0}
+        title="Overlap"
+        value={config.overlap}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...config, overlap: parseInt(e.target.value) || 0 })}
+      />
+    </>
+  );
+}
+
+interface ChunkingSettingsCardProps {
+  canEdit: boolean;
+}
+
+// How documents are split before they are embedded, with a preview that
+// stores nothing
+export default function ChunkingSettingsCard({ canEdit }: ChunkingSettingsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<ChunkingSettings | null>(null);
+  const [newType, setNewType] = useState('');
+  const [previewText, setPreviewText] = useState('');
+  const [previewType, setPreviewType] = useState('manual');
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ChunkPreview | null>(null);
+
+  const { data } = useQuery<ChunkingSettings>({
+    queryKey: ['/api/admin/chunking/settings'],
+    queryFn: () => apiRequest('/api/admin/chunking/settings')
+  });
+
+  useEffect(() => {
+    if (data) setSettings(data);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (newSettings: ChunkingSettings) => apiRequest('/api/admin/chunking/settings', {
+      method: 'PUT',
+      body: JSON.stringify(newSettings)
+    }),
+    onSuccess: () => {
+      toast({ title: "Chunking settings saved!", description: "They apply to documents added from now on." });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chunking/settings'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save chunking settings",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: previewChunks,
+    onSuccess: (result) => setPreview(result),
+    onError: (error: any) => {
+      toast({
+        title: "Failed to preview chunks",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!settings) return null;
+
+  const setTypeConfig = (type: string, config: ChunkingConfig) =>
+    setSettings({ ...settings, byType: { ...settings.byType, [type]: config } });
+
+  const removeType = (type: string) => {
+    const { [type]: _, ...byType } = settings.byType;
+    setSettings({ ...settings, byType });
+  };
+
+  const addType = () => {
+    const type = newType.trim().toLowerCase();
+    if (!type || settings.byType[type]) return;
+    setTypeConfig(type, { ...settings.default });
+    setNewType('');
+  };
+
+  // Previews use the settings as edited, before they are saved
+  const runPreview = () => previewMutation.mutate({
+    file: previewFile,
+    content: previewText,
+    type: previewType.trim() || 'manual',
+    settings
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scissors className="w-5 h-5" />
+          Chunking
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-500">
+          Documents are split into chunks before they are indexed. Sizes are in characters, or in tokens for the token budget strategy. Changes apply to documents added afterwards.
+        </p>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-5 gap-2 text-sm font-medium text-gray-600">
+            <span>Type</span>
+            <span>Strategy</span>
+            <span>Chunk size</span>
+            <span>Overlap</span>
+            <span />
+          </div>
+          <div className="grid grid-cols-5 gap-2 items-center">
+            <span className="text-sm font-medium">All other types</span>
+            <ConfigFields
+              config={settings.default}
+              disabled={!canEdit}
+              onChange={(config) => setSettings({ ...settings, default: config })}
+            />
+            <span />
+          </div>
+          {Object.entries(settings.byType).map(([type, config]) => (
+            <div key={type} className="grid grid-cols-5 gap-2 items-center">
+              <span className="text-sm">{type}</span>
+              <ConfigFields config={config} disabled={!canEdit} onChange={(value) => setTypeConfig(type, value)} />
+              {canEdit && (
+                <Button variant="ghost" size="sm" className="justify-self-start" onClick={() => removeType(type)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <div className="flex gap-2">
+            <Input
+              className="max-w-xs"
+              placeholder="Type, e.g. website or csv"
+              value={newType}
+              onChange={(e) => setNewType(e.target.value)}
+            />
+            <Button variant="outline" onClick={addType} disabled={!newType.trim()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Type
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(settings)}
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Chunking Settings'}
+            </Button>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+            <h3 className="font-semibold">Preview</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="chunk-preview-file">File</Label>
+                <Input
+                  id="chunk-preview-file"
+                  type="file"
+                  accept=".pdf,.docx,.md,.markdown,.html,.htm,.txt,.csv,.tsv,.json"
+                  onChange={(e) => setPreviewFile(e.target.files?.[0] || null)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="chunk-preview-type">Type for pasted text</Label>
+                <Input
+                  id="chunk-preview-type"
+                  value={previewType}
+                  disabled={!!previewFile}
+                  onChange={(e) => setPreviewType(e.target.value)}
+                />
+              </div>
+            </div>
+            <Textarea
+              placeholder="Or paste text to chunk"
+              rows={4}
+              value={previewText}
+              disabled={!!previewFile}
+              onChange={(e) => setPreviewText(e.target.value)}
+            />
+            <Button
+              onClick={runPreview}
+              disabled={previewMutation.isPending || (!previewFile && !previewText.trim())}
+            >
+              {previewMutation.isPending ? 'Chunking...' : 'Preview Chunks'}
+            </Button>
+
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  {preview.chunks.length} chunks for type "{preview.type}" using {strategyLabels[preview.config.strategy].toLowerCase()}, size {preview.config.chunkSize}, overlap {preview.config.overlap}
+                </p>
+                {preview.chunks.map(chunk => (
+                  <div key={chunk.index} className="p-3 border rounded-lg bg-white">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant="outline">#{chunk.index + 1}</Badge>
+                      <span className="text-xs text-gray-500">{chunk.length} characters</span>
+                      {chunk.page && <Badge variant="secondary">Page {chunk.page}</Badge>}
+                      {chunk.sectionPath && <span className="text-xs text-gray-600">{chunk.sectionPath}</span>}
+                    </div>
+                    <pre className="text-sm whitespace-pre-wrap font-sans">{chunk.text}</pre>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+
+interface UploadResult {
+  documentId: string;
+  format: string;
+  sectionCount?: number;
+  pageCount?: number;
+  pagesWithoutText?: number[];
+}
+
+// apiRequest only sends JSON, so the file goes up as multipart form data here
+const uploadDocument = async (file: File, title: string): Promise<UploadResult> => {
+  const body = new FormData();
+  body.append('file', file);
+  if (title) body.append('title', title);
+
+  const res = await fetch('/api/admin/upload', { method: 'POST', body, credentials: 'include' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || res.statusText);
+  }
+  return data;
+};
+
+const ACCEPTED_FILES = ".pdf,.docx,.md,.markdown,.html,.htm,.txt,.csv,.tsv,.json";
+
+// Adds a document to the knowledge base; its chunks keep their page numbers
+// and headings
+export default function DocumentUpload() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+  const [inputKey, setInputKey] = useState(0);
+
+  const uploadMutation = useMutation({
+    mutationFn: () => uploadDocument(file!, title.trim()),
+    onSuccess: (result) => {
+      const skipped = result.pagesWithoutText || [];
+      toast({
+        title: result.pageCount
+          ? `Document added (${result.pageCount} pages)`
+          : `Document added (${result.sectionCount || 1} sections)`,
+        description: skipped.length > 0 ? `No text found on page ${skipped.join(', ')}; those pages may be scanned images.` : undefined
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/knowledge-base'] });
+      setFile(null);
+      setTitle('');
+      setInputKey(key => key + 1);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to upload document",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+      <h3 className="font-semibold">Upload Document</h3>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="upload-file">File (max 10 MB)</Label>
+          <Input
+            key={inputKey}
+            id="upload-file"
+            type="file"
+            accept={ACCEPTED_FILES}
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="upload-title">Title (optional)</Label>
+          <Input
+            id="upload-title"
+            placeholder="Defaults to the file name"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        PDF, Word (.docx), Markdown, HTML, plain text, CSV/TSV and JSON. Spreadsheets with Question and Answer columns are imported as one Q&amp;A per row.
+      </p>
+      <Button
+        onClick={() => uploadMutation.mutate()}
+        disabled={uploadMutation.isPending || !file}
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        {uploadMutation.isPending ? 'Processing...' : 'Upload'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { HelpCircle, Plus, Pencil, Trash2, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface FaqEntry {
+  id: string;
+  question: string;
+  answer: string;
+  category?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface FaqForm {
+  question: string;
+  answer: string;
+  category: string;
+  isActive: boolean;
+}
+
+interface FaqImportResult {
+  created: number;
+  updated: number;
+  removed: number;
+  skipped: { row: number; error: string }[];
+}
+
+interface FaqManagerProps {
+  canEdit: boolean;
+}
+
+const emptyForm: FaqForm = { question: '', answer: '', category: '', isActive: true };
+
+const toPayload = (form: FaqForm | FaqEntry) => ({
+  question: form.question,
+  answer: form.answer,
+  category: form.category?.trim() || undefined,
+  isActive: form.isActive
+});
+
+// apiRequest only sends JSON, so the file goes up as multipart form data here
+const importFaqs = async (file: File, replace: boolean): Promise<FaqImportResult> => {
+  const body = new FormData();
+  body.append('file', file);
+  body.append('replace', String(replace));
+
+  const res = await fetch('/api/admin/faqs/import', { method: 'POST', body, credentials: 'include' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || res.statusText);
+  }
+  return data;
+};
+
+// Question and answer pairs, each retrieved on its own by the chatbot
+export default function FaqManager({ canEdit }: FaqManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<FaqForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [inputKey, setInputKey] = useState(0);
+
+  const { data: faqs = [] } = useQuery<FaqEntry[]>({
+    queryKey: ['/api/admin/faqs'],
+    queryFn: () => apiRequest('/api/admin/faqs')
+  });
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest(editingId ? `/api/admin/faqs/${editingId}` : '/api/admin/faqs', {
+      method: editingId ? 'PUT' : 'POST',
+      body: JSON.stringify(toPayload(form))
+    }),
+    onSuccess: () => {
+      toast({ title: editingId ? "FAQ updated!" : "FAQ added!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/faqs'] });
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save FAQ",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (entry: FaqEntry) => apiRequest(`/api/admin/faqs/${entry.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(toPayload({ ...entry, isActive: !entry.isActive }))
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/faqs'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update FAQ",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/faqs/${id}`, { method: 'DELETE' }),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/faqs'] });
+      if (id === editingId) resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete FAQ",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => importFaqs(file!, replace),
+    onSuccess: (result) => {
+      const skipped = result.skipped.slice(0, 5).map(row => `row ${row.row}: ${row.error}`);
+      toast({
+        title: `Imported FAQs: ${result.created} added, ${result.updated} updated${result.removed ? `, ${result.removed} removed` : ''}`,
+        description: skipped.length > 0 ? `Skipped ${result.skipped.length} rows (${skipped.join('; ')})` : undefined
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/faqs'] });
+      setFile(null);
+      setReplace(false);
+      setInputKey(key => key + 1);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to import FAQs",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const startEditing = (entry: FaqEntry) => {
+    setEditingId(entry.id);
+    setForm({ question: entry.question, answer: entry.answer, category: entry.category || '', isActive: entry.isActive });
+  };
+
+  const term = search.trim().toLowerCase();
+  const visibleFaqs = term
+    ? faqs.filter(entry => [entry.question, entry.answer, entry.category || ''].some(text => text.toLowerCase().includes(term)))
+    : faqs;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HelpCircle className="w-5 h-5" />
+          FAQ
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canEdit && (
+          <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+            <h3 className="font-semibold">{editingId ? 'Edit Question' : 'Add Question'}</h3>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="faq-question">Question</Label>
+                <Input
+                  id="faq-question"
+                  placeholder="How long does delivery take?"
+                  value={form.question}
+                  onChange={(e) => setForm({ ...form, question: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="faq-category">Category (optional)</Label>
+                <Input
+                  id="faq-category"
+                  placeholder="Shipping"
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="faq-answer">Answer</Label>
+              <Textarea
+                id="faq-answer"
+                rows={3}
+                value={form.answer}
+                onChange={(e) => setForm({ ...form, answer: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="faq-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="faq-active">Active</Label>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !form.question.trim() || !form.answer.trim()}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {saveMutation.isPending ? 'Saving...' : editingId ? 'Save Changes' : 'Add Question'}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+            <h3 className="font-semibold">Import</h3>
+            <p className="text-sm text-gray-500">
+              A CSV or TSV file with Question and Answer columns and an optional Category column, or a JSON array of objects with the same fields. Questions already in the FAQ are updated.
+            </p>
+            <Input
+              key={inputKey}
+              type="file"
+              accept=".csv,.tsv,.json"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+            <div className="flex items-center gap-2">
+              <Switch id="faq-replace" checked={replace} onCheckedChange={setReplace} />
+              <Label htmlFor="faq-replace">Delete questions that are not in the file</Label>
+            </div>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={importMutation.isPending || !file}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importMutation.isPending ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="font-semibold">Questions ({faqs.length})</h3>
+            <Input
+              className="max-w-xs"
+              placeholder="Search questions"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          {visibleFaqs.length > 0 ? (
+            <div className="grid gap-2">
+              {visibleFaqs.map(entry => (
+                <div key={entry.id} className="flex justify-between items-start gap-4 p-3 border rounded-lg">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h4 className="font-medium">{entry.question}</h4>
+                      {entry.category && <Badge variant="outline">{entry.category}</Badge>}
+                      {!entry.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600 whitespace-pre-wrap">{entry.answer}</p>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={entry.isActive}
+                        disabled={toggleMutation.isPending}
+                        onCheckedChange={() => toggleMutation.mutate(entry)}
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(entry)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(entry.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-8">
+              {faqs.length > 0 ? 'No questions match your search.' : 'No FAQs yet. Add a question or import a file.'}
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
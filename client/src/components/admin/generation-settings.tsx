@@ -0,0 +1,261 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { SlidersHorizontal, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface GenerationParams {
+  temperature: number;
+  topP?: number;
+  maxTokens: number;
+  stop: string[];
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+interface IntentOverride {
+  intent: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+interface GenerationSettings {
+  defaults: GenerationParams;
+  intentOverrides: IntentOverride[];
+}
+
+const formatIntent = (intent: string) => intent.replace(/_/g, ' ');
+
+// Blank inputs mean "not set"
+const toNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+const toText = (value?: number) => value === undefined ? '' : String(value);
+
+export default function GenerationSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<GenerationSettings | null>(null);
+  const [stopText, setStopText] = useState('');
+  const [newOverrideIntent, setNewOverrideIntent] = useState('order_tracking');
+
+  const { data } = useQuery<GenerationSettings>({
+    queryKey: ['/api/admin/ai-generation'],
+    queryFn: () => apiRequest('/api/admin/ai-generation')
+  });
+
+  const { data: intentsData } = useQuery<{ intents: string[] }>({
+    queryKey: ['/api/admin/intents'],
+    queryFn: () => apiRequest('/api/admin/intents')
+  });
+
+  useEffect(() => {
+    if (data) {
+      setSettings(data);
+      setStopText(data.defaults.stop.join('\n'));
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (generation: GenerationSettings) => apiRequest('/api/admin/ai-generation', {
+      method: 'PUT',
+      body: JSON.stringify(generation)
+    }),
+    onSuccess: () => {
+      toast({ title: "Generation settings saved!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-generation'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save generation settings",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!settings) return null;
+
+  const intents = intentsData?.intents || [];
+  const defaults = settings.defaults;
+  const setDefaults = (changes: Partial<GenerationParams>) => setSettings({ ...settings, defaults: { ...defaults, ...changes } });
+  const setOverride = (intent: string, changes: Partial<IntentOverride>) => setSettings({
+    ...settings,
+    intentOverrides: settings.intentOverrides.map(entry => entry.intent === intent ? { ...entry, ...changes } : entry)
+  });
+
+  const handleAddOverride = () => {
+    if (settings.intentOverrides.some(entry => entry.intent === newOverrideIntent)) return;
+    setSettings({ ...settings, intentOverrides: [...settings.intentOverrides, { intent: newOverrideIntent }] });
+  };
+
+  const handleSave = () => {
+    const stop = stopText.split('\n').filter(line => line.trim());
+    saveMutation.mutate({ ...settings, defaults: { ...defaults, stop } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5" />
+          Generation Settings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-500">
+          Sent with every request, whichever provider answers. Settings a provider does not support are ignored, and Anthropic models use Top P instead of the temperature when it is below 1.
+        </p>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="gen-temperature">Temperature</Label>
+            <Input
+              id="gen-temperature"
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={defaults.temperature}
+              onChange={(e) => setDefaults({ temperature: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="gen-top-p">Top P (optional)</Label>
+            <Input
+              id="gen-top-p"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              placeholder="Provider default"
+              value={toText(defaults.topP)}
+              onChange={(e) => setDefaults({ topP: toNumber(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="gen-max-tokens">Max Tokens</Label>
+            <Input
+              id="gen-max-tokens"
+              type="number"
+              min={1}
+              value={defaults.maxTokens}
+              onChange={(e) => setDefaults({ maxTokens: parseInt(e.target.value) || 1 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="gen-presence">Presence Penalty (optional)</Label>
+            <Input
+              id="gen-presence"
+              type="number"
+              min={-2}
+              max={2}
+              step={0.1}
+              placeholder="Provider default"
+              value={toText(defaults.presencePenalty)}
+              onChange={(e) => setDefaults({ presencePenalty: toNumber(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="gen-frequency">Frequency Penalty (optional)</Label>
+            <Input
+              id="gen-frequency"
+              type="number"
+              min={-2}
+              max={2}
+              step={0.1}
+              placeholder="Provider default"
+              value={toText(defaults.frequencyPenalty)}
+              onChange={(e) => setDefaults({ frequencyPenalty: toNumber(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="gen-stop">Stop Sequences (one per line, up to 4)</Label>
+          <Textarea
+            id="gen-stop"
+            rows={2}
+            value={stopText}
+            onChange={(e) => setStopText(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold">Per-intent Overrides</h3>
+          <p className="text-sm text-gray-500">
+            For example a low temperature for order and policy answers. Blank fields use the settings above.
+          </p>
+          {settings.intentOverrides.map(entry => (
+            <div key={entry.intent} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-end">
+              <span className="font-medium capitalize pb-2">{formatIntent(entry.intent)}</span>
+              <div>
+                <Label className="text-xs">Temperature</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={toText(entry.temperature)}
+                  onChange={(e) => setOverride(entry.intent, { temperature: toNumber(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Top P</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={toText(entry.topP)}
+                  onChange={(e) => setOverride(entry.intent, { topP: toNumber(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Max Tokens</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={toText(entry.maxTokens)}
+                  onChange={(e) => setOverride(entry.intent, { maxTokens: toNumber(e.target.value) })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSettings({ ...settings, intentOverrides: settings.intentOverrides.filter(current => current.intent !== entry.intent) })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Select value={newOverrideIntent} onValueChange={setNewOverrideIntent}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {intents.map(intent => (
+                  <SelectItem key={intent} value={intent} className="capitalize">{formatIntent(intent)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAddOverride}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Override
+            </Button>
+          </div>
+        </div>
+
+        <Button onClick={handleSave} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : 'Save Generation Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
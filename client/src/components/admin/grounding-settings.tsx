@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface GroundingSettings {
+  strict: boolean;
+  minConfidence: number;
+  verifyAnswers: boolean;
+  fallbackMessage: string;
+}
+
+export default function GroundingSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<GroundingSettings | null>(null);
+
+  const { data } = useQuery<GroundingSettings>({
+    queryKey: ['/api/admin/grounding/settings'],
+    queryFn: () => apiRequest('/api/admin/grounding/settings')
+  });
+
+  useEffect(() => {
+    if (data) setSettings(data);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (newSettings: GroundingSettings) => apiRequest('/api/admin/grounding/settings', {
+      method: 'PUT',
+      body: JSON.stringify(newSettings)
+    }),
+    onSuccess: () => {
+      toast({ title: "Grounding settings saved!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/grounding/settings'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save grounding settings",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Grounded Answers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="grounding-strict">Strict mode</Label>
+            <p className="text-sm text-gray-500">
+              When the knowledge base has nothing relevant, reply with the fallback message and offer a human agent or order tracking.
+            </p>
+          </div>
+          <Switch
+            id="grounding-strict"
+            checked={settings.strict}
+            onCheckedChange={(checked) => setSettings({ ...settings, strict: checked })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="grounding-confidence">Minimum retrieval confidence</Label>
+          <Input
+            id="grounding-confidence"
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.minConfidence}
+            disabled={!settings.strict}
+            onChange={(e) => setSettings({ ...settings, minConfidence: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="grounding-verify">Verify answers</Label>
+            <p className="text-sm text-gray-500">
+              Ask the AI provider to check each answer against the retrieved documents. Adds a second request per message.
+            </p>
+          </div>
+          <Switch
+            id="grounding-verify"
+            checked={settings.verifyAnswers}
+            disabled={!settings.strict}
+            onCheckedChange={(checked) => setSettings({ ...settings, verifyAnswers: checked })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="grounding-fallback">Fallback message</Label>
+          <Textarea
+            id="grounding-fallback"
+            rows={3}
+            value={settings.fallbackMessage}
+            onChange={(e) => setSettings({ ...settings, fallbackMessage: e.target.value })}
+          />
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate(settings)}
+          disabled={saveMutation.isPending || !settings.fallbackMessage.trim()}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Grounding Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
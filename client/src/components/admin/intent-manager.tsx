@@ -0,0 +1,288 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Brain, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface IntentExample {
+  id: string;
+  text: string;
+  intent: string;
+  source: 'builtin' | 'admin';
+  createdAt: string;
+}
+
+interface IntentSettings {
+  llmFallback: boolean;
+  confidenceThreshold: number;
+}
+
+interface IntentsResponse {
+  intents: string[];
+  examples: IntentExample[];
+  settings: IntentSettings;
+}
+
+interface IntentClassification {
+  intent: string;
+  confidence: number;
+  scores: Record<string, number>;
+  method: 'classifier' | 'llm' | 'default';
+}
+
+const formatIntent = (intent: string) => intent.replace(/_/g, ' ');
+
+export default function IntentManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newExample, setNewExample] = useState({ text: '', intent: 'general' });
+  const [settings, setSettings] = useState<IntentSettings>({ llmFallback: false, confidenceThreshold: 0.5 });
+  const [testText, setTestText] = useState('');
+  const [testResult, setTestResult] = useState<IntentClassification | null>(null);
+  const [filter, setFilter] = useState('all');
+
+  const { data } = useQuery<IntentsResponse>({
+    queryKey: ['/api/admin/intents'],
+    queryFn: () => apiRequest('/api/admin/intents')
+  });
+
+  useEffect(() => {
+    if (data?.settings) {
+      setSettings(data.settings);
+    }
+  }, [data?.settings]);
+
+  const addExampleMutation = useMutation({
+    mutationFn: (example: { text: string; intent: string }) => apiRequest('/api/admin/intents/examples', {
+      method: 'POST',
+      body: JSON.stringify(example)
+    }),
+    onSuccess: () => {
+      toast({ title: "Example added and classifier retrained!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/intents'] });
+      setNewExample({ ...newExample, text: '' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add example",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteExampleMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/intents/examples/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/intents'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete example",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: (settings: IntentSettings) => apiRequest('/api/admin/intents/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings)
+    }),
+    onSuccess: () => {
+      toast({ title: "Intent settings saved!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/intents'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save intent settings",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const classifyMutation = useMutation({
+    mutationFn: (text: string) => apiRequest('/api/admin/intents/classify', {
+      method: 'POST',
+      body: JSON.stringify({ text })
+    }),
+    onSuccess: (result: IntentClassification) => setTestResult(result),
+    onError: (error: any) => {
+      toast({
+        title: "Classification failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const intents = data?.intents || [];
+  const examples = data?.examples || [];
+  const visibleExamples = filter === 'all' ? examples : examples.filter(example => example.intent === filter);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="w-5 h-5" />
+          Intent Detection
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold">Settings</h3>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="llm-fallback">AI fallback</Label>
+              <p className="text-sm text-gray-500">Ask the AI provider when the classifier is below the confidence threshold.</p>
+            </div>
+            <Switch
+              id="llm-fallback"
+              checked={settings.llmFallback}
+              onCheckedChange={(checked) => setSettings({ ...settings, llmFallback: checked })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="confidence-threshold">Confidence threshold</Label>
+            <Input
+              id="confidence-threshold"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.confidenceThreshold}
+              onChange={(e) => setSettings({ ...settings, confidenceThreshold: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <Button
+            onClick={() => saveSettingsMutation.mutate(settings)}
+            disabled={saveSettingsMutation.isPending}
+          >
+            {saveSettingsMutation.isPending ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </div>
+
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold">Test a Message</h3>
+          <div className="flex gap-2">
+            <Input
+              placeholder="e.g. I need a refund for my order"
+              value={testText}
+              onChange={(e) => setTestText(e.target.value)}
+            />
+            <Button
+              onClick={() => classifyMutation.mutate(testText)}
+              disabled={classifyMutation.isPending || !testText.trim()}
+            >
+              Classify
+            </Button>
+          </div>
+          {testResult && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge>{formatIntent(testResult.intent)}</Badge>
+                <span className="text-sm text-gray-600">
+                  {Math.round(testResult.confidence * 100)}% via {testResult.method}
+                </span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                {Object.entries(testResult.scores)
+                  .sort((a, b) => b[1] - a[1])
+                  .map(([intent, score]) => (
+                    <div key={intent} className="flex justify-between border rounded px-2 py-1 bg-white">
+                      <span>{formatIntent(intent)}</span>
+                      <span className="text-gray-500">{Math.round(score * 100)}%</span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold">Add Training Example</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="example-text">Customer message</Label>
+              <Input
+                id="example-text"
+                placeholder="e.g. can I pay in installments"
+                value={newExample.text}
+                onChange={(e) => setNewExample({ ...newExample, text: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="example-intent">Intent</Label>
+              <Select value={newExample.intent} onValueChange={(value) => setNewExample({ ...newExample, intent: value })}>
+                <SelectTrigger id="example-intent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {intents.map(intent => (
+                    <SelectItem key={intent} value={intent}>{formatIntent(intent)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button
+            onClick={() => addExampleMutation.mutate(newExample)}
+            disabled={addExampleMutation.isPending || !newExample.text.trim()}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {addExampleMutation.isPending ? 'Adding...' : 'Add Example'}
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Training Examples ({examples.length})</h3>
+            <Select value={filter} onValueChange={setFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All intents</SelectItem>
+                {intents.map(intent => (
+                  <SelectItem key={intent} value={intent}>{formatIntent(intent)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {visibleExamples.length > 0 ? (
+            <div className="grid gap-2">
+              {visibleExamples.map(example => (
+                <div key={example.id} className="flex items-center justify-between border rounded-lg px-4 py-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{formatIntent(example.intent)}</Badge>
+                    <span className="text-sm">{example.text}</span>
+                    {example.source === 'builtin' && <Badge variant="secondary">built-in</Badge>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteExampleMutation.mutate(example.id)}
+                    disabled={deleteExampleMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-8">No training examples for this intent.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
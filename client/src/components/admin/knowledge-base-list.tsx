@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Trash2, RotateCcw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface KnowledgeDocument {
+  id: string;
+  title: string;
+  content: string;
+  type: string;
+  sourceUrl?: string;
+  isActive: boolean;
+  chunkCount: number;
+  createdOnUtc: string;
+  updatedOnUtc: string;
+}
+
+interface KnowledgeForm {
+  title: string;
+  content: string;
+  type: string;
+  sourceUrl: string;
+}
+
+const KNOWLEDGE_TYPES = ['faq', 'website', 'pdf', 'manual'];
+
+interface KnowledgeBaseListProps {
+  canEdit: boolean;
+}
+
+// Existing knowledge documents. Deleting first deactivates a document, which
+// the chatbot then ignores; inactive documents can be restored or deleted for good.
+export default function KnowledgeBaseList({ canEdit }: KnowledgeBaseListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<KnowledgeDocument | null>(null);
+  const [form, setForm] = useState<KnowledgeForm>({ title: '', content: '', type: 'manual', sourceUrl: '' });
+  const [deleting, setDeleting] = useState<KnowledgeDocument | null>(null);
+
+  const { data: documents = [] } = useQuery<KnowledgeDocument[]>({
+    queryKey: ['/api/admin/knowledge-base'],
+    queryFn: () => apiRequest('/api/admin/knowledge-base')
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/admin/knowledge-base/${editing!.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(form)
+    }),
+    onSuccess: (document: KnowledgeDocument) => {
+      toast({ title: "Knowledge updated!", description: `Re-indexed as ${document.chunkCount} chunks.` });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/knowledge-base'] });
+      setEditing(null);
+    },
+    onError: onError("Failed to update knowledge")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({ id, hard }: { id: string; hard: boolean }) =>
+      apiRequest(`/api/admin/knowledge-base/${id}${hard ? '?hard=true' : ''}`, { method: 'DELETE' }),
+    onSuccess: (_, { hard }) => {
+      toast({ title: hard ? "Knowledge deleted" : "Knowledge deactivated" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/knowledge-base'] });
+      setDeleting(null);
+    },
+    onError: onError("Failed to delete knowledge")
+  });
+
+  const reactivateMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/knowledge-base/${id}/reactivate`, { method: 'POST' }),
+    onSuccess: () => {
+      toast({ title: "Knowledge reactivated!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/knowledge-base'] });
+    },
+    onError: onError("Failed to reactivate knowledge")
+  });
+
+  const startEditing = (document: KnowledgeDocument) => {
+    setEditing(document);
+    setForm({
+      title: document.title,
+      content: document.content,
+      type: document.type,
+      sourceUrl: document.sourceUrl || ''
+    });
+  };
+
+  const typeOptions = KNOWLEDGE_TYPES.includes(form.type) ? KNOWLEDGE_TYPES : [...KNOWLEDGE_TYPES, form.type];
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold">Existing Knowledge Base</h3>
+      {documents.length > 0 ? (
+        <div className="grid gap-4">
+          {documents.map(item => (
+            <Card key={item.id} className={`p-4 ${item.isActive ? '' : 'opacity-60'}`}>
+              <div className="flex justify-between items-start">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    <h4 className="font-medium">{item.title}</h4>
+                    <Badge variant="outline">{item.type}</Badge>
+                    {item.isActive ? <Badge variant="default">Active</Badge> : <Badge variant="secondary">Inactive</Badge>}
+                    <span className="text-xs text-gray-500">{item.chunkCount} chunks</span>
+                  </div>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {item.content.length > 200 ? `${item.content.substring(0, 200)}...` : item.content}
+                  </p>
+                  {item.sourceUrl && (
+                    <a href={item.sourceUrl} target="_blank" rel="noopener noreferrer"
+                       className="text-sm text-blue-600 hover:underline">
+                      View Source
+                    </a>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    {item.isActive ? (
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(item)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => reactivateMutation.mutate(item.id)}
+                        disabled={reactivateMutation.isPending}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setDeleting(item)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-center py-8">No knowledge base entries found. Add some knowledge to get started.</p>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Knowledge</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="edit-knowledge-title">Title</Label>
+                <Input
+                  id="edit-knowledge-title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-knowledge-type">Type</Label>
+                <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value })}>
+                  <SelectTrigger id="edit-knowledge-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {typeOptions.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="edit-knowledge-source">Source URL (optional)</Label>
+              <Input
+                id="edit-knowledge-source"
+                value={form.sourceUrl}
+                onChange={(e) => setForm({ ...form, sourceUrl: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="edit-knowledge-content">Content</Label>
+              <Textarea
+                id="edit-knowledge-content"
+                rows={12}
+                value={form.content}
+                onChange={(e) => setForm({ ...form, content: e.target.value })}
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Saving chunks and indexes the document again. Page numbers and headings of an uploaded file are kept only while the content is unchanged.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateMutation.mutate()}
+              disabled={updateMutation.isPending || !form.title.trim() || !form.content.trim()}
+            >
+              {updateMutation.isPending ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.isActive
+                ? 'Deactivating keeps the document so it can be restored later; the chatbot stops using it right away. Deleting permanently removes it and its chunks.'
+                : 'This permanently removes the document and its chunks. It cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            {deleting?.isActive && (
+              <Button
+                variant="outline"
+                onClick={() => deleteMutation.mutate({ id: deleting.id, hard: false })}
+                disabled={deleteMutation.isPending}
+              >
+                Deactivate
+              </Button>
+            )}
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => {
+                e.preventDefault();
+                if (deleting) deleteMutation.mutate({ id: deleting.id, hard: true });
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
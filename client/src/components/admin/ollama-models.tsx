@@ -0,0 +1,143 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface OllamaModel {
+  name: string;
+  size: string;
+  sizeBytes: number;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  modifiedAt?: string;
+  loaded: boolean;
+  loadedUntil?: string;
+}
+
+interface OllamaPull {
+  model: string;
+  endpoint: string;
+  status: string;
+  completed?: number;
+  total?: number;
+  done: boolean;
+  error?: string;
+  startedAt: string;
+}
+
+export const ollamaModelsQueryKey = (endpoint: string) => ['/api/admin/ollama-models', endpoint];
+
+export function useOllamaModels(endpoint: string, enabled: boolean) {
+  return useQuery<OllamaModel[]>({
+    queryKey: ollamaModelsQueryKey(endpoint),
+    queryFn: () => apiRequest(`/api/admin/ollama-models?endpoint=${encodeURIComponent(endpoint)}`),
+    enabled: enabled && !!endpoint
+  });
+}
+
+// Installed models on an Ollama server, and pulling new ones
+export default function OllamaModels({ endpoint }: { endpoint: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [modelToPull, setModelToPull] = useState('');
+
+  const { data: models = [] } = useOllamaModels(endpoint, true);
+
+  const { data: pulls = [] } = useQuery<OllamaPull[]>({
+    queryKey: ['/api/admin/ollama-models/pulls'],
+    queryFn: () => apiRequest('/api/admin/ollama-models/pulls'),
+    // Poll only while a pull is running
+    refetchInterval: (query) => (query.state.data || []).some(pull => !pull.done) ? 2000 : false
+  });
+
+  // Show newly pulled models once the last running pull finishes
+  const runningPulls = pulls.filter(pull => !pull.done).length;
+  const previousRunningPulls = useRef(runningPulls);
+  useEffect(() => {
+    if (previousRunningPulls.current > 0 && runningPulls === 0) {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ollama-models'] });
+    }
+    previousRunningPulls.current = runningPulls;
+  }, [runningPulls, queryClient]);
+
+  const pullMutation = useMutation({
+    mutationFn: (model: string) => apiRequest('/api/admin/ollama-models/pull', {
+      method: 'POST',
+      body: JSON.stringify({ endpoint, model })
+    }),
+    onSuccess: () => {
+      toast({ title: "Model pull started" });
+      setModelToPull('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ollama-models/pulls'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to start model pull",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const serverPulls = pulls.filter(pull => pull.endpoint === endpoint);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-1">
+        {models.map(model => (
+          <div key={model.name} className="flex items-center justify-between text-sm bg-white border rounded px-3 py-1.5">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{model.name}</span>
+              {model.loaded && <Badge className="bg-green-100 text-green-800">loaded</Badge>}
+            </div>
+            <span className="text-gray-500">
+              {[model.parameterSize, model.quantization, model.size].filter(Boolean).join(' · ')}
+            </span>
+          </div>
+        ))}
+        {models.length === 0 && (
+          <p className="text-sm text-gray-500">No models found at this endpoint.</p>
+        )}
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <Label htmlFor="ollama-pull">Pull a model</Label>
+          <Input
+            id="ollama-pull"
+            placeholder="llama3.2:3b"
+            value={modelToPull}
+            onChange={(e) => setModelToPull(e.target.value)}
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => pullMutation.mutate(modelToPull.trim())}
+          disabled={pullMutation.isPending || !modelToPull.trim()}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Pull
+        </Button>
+      </div>
+
+      {serverPulls.map(pull => (
+        <div key={`${pull.model}-${pull.startedAt}`} className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span>{pull.model}: {pull.error || pull.status}</span>
+            {pull.total ? <span>{Math.round(((pull.completed || 0) / pull.total) * 100)}%</span> : null}
+          </div>
+          {!pull.done && (
+            <Progress value={pull.total ? ((pull.completed || 0) / pull.total) * 100 : 0} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
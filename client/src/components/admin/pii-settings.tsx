@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { EyeOff } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+type PiiType = 'email' | 'phone' | 'card' | 'iban' | 'address';
+
+interface PiiTypeSettings {
+  store: boolean;
+  prompt: boolean;
+}
+
+interface PiiSettings {
+  enabled: boolean;
+  types: Record<PiiType, PiiTypeSettings>;
+}
+
+interface PiiPreview {
+  matches: { type: PiiType; value: string }[];
+  stored: string;
+  prompt: string;
+}
+
+const typeLabels: Record<PiiType, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  card: 'Card numbers (Luhn-checked)',
+  iban: 'IBANs',
+  address: 'Street addresses'
+};
+
+// Which kinds of customer PII are redacted in transcripts and AI prompts
+export default function PiiSettingsCard({ canEditSettings }: { canEditSettings: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<PiiSettings | null>(null);
+  const [testText, setTestText] = useState('');
+  const [preview, setPreview] = useState<PiiPreview | null>(null);
+
+  const { data } = useQuery<PiiSettings>({
+    queryKey: ['/api/admin/pii/settings'],
+    queryFn: () => apiRequest('/api/admin/pii/settings')
+  });
+
+  useEffect(() => {
+    if (data) setSettings(data);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (newSettings: PiiSettings) => apiRequest('/api/admin/pii/settings', {
+      method: 'PUT',
+      body: JSON.stringify(newSettings)
+    }),
+    onSuccess: () => {
+      toast({ title: "PII settings saved!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/pii/settings'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save PII settings",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (text: string) => apiRequest('/api/admin/pii/test', {
+      method: 'POST',
+      body: JSON.stringify({ text })
+    }),
+    onSuccess: (result: PiiPreview) => setPreview(result),
+    onError: (error: any) => {
+      toast({
+        title: "Redaction test failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!settings) return null;
+
+  const setType = (type: PiiType, changes: Partial<PiiTypeSettings>) => setSettings({
+    ...settings,
+    types: { ...settings.types, [type]: { ...settings.types[type], ...changes } }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <EyeOff className="w-5 h-5" />
+          PII Redaction
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-500">
+          Detected values are replaced by tokens such as [EMAIL_1]. Order lookups still receive the real values, and customers see them in answers.
+        </p>
+
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="pii-enabled">Redaction enabled</Label>
+            <Switch
+              id="pii-enabled"
+              checked={settings.enabled}
+              disabled={!canEditSettings}
+              onCheckedChange={(checked) => setSettings({ ...settings, enabled: checked })}
+            />
+          </div>
+          <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 gap-y-2 items-center text-sm">
+            <span className="font-semibold">Type</span>
+            <span className="font-semibold">Stored chats</span>
+            <span className="font-semibold">AI prompts</span>
+            {(Object.keys(typeLabels) as PiiType[]).map(type => (
+              <div key={type} className="contents">
+                <span>{typeLabels[type]}</span>
+                <Switch
+                  checked={settings.types[type].store}
+                  disabled={!canEditSettings || !settings.enabled}
+                  onCheckedChange={(checked) => setType(type, { store: checked })}
+                />
+                <Switch
+                  checked={settings.types[type].prompt}
+                  disabled={!canEditSettings || !settings.enabled}
+                  onCheckedChange={(checked) => setType(type, { prompt: checked })}
+                />
+              </div>
+            ))}
+          </div>
+          {canEditSettings && (
+            <Button
+              onClick={() => saveMutation.mutate(settings)}
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold">Test Redaction</h3>
+          <Textarea
+            rows={3}
+            placeholder="e.g. My email is jane@example.com and my card is 4111 1111 1111 1111"
+            value={testText}
+            onChange={(e) => setTestText(e.target.value)}
+          />
+          <Button
+            onClick={() => testMutation.mutate(testText)}
+            disabled={testMutation.isPending || !testText.trim()}
+          >
+            Test
+          </Button>
+          {preview && (
+            <div className="space-y-2 text-sm">
+              <div className="flex flex-wrap gap-2">
+                {preview.matches.map((match, index) => (
+                  <Badge key={index} variant="outline">{match.type}: {match.value}</Badge>
+                ))}
+                {preview.matches.length === 0 && <span className="text-gray-500">No PII detected.</span>}
+              </div>
+              <div><span className="font-medium">Stored:</span> {preview.stored}</div>
+              <div><span className="font-medium">Sent to AI:</span> {preview.prompt}</div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, History, Eye, RotateCcw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface PromptTemplateVersion {
+  id: string;
+  version: number;
+  template: string;
+  note?: string;
+  createdAt: string;
+  createdBy?: string;
+  restoredFrom?: number;
+}
+
+interface PromptTemplatesResponse {
+  active: string;
+  versions: PromptTemplateVersion[];
+  variables: string[];
+}
+
+interface DiffResponse {
+  from: number | null;
+  to: number;
+  lines: { type: 'same' | 'added' | 'removed'; line: string }[];
+}
+
+interface PreviewResponse {
+  intent: string;
+  prompt: string;
+  unknownVariables: string[];
+}
+
+const diffStyles = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through'
+};
+
+const diffMarkers = { same: ' ', added: '+', removed: '-' };
+
+export default function PromptTemplateEditor() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [template, setTemplate] = useState('');
+  const [note, setNote] = useState('');
+  const [sample, setSample] = useState({ query: 'Where is my order?', customerName: '' });
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [diff, setDiff] = useState<DiffResponse | null>(null);
+
+  const { data } = useQuery<PromptTemplatesResponse>({
+    queryKey: ['/api/admin/prompt-templates'],
+    queryFn: () => apiRequest('/api/admin/prompt-templates')
+  });
+
+  useEffect(() => {
+    if (data) {
+      setTemplate(data.active);
+    }
+  }, [data?.active]);
+
+  const versions = data?.versions || [];
+  const latestVersion = versions[0]?.version;
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('/api/admin/prompt-templates', {
+      method: 'POST',
+      body: JSON.stringify({ template, note: note || undefined })
+    }),
+    onSuccess: (version: PromptTemplateVersion) => {
+      toast({ title: `Saved as version ${version.version}` });
+      setNote('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/prompt-templates'] });
+    },
+    onError: onError("Failed to save template")
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: number) => apiRequest(`/api/admin/prompt-templates/${version}/rollback`, { method: 'POST' }),
+    onSuccess: (version: PromptTemplateVersion) => {
+      toast({ title: `Restored version ${version.restoredFrom} as version ${version.version}` });
+      setDiff(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/prompt-templates'] });
+    },
+    onError: onError("Failed to roll back")
+  });
+
+  const diffMutation = useMutation({
+    mutationFn: (version: number) => apiRequest(`/api/admin/prompt-templates/${version}/diff`),
+    onSuccess: (result: DiffResponse) => setDiff(result),
+    onError: onError("Failed to load diff")
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => apiRequest('/api/admin/prompt-templates/preview', {
+      method: 'POST',
+      body: JSON.stringify({ query: sample.query, customerName: sample.customerName || undefined, template })
+    }),
+    onSuccess: (result: PreviewResponse) => setPreview(result),
+    onError: onError("Failed to render preview")
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            System Prompt Template
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+            Variables:
+            {(data?.variables || []).map(variable => (
+              <Badge key={variable} variant="outline" className="font-mono">{`{{${variable}}}`}</Badge>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Wrap text in <code>{'{{#name}}...{{/name}}'}</code> to include it only when the variable has a value.
+          </p>
+          <Textarea
+            className="font-mono text-sm"
+            rows={18}
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Input
+              placeholder="What changed (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !template.trim() || template === data?.active}
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save New Version'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Eye className="w-5 h-5" />
+            Preview
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-[2fr_1fr_auto] gap-2 items-end">
+            <div>
+              <Label htmlFor="preview-query">Sample customer message</Label>
+              <Input
+                id="preview-query"
+                value={sample.query}
+                onChange={(e) => setSample({ ...sample, query: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="preview-customer">Customer name (optional)</Label>
+              <Input
+                id="preview-customer"
+                value={sample.customerName}
+                onChange={(e) => setSample({ ...sample, customerName: e.target.value })}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending || !sample.query.trim()}
+            >
+              {previewMutation.isPending ? 'Rendering...' : 'Render'}
+            </Button>
+          </div>
+          {preview && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                Detected intent: <Badge variant="secondary">{preview.intent.replace(/_/g, ' ')}</Badge>
+              </div>
+              {preview.unknownVariables.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Unknown variables, which cannot be saved: {preview.unknownVariables.join(', ')}
+                </p>
+              )}
+              <pre className="whitespace-pre-wrap text-sm bg-gray-50 border rounded-lg p-4 max-h-96 overflow-y-auto">
+                {preview.prompt}
+              </pre>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version History
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-2">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between border rounded-lg px-4 py-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">v{version.version}</span>
+                  {version.version === latestVersion && <Badge>active</Badge>}
+                  <span className="text-gray-600">{version.note}</span>
+                  <span className="text-gray-400">
+                    {new Date(version.createdAt).toLocaleString()}{version.createdBy ? ` by ${version.createdBy}` : ''}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => diffMutation.mutate(version.version)}>
+                    Diff
+                  </Button>
+                  {version.version !== latestVersion && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rollbackMutation.mutate(version.version)}
+                      disabled={rollbackMutation.isPending}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Roll back
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {diff && (
+            <div className="space-y-2">
+              <h3 className="font-semibold text-sm">
+                {diff.from ? `Changes from v${diff.from} to v${diff.to}` : `v${diff.to} (first version)`}
+              </h3>
+              <pre className="text-sm border rounded-lg p-2 max-h-96 overflow-y-auto">
+                {diff.lines.map((line, index) => (
+                  <div key={index} className={diffStyles[line.type]}>
+                    {diffMarkers[line.type]} {line.line}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Zap, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ResponseCacheSettings {
+  enabled: boolean;
+  ttlSeconds: number;
+  similarityThreshold: number;
+  maxEntries: number;
+}
+
+interface ResponseCacheStats {
+  entries: number;
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  bypassed: number;
+  invalidations: number;
+  hitRate: number;
+  topQuestions: { question: string; hits: number }[];
+  since: string;
+}
+
+interface ResponseCacheCardProps {
+  canEditSettings: boolean;
+  canClear: boolean;
+}
+
+// Hit and miss stats for cached answers to repeated questions
+export default function ResponseCacheCard({ canEditSettings, canClear }: ResponseCacheCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<ResponseCacheSettings | null>(null);
+
+  const { data: savedSettings } = useQuery<ResponseCacheSettings>({
+    queryKey: ['/api/admin/cache/settings'],
+    queryFn: () => apiRequest('/api/admin/cache/settings')
+  });
+
+  const { data: stats } = useQuery<ResponseCacheStats>({
+    queryKey: ['/api/admin/cache/stats'],
+    queryFn: () => apiRequest('/api/admin/cache/stats'),
+    refetchInterval: 30000
+  });
+
+  useEffect(() => {
+    if (savedSettings) setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: (newSettings: ResponseCacheSettings) => apiRequest('/api/admin/cache/settings', {
+      method: 'PUT',
+      body: JSON.stringify(newSettings)
+    }),
+    onSuccess: () => {
+      toast({ title: "Cache settings saved!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/cache/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/cache/stats'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save cache settings",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => apiRequest('/api/admin/cache/clear', { method: 'POST' }),
+    onSuccess: (result: { cleared: number }) => {
+      toast({ title: `Cleared ${result.cleared} cached answers` });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/cache/stats'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to clear cache",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!settings || !stats) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="w-5 h-5" />
+          Response Cache
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="text-center p-4 border rounded-lg">
+            <div className="text-2xl font-bold text-blue-600">{Math.round(stats.hitRate * 100)}%</div>
+            <div className="text-sm text-gray-600">Hit Rate</div>
+          </div>
+          <div className="text-center p-4 border rounded-lg">
+            <div className="text-2xl font-bold text-green-600">{stats.hits}</div>
+            <div className="text-sm text-gray-600">Hits ({stats.semanticHits} reworded)</div>
+          </div>
+          <div className="text-center p-4 border rounded-lg">
+            <div className="text-2xl font-bold text-orange-600">{stats.misses}</div>
+            <div className="text-sm text-gray-600">Misses</div>
+          </div>
+          <div className="text-center p-4 border rounded-lg">
+            <div className="text-2xl font-bold text-purple-600">{stats.entries}</div>
+            <div className="text-sm text-gray-600">Cached Answers</div>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">
+          Since {new Date(stats.since).toLocaleString()}. {stats.bypassed} requests bypassed the cache; it was cleared {stats.invalidations} times after knowledge or product changes.
+        </p>
+
+        {stats.topQuestions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Most Repeated Questions</h3>
+            {stats.topQuestions.map(entry => (
+              <div key={entry.question} className="flex items-center justify-between text-sm">
+                <span className="truncate">{entry.question}</span>
+                <Badge variant="outline">{entry.hits} hits</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEditSettings && (
+          <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+            <h3 className="font-semibold">Settings</h3>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="cache-enabled">Cache enabled</Label>
+              <Switch
+                id="cache-enabled"
+                checked={settings.enabled}
+                onCheckedChange={(checked) => setSettings({ ...settings, enabled: checked })}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="cache-ttl">Time to live (minutes)</Label>
+                <Input
+                  id="cache-ttl"
+                  type="number"
+                  min={1}
+                  value={Math.round(settings.ttlSeconds / 60)}
+                  disabled={!settings.enabled}
+                  onChange={(e) => setSettings({ ...settings, ttlSeconds: (parseInt(e.target.value) || 1) * 60 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cache-similarity">Similarity threshold</Label>
+                <Input
+                  id="cache-similarity"
+                  type="number"
+                  min={0.5}
+                  max={1}
+                  step={0.01}
+                  value={settings.similarityThreshold}
+                  disabled={!settings.enabled}
+                  onChange={(e) => setSettings({ ...settings, similarityThreshold: parseFloat(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cache-size">Maximum answers</Label>
+                <Input
+                  id="cache-size"
+                  type="number"
+                  min={10}
+                  value={settings.maxEntries}
+                  disabled={!settings.enabled}
+                  onChange={(e) => setSettings({ ...settings, maxEntries: parseInt(e.target.value) || 10 })}
+                />
+              </div>
+            </div>
+            <Button
+              onClick={() => saveMutation.mutate(settings)}
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        )}
+
+        {canClear && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              Clear the cache after changing the system prompt or AI provider.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending || stats.entries === 0}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear Cache
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
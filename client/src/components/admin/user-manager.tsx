@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Users, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAdminAuth, AdminRole, AdminUser, roleLabels } from "@/hooks/use-admin-auth";
+
+const roles = Object.keys(roleLabels) as AdminRole[];
+
+export default function UserManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAdminAuth();
+  const [newUser, setNewUser] = useState<{ username: string; password: string; role: AdminRole }>({
+    username: '',
+    password: '',
+    role: 'content_editor'
+  });
+
+  const { data: users = [] } = useQuery<AdminUser[]>({
+    queryKey: ['/api/admin/users'],
+    queryFn: () => apiRequest('/api/admin/users')
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: (user: typeof newUser) => apiRequest('/api/admin/users', {
+      method: 'POST',
+      body: JSON.stringify(user)
+    }),
+    onSuccess: () => {
+      toast({ title: "User created successfully!" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      setNewUser({ username: '', password: '', role: newUser.role });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create user",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: AdminRole }) => apiRequest(`/api/admin/users/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role })
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to change role",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/users/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete user",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Admin Users
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold">Add User</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="new-username">Username</Label>
+              <Input
+                id="new-username"
+                value={newUser.username}
+                onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="new-password">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder="At least 8 characters"
+                value={newUser.password}
+                onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="new-role">Role</Label>
+              <Select value={newUser.role} onValueChange={(value) => setNewUser({ ...newUser, role: value as AdminRole })}>
+                <SelectTrigger id="new-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(role => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button
+            onClick={() => createUserMutation.mutate(newUser)}
+            disabled={createUserMutation.isPending || !newUser.username.trim() || !newUser.password}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {createUserMutation.isPending ? 'Adding...' : 'Add User'}
+          </Button>
+        </div>
+
+        <div className="grid gap-2">
+          {users.map(user => (
+            <div key={user.id} className="flex items-center justify-between border rounded-lg px-4 py-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{user.username}</span>
+                {user.id === currentUser?.id && <Badge variant="secondary">you</Badge>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={user.role}
+                  onValueChange={(value) => updateRoleMutation.mutate({ id: user.id, role: value as AdminRole })}
+                  disabled={user.id === currentUser?.id}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map(role => (
+                      <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteUserMutation.mutate(user.id)}
+                  disabled={user.id === currentUser?.id || deleteUserMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+import { Fragment } from "react";
+
+export interface CitedSource {
+  number: number;
+  title: string;
+  url?: string;
+}
+
+interface CitedTextProps {
+  content: string;
+  sources?: CitedSource[];
+}
+
+// Answer text with [n] markers rendered as footnote links to the cited sources
+export default function CitedText({ content, sources = [] }: CitedTextProps) {
+  const byNumber = new Map(sources.map(source => [source.number, source]));
+
+  return (
+    <div className="whitespace-pre-wrap">
+      {content.split(/(\[\d+\])/g).map((part, index) => {
+        const source = byNumber.get(Number(part.match(/^\[(\d+)\]$/)?.[1]));
+        if (!source) return <Fragment key={index}>{part}</Fragment>;
+
+        return (
+          <sup key={index} className="ml-0.5">
+            {source.url ? (
+              <a href={source.url} target="_blank" rel="noopener noreferrer" title={source.title} className="text-blue-600 hover:underline">
+                [{source.number}]
+              </a>
+            ) : (
+              <span title={source.title}>[{source.number}]</span>
+            )}
+          </sup>
+        );
+      })}
+    </div>
+  );
+}
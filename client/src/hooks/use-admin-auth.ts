@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+export type AdminRole = 'owner' | 'content_editor' | 'support_agent' | 'analyst';
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  role: AdminRole;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const roleLabels: Record<AdminRole, string> = {
+  owner: 'Owner',
+  content_editor: 'Content editor',
+  support_agent: 'Support agent',
+  analyst: 'Analyst'
+};
+
+const ME_QUERY_KEY = ['/api/auth/me'];
+
+// The logged-in admin, or null when logged out
+export function useAdminAuth() {
+  const queryClient = useQueryClient();
+
+  const { data: user = null, isLoading } = useQuery<AdminUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" })
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: { username: string; password: string }) => apiRequest('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(credentials)
+    }),
+    onSuccess: (user: AdminUser) => {
+      queryClient.setQueryData(ME_QUERY_KEY, user);
+    }
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest('/api/auth/logout', { method: 'POST' }),
+    onSuccess: () => {
+      // Drop cached admin data so the next user never sees it
+      queryClient.removeQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/admin') });
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+    }
+  });
+
+  const hasRole = (...roles: AdminRole[]) => !!user && roles.includes(user.role);
+
+  return { user, isLoading, hasRole, loginMutation, logoutMutation };
+}
@@ -7,22 +7,120 @@ export interface TrackOrderRequest {
 }
 
 export interface ChatMessageRequest {
-  sessionId: string;
   content: string;
   isBot: boolean;
+  // Skip the server's cache of answers to repeated questions
+  bypassCache?: boolean;
+}
+
+export interface ChatHistoryMessage {
+  content: string;
+  isBot: boolean;
+  sender: 'customer' | 'bot' | 'agent';
+  agentName?: string;
+  timestamp: string;
+}
+
+export interface ChatSession {
+  sessionId: string;
+  token: string;
+  expiresAt: string;
+  resumed: boolean;
+  history: ChatHistoryMessage[];
+  handoff: { status: 'waiting' | 'active' | 'closed'; agentName?: string } | null;
 }
 
+const SESSION_TOKEN_KEY = "karjiChatSessionToken";
+
+export const chatAuthHeaders = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+// Resumes the visitor's session from the cookie or the stored token, or starts
+// a new one. `restart` always starts a new one.
+export const startChatSession = async (restart = false): Promise<ChatSession> => {
+  const session: ChatSession = await apiRequest("/api/chat/session", {
+    method: "POST",
+    body: JSON.stringify({ token: localStorage.getItem(SESSION_TOKEN_KEY) || undefined, restart }),
+  });
+  localStorage.setItem(SESSION_TOKEN_KEY, session.token);
+  return session;
+};
+
 export const trackOrder = async (data: TrackOrderRequest): Promise<OrderTrackingData> => {
-  const response = await apiRequest("POST", "/api/track-order", data);
-  return response.json();
+  return apiRequest("/api/track-order", { method: "POST", body: JSON.stringify(data) });
 };
 
-export const sendChatMessage = async (data: ChatMessageRequest) => {
-  const response = await apiRequest("POST", "/api/chat/message", data);
-  return response.json();
+export const sendChatMessage = async (token: string, data: ChatMessageRequest) => {
+  return apiRequest("/api/chat/message", {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: chatAuthHeaders(token),
+  });
 };
 
-export const getChatHistory = async (sessionId: string) => {
-  const response = await apiRequest("GET", `/api/chat/history/${sessionId}`);
-  return response.json();
+export const getChatHistory = async (token: string): Promise<ChatHistoryMessage[]> => {
+  return apiRequest("/api/chat/history", { headers: chatAuthHeaders(token) });
+};
+
+export type SuggestedAction = 'handoff' | 'track_order';
+
+export interface ChatStreamResult {
+  message: string;
+  // Footnotes for the [n] markers in `message`
+  sources?: Array<{ number: number; title: string; url?: string }>;
+  confidence?: number;
+  orderTracking?: OrderTrackingData;
+  suggestedActions?: SuggestedAction[];
+  // The answer came from the server's response cache
+  cached?: boolean;
+  type: string;
+}
+
+// Posts a message to the streaming endpoint and reports tokens as they arrive.
+// Resolves with the final persisted answer once the server sends `done`.
+export const streamChatMessage = async (
+  token: string,
+  data: ChatMessageRequest,
+  onToken: (delta: string) => void
+): Promise<ChatStreamResult> => {
+  const res = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...chatAuthHeaders(token) },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split("\n\n");
+    buffer = events.pop() || "";
+
+    for (const raw of events) {
+      const event = raw.match(/^event: (.+)$/m)?.[1];
+      const payload = raw.match(/^data: (.+)$/m)?.[1];
+      if (!event || !payload) continue;
+
+      const parsed = JSON.parse(payload);
+      if (event === "token") {
+        onToken(parsed.delta);
+      } else if (event === "done") {
+        return parsed;
+      } else if (event === "error") {
+        throw new Error(parsed.message || parsed.error);
+      }
+    }
+  }
+
+  throw new Error("Chat stream ended unexpectedly");
 };
@@ -0,0 +1,43 @@
+import { ComponentType } from "react";
+import { Route, Redirect } from "wouter";
+import { ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useAdminAuth, AdminRole } from "@/hooks/use-admin-auth";
+
+// An admin page: sends logged-out visitors to the login page and tells
+// logged-in admins without one of `roles` that they lack access
+export function AdminRoute({ path, component: Component, roles }: {
+  path: string;
+  component: ComponentType;
+  roles?: AdminRole[];
+}) {
+  const { user, isLoading } = useAdminAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : !user ? (
+        <Redirect to="/admin/login" />
+      ) : roles && !roles.includes(user.role) ? (
+        <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+          <Card className="w-full max-w-md mx-4">
+            <CardContent className="pt-6">
+              <div className="flex mb-4 gap-2">
+                <ShieldAlert className="h-8 w-8 text-red-500" />
+                <h1 className="text-2xl font-bold text-gray-900">Access denied</h1>
+              </div>
+              <p className="mt-4 text-sm text-gray-600">
+                Your account does not have access to this page.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
@@ -10,11 +10,15 @@ async function throwIfResNotOk(res: Response) {
 export async function apiRequest(url: string, options?: {
   method?: string;
   body?: string;
+  headers?: Record<string, string>;
 }): Promise<any> {
   const method = options?.method || 'GET';
   const res = await fetch(url, {
     method,
-    headers: options?.body ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(options?.body ? { "Content-Type": "application/json" } : {}),
+      ...options?.headers,
+    },
     body: options?.body,
     credentials: "include",
   });
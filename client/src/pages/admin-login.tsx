@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+
+export default function AdminLogin() {
+  const { user, isLoading, loginMutation } = useAdminAuth();
+  const [credentials, setCredentials] = useState({ username: '', password: '' });
+
+  if (!isLoading && user) {
+    return <Redirect to="/admin" />;
+  }
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(credentials);
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="w-5 h-5" />
+            Admin Login
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div>
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={credentials.username}
+                onChange={(e) => setCredentials({ ...credentials, username: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={credentials.password}
+                onChange={(e) => setCredentials({ ...credentials, password: e.target.value })}
+              />
+            </div>
+            {loginMutation.isError && (
+              <p className="text-sm text-red-600">Invalid username or password.</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={loginMutation.isPending || !credentials.username || !credentials.password}
+            >
+              {loginMutation.isPending ? 'Logging in...' : 'Log In'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,27 +9,35 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, Bot, Database, Upload, RefreshCw, ExternalLink, Plus, Trash2 } from "lucide-react";
+import { Settings, Bot, Database, Upload, RefreshCw, ExternalLink, Plus, Trash2, Brain, Headphones, Users, LogOut, FileText } from "lucide-react";
+import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
+import IntentManager from "@/components/admin/intent-manager";
+import UserManager from "@/components/admin/user-manager";
+import AiProfilesManager from "@/components/admin/ai-profiles-manager";
+import GenerationSettingsCard from "@/components/admin/generation-settings";
+import GroundingSettingsCard from "@/components/admin/grounding-settings";
+import PromptTemplateEditor from "@/components/admin/prompt-template-editor";
+import GuardrailMonitor from "@/components/admin/guardrail-monitor";
+import PiiSettingsCard from "@/components/admin/pii-settings";
+import ResponseCacheCard from "@/components/admin/response-cache";
+import DocumentUpload from "@/components/admin/document-upload";
+import KnowledgeBaseList from "@/components/admin/knowledge-base-list";
+import FaqManager from "@/components/admin/faq-manager";
+import ChunkingSettingsCard from "@/components/admin/chunking-settings";
+import OllamaModels, { useOllamaModels } from "@/components/admin/ollama-models";
+import { useAdminAuth, roleLabels } from "@/hooks/use-admin-auth";
+
+type AiProvider = 'azure' | 'ollama' | 'openai_compatible' | 'anthropic';
 
 interface AiConfig {
   id: number;
-  provider: 'azure' | 'ollama';
+  provider: AiProvider;
   config: any;
   customInstructions?: string;
   isActive: boolean;
 }
 
-interface KnowledgeBase {
-  id: number;
-  title: string;
-  content: string;
-  type: string;
-  sourceUrl?: string;
-  isActive: boolean;
-  createdOnUtc: string;
-}
-
 interface MerchantFeed {
   id: number;
   name: string;
@@ -42,7 +50,12 @@ interface MerchantFeed {
 export default function AdminDashboard() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [selectedProvider, setSelectedProvider] = useState<'azure' | 'ollama'>('azure');
+  const { user, hasRole, logoutMutation } = useAdminAuth();
+  const isOwner = hasRole('owner');
+  const canEditPrompt = hasRole('owner', 'content_editor');
+  const canViewChats = hasRole('owner', 'support_agent', 'analyst');
+  const tabColumns = ['grid-cols-4', 'grid-cols-5', 'grid-cols-6', 'grid-cols-7'][(isOwner ? 2 : 0) + (canEditPrompt ? 1 : 0)];
+  const [selectedProvider, setSelectedProvider] = useState<AiProvider>('azure');
   const [customInstructions, setCustomInstructions] = useState('');
 
   // AI Configuration Form States
@@ -50,14 +63,48 @@ export default function AdminDashboard() {
     endpoint: '',
     apiKey: '',
     deploymentName: '',
-    apiVersion: '2024-02-01'
+    apiVersion: '2024-02-01',
+    embeddingDeployment: ''
   });
 
+  // Model options are kept as text so they can be left blank
   const [ollamaConfig, setOllamaConfig] = useState({
     endpoint: 'http://localhost:11434',
-    model: ''
+    model: '',
+    embeddingModel: '',
+    temperature: '',
+    numCtx: '',
+    keepAlive: ''
+  });
+
+  const [openaiCompatibleConfig, setOpenaiCompatibleConfig] = useState({
+    baseUrl: 'http://localhost:8000/v1',
+    apiKey: '',
+    model: '',
+    embeddingModel: ''
   });
 
+  const [anthropicConfig, setAnthropicConfig] = useState({
+    baseUrl: 'https://api.anthropic.com',
+    apiKey: '',
+    model: '',
+    apiVersion: '2023-06-01'
+  });
+
+  const providerConfigs: Record<AiProvider, object> = {
+    azure: azureConfig,
+    ollama: {
+      endpoint: ollamaConfig.endpoint,
+      model: ollamaConfig.model,
+      embeddingModel: ollamaConfig.embeddingModel,
+      temperature: ollamaConfig.temperature === '' ? undefined : parseFloat(ollamaConfig.temperature),
+      numCtx: ollamaConfig.numCtx === '' ? undefined : parseInt(ollamaConfig.numCtx),
+      keepAlive: ollamaConfig.keepAlive || undefined
+    },
+    openai_compatible: openaiCompatibleConfig,
+    anthropic: anthropicConfig
+  };
+
   // Knowledge Base Form States
   const [newKnowledge, setNewKnowledge] = useState({
     title: '',
@@ -76,15 +123,12 @@ export default function AdminDashboard() {
   // Query for current AI configuration
   const { data: aiConfig = null } = useQuery({
     queryKey: ['/api/admin/ai-config'],
-    queryFn: () => apiRequest('/api/admin/ai-config')
+    queryFn: () => apiRequest('/api/admin/ai-config'),
+    enabled: isOwner
   });
 
   // Query for Ollama models
-  const { data: ollamaModels = [], refetch: refetchModels } = useQuery({
-    queryKey: ['/api/admin/ollama-models'],
-    queryFn: () => apiRequest('/api/admin/ollama-models'),
-    enabled: selectedProvider === 'ollama'
-  });
+  const { data: ollamaModels = [], refetch: refetchModels } = useOllamaModels(ollamaConfig.endpoint, isOwner && selectedProvider === 'ollama');
 
   // Query for knowledge base
   const { data: knowledgeBase = [] } = useQuery({
@@ -107,6 +151,7 @@ export default function AdminDashboard() {
     onSuccess: () => {
       toast({ title: "AI Configuration saved successfully!" });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-config'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-profiles'] });
     },
     onError: (error: any) => {
       toast({ 
@@ -194,9 +239,20 @@ export default function AdminDashboard() {
       setCustomInstructions(aiConfig.customInstructions || '');
       
       if (aiConfig.provider === 'azure' && aiConfig.config) {
-        setAzureConfig(aiConfig.config);
+        setAzureConfig({ embeddingDeployment: '', ...aiConfig.config });
       } else if (aiConfig.provider === 'ollama' && aiConfig.config) {
-        setOllamaConfig(aiConfig.config);
+        const { temperature, numCtx, keepAlive, ...ollama } = aiConfig.config;
+        setOllamaConfig({
+          embeddingModel: '',
+          ...ollama,
+          temperature: temperature?.toString() ?? '',
+          numCtx: numCtx?.toString() ?? '',
+          keepAlive: keepAlive ?? ''
+        });
+      } else if (aiConfig.provider === 'openai_compatible' && aiConfig.config) {
+        setOpenaiCompatibleConfig({ apiKey: '', embeddingModel: '', ...aiConfig.config });
+      } else if (aiConfig.provider === 'anthropic' && aiConfig.config) {
+        setAnthropicConfig({ ...aiConfig.config });
       }
     }
   }, [aiConfig]);
@@ -204,7 +260,7 @@ export default function AdminDashboard() {
   const handleSaveAiConfig = () => {
     const config = {
       provider: selectedProvider,
-      config: selectedProvider === 'azure' ? azureConfig : ollamaConfig,
+      config: providerConfigs[selectedProvider],
       customInstructions
     };
     saveAiConfigMutation.mutate(config);
@@ -213,7 +269,7 @@ export default function AdminDashboard() {
   const handleTestConnection = () => {
     const config = {
       provider: selectedProvider,
-      config: selectedProvider === 'azure' ? azureConfig : ollamaConfig
+      config: providerConfigs[selectedProvider]
     };
     testConnectionMutation.mutate(config);
   };
@@ -226,20 +282,40 @@ export default function AdminDashboard() {
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-6xl mx-auto">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
-            <Settings className="w-8 h-8" />
-            Admin Dashboard
-          </h1>
-          <p className="text-gray-600 mt-2">Configure your AI chatbot and manage knowledge base</p>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+              <Settings className="w-8 h-8" />
+              Admin Dashboard
+            </h1>
+            <p className="text-gray-600 mt-2">Configure your AI chatbot and manage knowledge base</p>
+            {hasRole('owner', 'support_agent', 'analyst') && (
+              <Link href="/admin/inbox" className="inline-flex items-center gap-1 mt-2 text-sm text-blue-600 hover:underline">
+                <Headphones className="w-4 h-4" />
+                Open Agent Inbox
+              </Link>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="text-right text-sm">
+              <div className="font-medium text-gray-900">{user?.username}</div>
+              <div className="text-gray-500">{user && roleLabels[user.role]}</div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Log Out
+            </Button>
+          </div>
         </div>
 
-        <Tabs defaultValue="ai-config" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="ai-config" className="flex items-center gap-2">
-              <Bot className="w-4 h-4" />
-              AI Configuration
-            </TabsTrigger>
+        <Tabs defaultValue={isOwner ? "ai-config" : "knowledge"} className="space-y-6">
+          <TabsList className={`grid w-full ${tabColumns}`}>
+            {isOwner && (
+              <TabsTrigger value="ai-config" className="flex items-center gap-2">
+                <Bot className="w-4 h-4" />
+                AI Configuration
+              </TabsTrigger>
+            )}
             <TabsTrigger value="knowledge" className="flex items-center gap-2">
               <Database className="w-4 h-4" />
               Knowledge Base
@@ -248,10 +324,26 @@ export default function AdminDashboard() {
               <ExternalLink className="w-4 h-4" />
               Merchant Feeds
             </TabsTrigger>
+            <TabsTrigger value="intents" className="flex items-center gap-2">
+              <Brain className="w-4 h-4" />
+              Intents
+            </TabsTrigger>
+            {canEditPrompt && (
+              <TabsTrigger value="prompt" className="flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                Prompt
+              </TabsTrigger>
+            )}
             <TabsTrigger value="analytics" className="flex items-center gap-2">
               <RefreshCw className="w-4 h-4" />
               Analytics
             </TabsTrigger>
+            {isOwner && (
+              <TabsTrigger value="users" className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Users
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* AI Configuration Tab */}
@@ -267,13 +359,15 @@ export default function AdminDashboard() {
                 <div className="space-y-4">
                   <div>
                     <Label htmlFor="provider">AI Provider</Label>
-                    <Select value={selectedProvider} onValueChange={(value: 'azure' | 'ollama') => setSelectedProvider(value)}>
+                    <Select value={selectedProvider} onValueChange={(value: AiProvider) => setSelectedProvider(value)}>
                       <SelectTrigger>
                         <SelectValue placeholder="Select AI Provider" />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="azure">Azure OpenAI</SelectItem>
                         <SelectItem value="ollama">Ollama (Local)</SelectItem>
+                        <SelectItem value="openai_compatible">OpenAI-compatible (vLLM, LM Studio, llama.cpp)</SelectItem>
+                        <SelectItem value="anthropic">Anthropic (Messages API)</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -300,6 +394,9 @@ export default function AdminDashboard() {
                             value={azureConfig.apiKey}
                             onChange={(e) => setAzureConfig({ ...azureConfig, apiKey: e.target.value })}
                           />
+                          {aiConfig?.provider === 'azure' && (
+                            <p className="text-xs text-gray-500 mt-1">Stored encrypted. Leave the masked key to keep the saved one.</p>
+                          )}
                         </div>
                         <div>
                           <Label htmlFor="azure-deployment">Deployment Name</Label>
@@ -319,6 +416,15 @@ export default function AdminDashboard() {
                             onChange={(e) => setAzureConfig({ ...azureConfig, apiVersion: e.target.value })}
                           />
                         </div>
+                        <div>
+                          <Label htmlFor="azure-embedding">Embedding Deployment (optional)</Label>
+                          <Input
+                            id="azure-embedding"
+                            placeholder="text-embedding-3-small"
+                            value={azureConfig.embeddingDeployment}
+                            onChange={(e) => setAzureConfig({ ...azureConfig, embeddingDeployment: e.target.value })}
+                          />
+                        </div>
                       </div>
                     </div>
                   )}
@@ -350,9 +456,9 @@ export default function AdminDashboard() {
                             </SelectTrigger>
                             <SelectContent>
                               {Array.isArray(ollamaModels) && ollamaModels.length > 0 ? (
-                                ollamaModels.map((model: any) => (
+                                ollamaModels.map(model => (
                                   <SelectItem key={model.name} value={model.name}>
-                                    {model.name}
+                                    {model.name} ({model.size})
                                   </SelectItem>
                                 ))
                               ) : (
@@ -361,7 +467,153 @@ export default function AdminDashboard() {
                             </SelectContent>
                           </Select>
                         </div>
+                        <div>
+                          <Label htmlFor="ollama-embedding">Embedding Model (optional)</Label>
+                          <Input
+                            id="ollama-embedding"
+                            placeholder="nomic-embed-text"
+                            value={ollamaConfig.embeddingModel}
+                            onChange={(e) => setOllamaConfig({ ...ollamaConfig, embeddingModel: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="ollama-temperature">Temperature (optional)</Label>
+                          <Input
+                            id="ollama-temperature"
+                            type="number"
+                            min={0}
+                            max={2}
+                            step={0.1}
+                            placeholder="Model default"
+                            value={ollamaConfig.temperature}
+                            onChange={(e) => setOllamaConfig({ ...ollamaConfig, temperature: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="ollama-num-ctx">Context Window (num_ctx, optional)</Label>
+                          <Input
+                            id="ollama-num-ctx"
+                            type="number"
+                            min={256}
+                            step={1024}
+                            placeholder="Model default"
+                            value={ollamaConfig.numCtx}
+                            onChange={(e) => setOllamaConfig({ ...ollamaConfig, numCtx: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="ollama-keep-alive">Keep Alive (optional)</Label>
+                          <Input
+                            id="ollama-keep-alive"
+                            placeholder="5m, or -1 to keep loaded"
+                            value={ollamaConfig.keepAlive}
+                            onChange={(e) => setOllamaConfig({ ...ollamaConfig, keepAlive: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Without an embedding model, search uses the built-in offline embedder.
+                      </p>
+                      <OllamaModels endpoint={ollamaConfig.endpoint} />
+                    </div>
+                  )}
+
+                  {selectedProvider === 'openai_compatible' && (
+                    <div className="space-y-4 p-4 border rounded-lg bg-purple-50">
+                      <h3 className="font-semibold text-purple-900">OpenAI-compatible Server Configuration</h3>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="compatible-base-url">Base URL</Label>
+                          <Input
+                            id="compatible-base-url"
+                            placeholder="http://localhost:8000/v1"
+                            value={openaiCompatibleConfig.baseUrl}
+                            onChange={(e) => setOpenaiCompatibleConfig({ ...openaiCompatibleConfig, baseUrl: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="compatible-key">API Key (optional)</Label>
+                          <Input
+                            id="compatible-key"
+                            type="password"
+                            placeholder="Leave empty if the server needs none"
+                            value={openaiCompatibleConfig.apiKey}
+                            onChange={(e) => setOpenaiCompatibleConfig({ ...openaiCompatibleConfig, apiKey: e.target.value })}
+                          />
+                          {aiConfig?.provider === 'openai_compatible' && aiConfig.config?.apiKey && (
+                            <p className="text-xs text-gray-500 mt-1">Stored encrypted. Leave the masked key to keep the saved one.</p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="compatible-model">Model</Label>
+                          <Input
+                            id="compatible-model"
+                            placeholder="meta-llama/Llama-3.1-8B-Instruct"
+                            value={openaiCompatibleConfig.model}
+                            onChange={(e) => setOpenaiCompatibleConfig({ ...openaiCompatibleConfig, model: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="compatible-embedding">Embedding Model (optional)</Label>
+                          <Input
+                            id="compatible-embedding"
+                            placeholder="BAAI/bge-small-en-v1.5"
+                            value={openaiCompatibleConfig.embeddingModel}
+                            onChange={(e) => setOpenaiCompatibleConfig({ ...openaiCompatibleConfig, embeddingModel: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {selectedProvider === 'anthropic' && (
+                    <div className="space-y-4 p-4 border rounded-lg bg-orange-50">
+                      <h3 className="font-semibold text-orange-900">Anthropic Messages API Configuration</h3>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="anthropic-base-url">Base URL</Label>
+                          <Input
+                            id="anthropic-base-url"
+                            placeholder="https://api.anthropic.com"
+                            value={anthropicConfig.baseUrl}
+                            onChange={(e) => setAnthropicConfig({ ...anthropicConfig, baseUrl: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="anthropic-key">API Key</Label>
+                          <Input
+                            id="anthropic-key"
+                            type="password"
+                            placeholder="Your API key"
+                            value={anthropicConfig.apiKey}
+                            onChange={(e) => setAnthropicConfig({ ...anthropicConfig, apiKey: e.target.value })}
+                          />
+                          {aiConfig?.provider === 'anthropic' && (
+                            <p className="text-xs text-gray-500 mt-1">Stored encrypted. Leave the masked key to keep the saved one.</p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="anthropic-model">Model</Label>
+                          <Input
+                            id="anthropic-model"
+                            placeholder="claude-3-5-haiku-latest"
+                            value={anthropicConfig.model}
+                            onChange={(e) => setAnthropicConfig({ ...anthropicConfig, model: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="anthropic-version">API Version</Label>
+                          <Input
+                            id="anthropic-version"
+                            placeholder="2023-06-01"
+                            value={anthropicConfig.apiVersion}
+                            onChange={(e) => setAnthropicConfig({ ...anthropicConfig, apiVersion: e.target.value })}
+                          />
+                        </div>
                       </div>
+                      <p className="text-xs text-gray-500">
+                        This API has no embeddings, so search uses the built-in offline embedder.
+                      </p>
                     </div>
                   )}
 
@@ -387,6 +639,12 @@ export default function AdminDashboard() {
                 </div>
               </CardContent>
             </Card>
+
+            <GenerationSettingsCard />
+
+            <GroundingSettingsCard />
+
+            <AiProfilesManager />
           </TabsContent>
 
           {/* Knowledge Base Tab */}
@@ -454,40 +712,15 @@ export default function AdminDashboard() {
                   </Button>
                 </div>
 
-                <div className="space-y-4">
-                  <h3 className="font-semibold">Existing Knowledge Base</h3>
-                  {Array.isArray(knowledgeBase) && knowledgeBase.length > 0 ? (
-                    <div className="grid gap-4">
-                      {knowledgeBase.map((item: KnowledgeBase) => (
-                        <Card key={item.id} className="p-4">
-                          <div className="flex justify-between items-start">
-                            <div className="flex-1">
-                              <div className="flex items-center gap-2 mb-2">
-                                <h4 className="font-medium">{item.title}</h4>
-                                <Badge variant="outline">{item.type}</Badge>
-                                {item.isActive && <Badge variant="default">Active</Badge>}
-                              </div>
-                              <p className="text-sm text-gray-600 mb-2">{item.content.substring(0, 200)}...</p>
-                              {item.sourceUrl && (
-                                <a href={item.sourceUrl} target="_blank" rel="noopener noreferrer" 
-                                   className="text-sm text-blue-600 hover:underline">
-                                  View Source
-                                </a>
-                              )}
-                            </div>
-                            <Button variant="ghost" size="sm">
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
-                          </div>
-                        </Card>
-                      ))}
-                    </div>
-                  ) : (
-                    <p className="text-gray-500 text-center py-8">No knowledge base entries found. Add some knowledge to get started.</p>
-                  )}
-                </div>
+                <DocumentUpload />
+
+                <KnowledgeBaseList canEdit={canEditPrompt} />
               </CardContent>
             </Card>
+
+            <FaqManager canEdit={canEditPrompt} />
+
+            <ChunkingSettingsCard canEdit={canEditPrompt} />
           </TabsContent>
 
           {/* Merchant Feeds Tab */}
@@ -584,6 +817,11 @@ export default function AdminDashboard() {
             </Card>
           </TabsContent>
 
+          {/* Intents Tab */}
+          <TabsContent value="intents" className="space-y-6">
+            <IntentManager />
+          </TabsContent>
+
           {/* Analytics Tab */}
           <TabsContent value="analytics" className="space-y-6">
             <Card>
@@ -611,7 +849,27 @@ export default function AdminDashboard() {
                 </div>
               </CardContent>
             </Card>
+
+            <ResponseCacheCard canEditSettings={isOwner} canClear={canEditPrompt} />
+
+            {canViewChats && <GuardrailMonitor canEditSettings={isOwner} />}
+
+            <PiiSettingsCard canEditSettings={isOwner} />
           </TabsContent>
+
+          {/* Prompt Template Tab */}
+          {canEditPrompt && (
+            <TabsContent value="prompt" className="space-y-6">
+              <PromptTemplateEditor />
+            </TabsContent>
+          )}
+
+          {/* Users Tab */}
+          {isOwner && (
+            <TabsContent value="users" className="space-y-6">
+              <UserManager />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
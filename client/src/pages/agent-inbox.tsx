@@ -0,0 +1,252 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Headphones, Bot, User, ArrowLeft, CheckCircle, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+
+interface HandoffMessage {
+  content: string;
+  isBot: boolean;
+  sender: 'customer' | 'bot' | 'agent';
+  agentName?: string;
+  timestamp: string;
+}
+
+interface HandoffSession {
+  sessionId: string;
+  status: 'waiting' | 'active' | 'closed';
+  reason: 'requested' | 'low_confidence' | 'repeated_failures';
+  requestedAt: string;
+  updatedAt: string;
+  agentName?: string;
+  messages: HandoffMessage[];
+}
+
+const reasonLabels: Record<HandoffSession['reason'], string> = {
+  requested: 'Customer asked',
+  low_confidence: 'Low confidence',
+  repeated_failures: 'Repeated failures'
+};
+
+export default function AgentInbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, hasRole } = useAdminAuth();
+  // Analysts can read conversations but not take part in them
+  const canReply = hasRole('owner', 'support_agent');
+  const [agentName, setAgentName] = useState(() => localStorage.getItem('agentName') || user?.username || '');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const { data: sessions = [] } = useQuery<HandoffSession[]>({
+    queryKey: ['/api/admin/handoffs'],
+    queryFn: () => apiRequest('/api/admin/handoffs')
+  });
+
+  // Refresh the queue whenever a handoff changes or a message arrives
+  useEffect(() => {
+    const events = new EventSource('/api/admin/handoffs/events');
+    const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/admin/handoffs'] });
+    events.addEventListener('handoff', refresh);
+    events.addEventListener('message', refresh);
+    return () => events.close();
+  }, [queryClient]);
+
+  useEffect(() => {
+    localStorage.setItem('agentName', agentName);
+  }, [agentName]);
+
+  const selected = sessions.find(session => session.sessionId === selectedId) || null;
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [selected?.messages.length]);
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: (sessionId: string) => apiRequest(`/api/admin/handoffs/${sessionId}/accept`, {
+      method: 'POST',
+      body: JSON.stringify({ agentName: agentName || 'Agent' })
+    }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/handoffs'] }),
+    onError: onError("Failed to accept chat")
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: ({ sessionId, content }: { sessionId: string; content: string }) => apiRequest(`/api/admin/handoffs/${sessionId}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ content, agentName: agentName || 'Agent' })
+    }),
+    onSuccess: () => {
+      setReply('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/handoffs'] });
+    },
+    onError: onError("Failed to send message")
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: (sessionId: string) => apiRequest(`/api/admin/handoffs/${sessionId}/close`, { method: 'POST' }),
+    onSuccess: () => {
+      toast({ title: "Chat handed back to the assistant" });
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/handoffs'] });
+    },
+    onError: onError("Failed to close chat")
+  });
+
+  const handleSendReply = () => {
+    if (!selected || !reply.trim()) return;
+    replyMutation.mutate({ sessionId: selected.sessionId, content: reply.trim() });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8 flex items-end justify-between">
+          <div>
+            <Link href="/admin" className="text-sm text-blue-600 hover:underline flex items-center gap-1 mb-2">
+              <ArrowLeft className="w-4 h-4" />
+              Admin Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+              <Headphones className="w-8 h-8" />
+              Agent Inbox
+            </h1>
+            <p className="text-gray-600 mt-2">Customers waiting for a human agent</p>
+          </div>
+          <div className="w-64">
+            <Label htmlFor="agent-name">Your name</Label>
+            <Input
+              id="agent-name"
+              placeholder="Shown to customers"
+              value={agentName}
+              onChange={(e) => setAgentName(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-6">
+          <Card className="col-span-1">
+            <CardHeader>
+              <CardTitle>Queue ({sessions.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {sessions.length > 0 ? sessions.map(session => (
+                <button
+                  key={session.sessionId}
+                  onClick={() => setSelectedId(session.sessionId)}
+                  className={`w-full text-left border rounded-lg p-3 transition-colors ${
+                    session.sessionId === selectedId ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <Badge variant={session.status === 'waiting' ? 'destructive' : 'default'}>
+                      {session.status === 'waiting' ? 'Waiting' : session.agentName || 'Active'}
+                    </Badge>
+                    <span className="text-xs text-gray-500">
+                      {new Date(session.requestedAt).toLocaleTimeString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 truncate">
+                    {session.messages.filter(message => message.sender === 'customer').slice(-1)[0]?.content || 'No messages yet'}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{reasonLabels[session.reason]}</p>
+                </button>
+              )) : (
+                <p className="text-gray-500 text-center py-8">No customers are waiting.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="col-span-2 flex flex-col h-[70vh]">
+            {selected ? (
+              <>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="text-base">
+                    Session {selected.sessionId}
+                  </CardTitle>
+                  {canReply && (
+                    <div className="flex gap-2">
+                      {selected.status === 'waiting' && (
+                        <Button
+                          size="sm"
+                          onClick={() => acceptMutation.mutate(selected.sessionId)}
+                          disabled={acceptMutation.isPending}
+                        >
+                          <CheckCircle className="w-4 h-4 mr-2" />
+                          Accept
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => closeMutation.mutate(selected.sessionId)}
+                        disabled={closeMutation.isPending}
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Hand back to bot
+                      </Button>
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent className="flex-1 overflow-y-auto space-y-3 min-h-0">
+                  {selected.messages.map((message, index) => (
+                    <div key={index} className={`flex ${message.sender === 'customer' ? 'justify-start' : 'justify-end'}`}>
+                      <div className={`max-w-[75%] rounded-lg p-3 ${
+                        message.sender === 'customer' ? 'bg-gray-100' : message.sender === 'agent' ? 'bg-green-100' : 'bg-blue-50'
+                      }`}>
+                        <div className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+                          {message.sender === 'customer' && <User className="w-3 h-3" />}
+                          {message.sender === 'bot' && <Bot className="w-3 h-3" />}
+                          {message.sender === 'agent' && <Headphones className="w-3 h-3" />}
+                          {message.sender === 'agent' ? message.agentName || 'Agent' : message.sender === 'bot' ? 'Assistant' : 'Customer'}
+                          {' · '}
+                          {new Date(message.timestamp).toLocaleTimeString()}
+                        </div>
+                        <div className="whitespace-pre-wrap text-sm">{message.content}</div>
+                      </div>
+                    </div>
+                  ))}
+                  <div ref={messagesEndRef} />
+                </CardContent>
+                {canReply && (
+                  <div className="border-t p-4 flex gap-2">
+                    <Input
+                      placeholder={selected.status === 'waiting' ? 'Reply to take over this chat...' : 'Type your reply...'}
+                      value={reply}
+                      onChange={(e) => setReply(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSendReply();
+                        }
+                      }}
+                    />
+                    <Button onClick={handleSendReply} disabled={!reply.trim() || replyMutation.isPending}>
+                      Send
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <CardContent className="flex-1 flex items-center justify-center text-gray-500">
+                Select a conversation from the queue
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,55 @@
 import { useState, useEffect, useRef } from "react";
-import { Bot, User, AlertCircle, MessageCircle, RefreshCw } from "lucide-react";
+import { Bot, User, AlertCircle, MessageCircle, RefreshCw, Headphones } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { streamChatMessage, sendChatMessage, startChatSession, chatAuthHeaders, type ChatSession, type SuggestedAction } from "@/lib/chat-api";
+import OrderTimeline from "@/components/order-timeline";
+import CitedText, { type CitedSource } from "@/components/cited-text";
+
+export interface OrderTrackingData {
+  order: {
+    id: number;
+    orderNumber: string;
+    orderDate: string;
+    status: string;
+    customer: {
+      name: string;
+      email: string;
+    };
+  };
+  timeline: Array<{
+    id: number;
+    status: string;
+    date: string | null;
+    completed: boolean;
+    isLatest: boolean;
+  }>;
+  latestUpdate: {
+    status: string;
+    date: string;
+  } | null;
+}
 
 export interface Message {
   id: string;
   content: string;
   isBot: boolean;
   timestamp: Date;
-  sources?: Array<{ title: string; url?: string }>;
+  sources?: CitedSource[];
   confidence?: number;
+  isStreaming?: boolean;
+  orderTracking?: OrderTrackingData;
+  agentName?: string; // Set on replies from a human agent
+  suggestedActions?: SuggestedAction[]; // Offered when the bot had no grounded answer
+}
+
+interface HandoffState {
+  status: 'waiting' | 'active' | 'closed';
+  agentName?: string;
 }
 
 interface ChatState {
@@ -30,7 +66,11 @@ export default function Chatbot() {
     awaitingEmail: false,
     awaitingOrderId: false
   });
-  const [sessionId] = useState(() => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  const [session, setSession] = useState<ChatSession | null>(null);
+  const greetedSessionRef = useRef<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [handoff, setHandoff] = useState<HandoffState | null>(null);
+  const handoffStatusRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -42,18 +82,72 @@ export default function Chatbot() {
   });
 
   const isAiConnected = systemStatus?.aiProvider?.configured && systemStatus?.aiProvider?.active;
+  const isAgentActive = handoff?.status === 'active';
 
-  // Chat mutation
-  const chatMutation = useMutation({
-    mutationFn: (message: { content: string; sessionId: string; isBot: boolean }) => 
-      apiRequest('/api/chat/message', {
-        method: 'POST',
-        body: JSON.stringify(message)
-      }),
-    onError: (error: any) => {
+  // Resume the visitor's previous conversation, or start a new one
+  useEffect(() => {
+    startChatSession()
+      .then(setSession)
+      .catch(() => {
+        toast({
+          title: "Connection Error",
+          description: "Couldn't start a chat session. Please reload the page.",
+          variant: "destructive"
+        });
+      });
+  }, []);
+
+  // Handoff status changes and human agent replies arrive over Server-Sent
+  // Events, authenticated by the session cookie. Reconnects when the token is renewed.
+  useEffect(() => {
+    if (!session) return;
+    const events = new EventSource('/api/chat/events');
+
+    events.addEventListener('handoff', (event) => {
+      const session = JSON.parse((event as MessageEvent).data);
+      setHandoff({ status: session.status, agentName: session.agentName });
+
+      // The stream replays the current status on reconnect; only announce changes
+      if (handoffStatusRef.current === session.status) return;
+      const isFirstStatus = handoffStatusRef.current === null;
+      handoffStatusRef.current = session.status;
+      if (isFirstStatus && session.status === 'closed') return;
+
+      if (session.status === 'waiting') {
+        addBotMessage("🙋 I've asked a human agent to join this chat. Someone will be with you shortly - I can keep helping in the meantime.");
+      } else if (session.status === 'active') {
+        addBotMessage(`👋 ${session.agentName || 'An agent'} has joined the chat.`);
+      } else if (session.status === 'closed') {
+        addBotMessage(`${session.agentName || 'The agent'} has left the chat. I'm back if you need anything else!`);
+      }
+    });
+
+    events.addEventListener('agent_message', (event) => {
+      const message = JSON.parse((event as MessageEvent).data);
+      setMessages(prev => [...prev, {
+        id: `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        content: message.content,
+        isBot: true,
+        timestamp: new Date(message.timestamp),
+        agentName: message.agentName || 'Agent'
+      }]);
+    });
+
+    return () => events.close();
+  }, [session?.token]);
+
+  const requestHumanMutation = useMutation({
+    mutationFn: () => apiRequest('/api/chat/handoff', {
+      method: 'POST',
+      headers: chatAuthHeaders(session!.token)
+    }),
+    onSuccess: (session) => {
+      setHandoff({ status: session.status, agentName: session.agentName });
+    },
+    onError: () => {
       toast({
         title: "Connection Error",
-        description: "Failed to send message. Please try again.",
+        description: "Couldn't reach a human agent. Please try again.",
         variant: "destructive"
       });
     }
@@ -94,18 +188,32 @@ Is there anything specific about this order you'd like to know more about?`);
     scrollToBottom();
   }, [messages]);
 
-  // Initialize with greeting
+  // Initialize with the resumed history, or a greeting for a new session
   useEffect(() => {
-    if (statusLoading) return;
-    
-    if (!isAiConnected) {
+    if (statusLoading || !session || greetedSessionRef.current === session.sessionId) return;
+    greetedSessionRef.current = session.sessionId;
+
+    if (session.handoff) {
+      handoffStatusRef.current = session.handoff.status;
+      setHandoff(session.handoff);
+    }
+
+    if (session.history.length > 0) {
+      setMessages(session.history.map((message, index) => ({
+        id: `history_${index}`,
+        content: message.content,
+        isBot: message.isBot,
+        timestamp: new Date(message.timestamp),
+        agentName: message.sender === 'agent' ? message.agentName || 'Agent' : undefined
+      })));
+    } else if (!isAiConnected) {
       addBotMessage("🤖 Hello! I'm your KarjiStore AI assistant, but I'm currently not fully configured. Please contact an administrator to set up the AI provider (Azure OpenAI or Ollama) before I can assist you with detailed inquiries. However, I can still help you track orders!");
     } else {
       addBotMessage("👋 Hello! I'm your KarjiStore AI assistant. I'm here to help you with order tracking, product questions, returns, and any other inquiries you might have. How can I assist you today?");
     }
-  }, [isAiConnected, statusLoading]);
+  }, [isAiConnected, statusLoading, session]);
 
-  const addBotMessage = (content: string, sources?: Array<{ title: string; url?: string }>, confidence?: number) => {
+  const addBotMessage = (content: string, sources?: CitedSource[], confidence?: number) => {
     const message: Message = {
       id: `bot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       content,
@@ -117,6 +225,16 @@ Is there anything specific about this order you'd like to know more about?`);
     setMessages(prev => [...prev, message]);
   };
 
+  // Step-by-step order lookup: email first, then the order ID
+  const startOrderTracking = () => {
+    setChatState({ awaitingEmail: true, awaitingOrderId: false });
+    addBotMessage("I'd be happy to help you track your order! Please provide your email address first.");
+  };
+
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, ...update(message) } : message));
+  };
+
   const addUserMessage = (content: string) => {
     const message: Message = {
       id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -128,12 +246,26 @@ Is there anything specific about this order you'd like to know more about?`);
   };
 
   const handleSendMessage = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || !session) return;
     
     const userMessage = input.trim();
     setInput("");
     addUserMessage(userMessage);
 
+    // A human agent owns the conversation; their replies arrive as events
+    if (isAgentActive) {
+      try {
+        await sendChatMessage(session.token, { content: userMessage, isBot: false });
+      } catch (error) {
+        toast({
+          title: "Connection Error",
+          description: "Failed to send message. Please try again.",
+          variant: "destructive"
+        });
+      }
+      return;
+    }
+
     // Handle order tracking flow
     if (chatState.awaitingEmail) {
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -160,39 +292,61 @@ Is there anything specific about this order you'd like to know more about?`);
       return;
     }
 
-    // Check if user wants to track an order
+    // Without AI, walk the customer through order tracking step by step. The
+    // AI assistant looks orders up itself from free text.
     const lowerMessage = userMessage.toLowerCase();
-    if (lowerMessage.includes('track') && (lowerMessage.includes('order') || lowerMessage.includes('package'))) {
-      setChatState({ awaitingEmail: true, awaitingOrderId: false });
-      addBotMessage("I'd be happy to help you track your order! Please provide your email address first.");
+    if (!isAiConnected && lowerMessage.includes('track') && (lowerMessage.includes('order') || lowerMessage.includes('package'))) {
+      startOrderTracking();
       return;
     }
 
     // For other queries, use AI if connected
     if (isAiConnected) {
-      addBotMessage("Let me think about that...");
-      
-      chatMutation.mutate({
-        content: userMessage,
-        sessionId,
-        isBot: false
-      }, {
-        onSuccess: (response) => {
-          // Remove the "thinking" message
-          setMessages(prev => prev.slice(0, -1));
-          
-          addBotMessage(
-            response.message || "I'm sorry, I don't have a specific answer for that. Would you like me to connect you with a human agent?",
-            response.sources,
-            response.confidence
-          );
-        },
-        onError: () => {
-          // Remove the "thinking" message
-          setMessages(prev => prev.slice(0, -1));
-          addBotMessage("I'm experiencing some technical difficulties right now. Please try again in a moment, or let me know if you'd like to track an order - I can still help with that!");
+      // Empty bot bubble that fills in as tokens stream from the server
+      const botMessageId = `bot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      setMessages(prev => [...prev, {
+        id: botMessageId,
+        content: "",
+        isBot: true,
+        timestamp: new Date(),
+        isStreaming: true
+      }]);
+      setIsStreaming(true);
+
+      try {
+        const response = await streamChatMessage(
+          session.token,
+          { content: userMessage, isBot: false },
+          (delta) => updateMessage(botMessageId, message => ({ content: message.content + delta }))
+        );
+
+        // An agent took over while the message was in flight
+        if (response.type === 'agent_active') {
+          setMessages(prev => prev.filter(message => message.id !== botMessageId));
+          return;
         }
-      });
+
+        updateMessage(botMessageId, () => ({
+          content: response.message || "I'm sorry, I don't have a specific answer for that. Would you like me to connect you with a human agent?",
+          sources: response.sources,
+          confidence: response.confidence,
+          orderTracking: response.orderTracking,
+          suggestedActions: response.suggestedActions,
+          isStreaming: false
+        }));
+      } catch (error) {
+        updateMessage(botMessageId, () => ({
+          content: "I'm experiencing some technical difficulties right now. Please try again in a moment, or let me know if you'd like to track an order - I can still help with that!",
+          isStreaming: false
+        }));
+        toast({
+          title: "Connection Error",
+          description: "Failed to send message. Please try again.",
+          variant: "destructive"
+        });
+      } finally {
+        setIsStreaming(false);
+      }
     } else {
       // Without AI, provide basic responses
       if (lowerMessage.includes('return') || lowerMessage.includes('refund')) {
@@ -214,20 +368,28 @@ Is there anything specific about this order you'd like to know more about?`);
     }
   };
 
-  const restartChat = () => {
+  // Starts a fresh session; the greeting effect runs again once it arrives
+  const restartChat = async () => {
     setMessages([]);
     setChatState({ awaitingEmail: false, awaitingOrderId: false });
-    
-    setTimeout(() => {
-      if (!isAiConnected) {
-        addBotMessage("🤖 Hello! I'm your KarjiStore AI assistant, but I'm currently not fully configured. Please contact an administrator to set up the AI provider (Azure OpenAI or Ollama) before I can assist you with detailed inquiries. However, I can still help you track orders!");
-      } else {
-        addBotMessage("👋 Hello! I'm your KarjiStore AI assistant. I'm here to help you with order tracking, product questions, returns, and any other inquiries you might have. How can I assist you today?");
-      }
-    }, 100);
+    setHandoff(null);
+    handoffStatusRef.current = null;
+
+    try {
+      setSession(await startChatSession(true));
+    } catch (error) {
+      toast({
+        title: "Connection Error",
+        description: "Couldn't start a new chat. Please try again.",
+        variant: "destructive"
+      });
+    }
   };
 
   const getPlaceholder = () => {
+    if (isAgentActive) {
+      return `Message ${handoff?.agentName || 'the agent'}...`;
+    }
     if (!isAiConnected) {
       return "AI not configured - basic responses only...";
     }
@@ -251,20 +413,34 @@ Is there anything specific about this order you'd like to know more about?`);
           <div>
             <h1 className="font-semibold text-lg">KarjiStore Support</h1>
             <div className="flex items-center space-x-2">
-              <div className={`w-2 h-2 rounded-full ${isAiConnected ? 'bg-green-400' : 'bg-yellow-400'}`}></div>
+              <div className={`w-2 h-2 rounded-full ${isAgentActive || isAiConnected ? 'bg-green-400' : 'bg-yellow-400'}`}></div>
               <p className="text-sm text-white text-opacity-80">
-                {isAiConnected ? 'AI Assistant Online' : 'Basic Mode'}
+                {isAgentActive
+                  ? `Chatting with ${handoff?.agentName || 'an agent'}`
+                  : handoff?.status === 'waiting'
+                    ? 'Waiting for an agent...'
+                    : isAiConnected ? 'AI Assistant Online' : 'Basic Mode'}
               </p>
             </div>
           </div>
         </div>
-        <button
-          onClick={restartChat}
-          className="p-2 rounded-lg bg-white bg-opacity-20 hover:bg-opacity-30 transition-colors"
-          title="Restart Chat"
-        >
-          <RefreshCw className="w-4 h-4" />
-        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => requestHumanMutation.mutate()}
+            disabled={!session || requestHumanMutation.isPending || handoff?.status === 'waiting' || isAgentActive}
+            className="p-2 rounded-lg bg-white bg-opacity-20 hover:bg-opacity-30 transition-colors disabled:opacity-50"
+            title="Talk to a human"
+          >
+            <Headphones className="w-4 h-4" />
+          </button>
+          <button
+            onClick={restartChat}
+            className="p-2 rounded-lg bg-white bg-opacity-20 hover:bg-opacity-30 transition-colors"
+            title="Restart Chat"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
       {/* AI Status Warning */}
@@ -285,15 +461,60 @@ Is there anything specific about this order you'd like to know more about?`);
           <div key={message.id} className={`flex ${message.isBot ? 'justify-start' : 'justify-end'}`}>
             <div className={`max-w-[80%] ${message.isBot ? 'bg-gray-100' : 'bg-blue-500 text-white'} rounded-lg p-3`}>
               <div className="flex items-start space-x-2">
-                {message.isBot && <Bot className="w-4 h-4 mt-1 text-blue-600" />}
+                {message.isBot && (message.agentName
+                  ? <Headphones className="w-4 h-4 mt-1 text-green-600" />
+                  : <Bot className="w-4 h-4 mt-1 text-blue-600" />)}
                 {!message.isBot && <User className="w-4 h-4 mt-1" />}
                 <div className="flex-1">
-                  <div className="whitespace-pre-wrap">{message.content}</div>
+                  {message.agentName && (
+                    <div className="text-xs font-semibold text-green-700 mb-1">{message.agentName}</div>
+                  )}
+                  {message.isStreaming && !message.content ? (
+                    <div className="flex space-x-1 py-1">
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                    </div>
+                  ) : (
+                    <CitedText content={message.content} sources={message.sources} />
+                  )}
+                  {message.orderTracking && (
+                    <div className="mt-3 bg-white rounded-lg p-3 border">
+                      <div className="flex items-center justify-between mb-3 text-sm">
+                        <span className="font-semibold">Order {message.orderTracking.order.orderNumber}</span>
+                        <span className="px-2 py-1 bg-primary text-white rounded text-xs">
+                          {message.orderTracking.order.status}
+                        </span>
+                      </div>
+                      <OrderTimeline timeline={message.orderTracking.timeline} />
+                    </div>
+                  )}
+                  {message.suggestedActions && message.suggestedActions.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {message.suggestedActions.includes('handoff') && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => requestHumanMutation.mutate()}
+                          disabled={requestHumanMutation.isPending || handoff?.status === 'waiting' || isAgentActive}
+                        >
+                          <Headphones className="w-3 h-3 mr-1" />
+                          Talk to a person
+                        </Button>
+                      )}
+                      {message.suggestedActions.includes('track_order') && (
+                        <Button size="sm" variant="outline" onClick={startOrderTracking}>
+                          Track an order
+                        </Button>
+                      )}
+                    </div>
+                  )}
                   {message.sources && message.sources.length > 0 && (
                     <div className="mt-2 text-xs opacity-75">
                       <div className="font-semibold">Sources:</div>
-                      {message.sources.map((source, index) => (
-                        <div key={index}>
+                      {message.sources.map((source) => (
+                        <div key={source.number}>
+                          [{source.number}]{' '}
                           {source.url ? (
                             <a href={source.url} target="_blank" rel="noopener noreferrer" className="underline">
                               {source.title}
@@ -326,14 +547,14 @@ Is there anything specific about this order you'd like to know more about?`);
             onChange={(e) => setInput(e.target.value)}
             onKeyPress={handleKeyPress}
             placeholder={getPlaceholder()}
-            disabled={chatMutation.isPending || trackOrderMutation.isPending}
+            disabled={!session || isStreaming || trackOrderMutation.isPending}
             className="flex-1"
           />
           <Button 
             onClick={handleSendMessage}
-            disabled={!input.trim() || chatMutation.isPending || trackOrderMutation.isPending}
+            disabled={!session || !input.trim() || isStreaming || trackOrderMutation.isPending}
           >
-            {chatMutation.isPending || trackOrderMutation.isPending ? 'Sending...' : 'Send'}
+            {isStreaming || trackOrderMutation.isPending ? 'Sending...' : 'Send'}
           </Button>
         </div>
         
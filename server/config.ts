@@ -28,6 +28,58 @@ export const mssqlConfig = {
   }
 };
 
+// Vector storage persistence
+// Backend is 'local' (files in dataDir), 'memory' (lost on restart) or 'chroma'
+// (a ChromaDB server used for storage only; search always runs in-process)
+export const vectorStorageConfig = {
+  backend: process.env.VECTOR_STORE_BACKEND || 'local',
+  chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+  dataDir: process.env.VECTOR_STORAGE_DIR || 'data/vector-storage',
+  // Number of write-ahead log entries before a collection is compacted
+  compactThreshold: parseInt(process.env.VECTOR_STORAGE_COMPACT_THRESHOLD || '500', 10),
+};
+
+// Customer chat sessions
+// Tokens are HMAC-signed with `secret`. Without one, a random secret is
+// generated once and kept in vector storage so sessions survive restarts.
+export const chatSessionConfig = {
+  secret: process.env.CHAT_SESSION_SECRET || '',
+  // Idle lifetime; every resume extends it
+  ttlHours: parseInt(process.env.CHAT_SESSION_TTL_HOURS || '720', 10),
+  cookieName: 'karji_chat_session',
+};
+
+// Encryption of provider secrets (API keys) at rest
+// Any string works as `masterKey`. Without one, a random key is generated into
+// `keyFile`; keep that file out of backups of the vector storage. To rotate an
+// env key, move the old one to SECRETS_PREVIOUS_MASTER_KEYS, set the new one and
+// restart: stored secrets are re-encrypted on startup.
+export const secretsConfig = {
+  masterKey: process.env.SECRETS_MASTER_KEY || '',
+  previousMasterKeys: (process.env.SECRETS_PREVIOUS_MASTER_KEYS || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean),
+  keyFile: process.env.SECRETS_KEY_FILE || 'data/secrets.key',
+};
+
+// Admin dashboard login
+// Sessions are signed with `sessionSecret`, generated and stored like the chat
+// session secret when unset. On first start an owner account is created from
+// `ownerUsername`/`ownerPassword`; without a password a random one is logged once.
+export const adminAuthConfig = {
+  sessionSecret: process.env.ADMIN_SESSION_SECRET || '',
+  sessionTtlHours: parseInt(process.env.ADMIN_SESSION_TTL_HOURS || '12', 10),
+  cookieName: 'karji_admin_session',
+  ownerUsername: process.env.ADMIN_USERNAME || 'admin',
+  ownerPassword: process.env.ADMIN_PASSWORD || '',
+};
+
+// Store details available to the system prompt template as {{storeName}}
+export const storeConfig = {
+  name: process.env.STORE_NAME || 'our online store',
+};
+
 // Check if databases are configured
 export const isPostgresConfigured = !!(postgresConfig.connectionString || (postgresConfig.host && postgresConfig.user));
 export const isMSSQLConfigured = !!(mssqlConfig.server && mssqlConfig.user && mssqlConfig.password);
@@ -3,38 +3,65 @@ import { createServer, type Server } from "http";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
-import { orderTrackingSchema, chatMessageSchema } from "@shared/schema";
+import { orderTrackingSchema, chatMessageSchema, chatSessionRequestSchema } from "@shared/schema";
 import { isDatabaseConfigured, mssqlConfig, databaseType } from "./config";
 import { registerAdminRoutes } from "./routes/admin";
+import { registerAuthRoutes } from "./routes/auth";
 import { ragService } from "./services/rag-service";
 import { vectorStorage } from "./services/vector-storage";
 import { aiService } from "./services/ai-service";
+import { embeddingService } from "./services/embedding-service";
+import { buildOrderTrackingResponse } from "./services/order-tracking";
+import { intentService } from "./services/intent-classifier";
+import { handoffService } from "./services/handoff-service";
+import { chatSessionService, requireChatSession } from "./services/chat-session";
+import { adminAuthService } from "./services/admin-auth";
+import { aiProfileService } from "./services/ai-profiles";
+import { promptTemplateService } from "./services/prompt-templates";
+import { guardrailService } from "./services/guardrails";
+import { piiService } from "./services/pii-redaction";
+import { groundingService } from "./services/grounding";
+import { responseCacheService } from "./services/response-cache";
+import { chunkingService } from "./services/chunking";
 import { schedulerService } from "./services/scheduler";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize services
   try {
     await vectorStorage.initialize();
+    await intentService.initialize();
+    await handoffService.initialize();
+    await chatSessionService.initialize();
+    await promptTemplateService.initialize();
+    await guardrailService.initialize();
+    await piiService.initialize();
+    await groundingService.initialize();
+    await responseCacheService.initialize();
+    await chunkingService.initialize();
+    await adminAuthService.initialize();
     await schedulerService.initialize();
-    
-    // Load AI configuration if available
-    const aiConfig = await vectorStorage.getAiConfig();
-    if (aiConfig) {
-      aiService.setProvider(aiConfig);
-      console.log('✓ AI service initialized with saved configuration');
+
+    // Secrets saved in plain text or under a rotated-out master key
+    const reencrypted = await vectorStorage.reencryptSecrets();
+    if (reencrypted > 0) {
+      console.log(`✓ Re-encrypted secrets in ${reencrypted} stored AI configurations`);
     }
+    
+    // Load AI provider profiles
+    await aiProfileService.initialize();
   } catch (error) {
     console.error('⚠️ Warning: Failed to initialize some services:', error);
   }
 
-  // Register admin routes
+  // Register admin routes behind the admin login
+  registerAuthRoutes(app);
   registerAdminRoutes(app);
   
   // Database status endpoint
   app.get("/api/status", async (req, res) => {
     try {
       const vectorStats = await vectorStorage.getStats();
-      const aiConfig = await vectorStorage.getAiConfig();
+      const aiConfig = aiProfileService.getPrimaryConfig();
       
       res.json({
         database: {
@@ -45,6 +72,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
         vectorStorage: {
           initialized: true,
+          backend: vectorStorage.getBackend(),
+          embeddingModel: embeddingService.getActiveModel(),
           stats: vectorStats
         },
         aiProvider: {
@@ -65,6 +94,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
         vectorStorage: {
           initialized: false,
+          backend: vectorStorage.getBackend(),
           error: error?.message || 'Unknown error'
         },
         version: "1.0.0",
@@ -95,81 +125,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Map nopCommerce status IDs to readable names
-      const getOrderStatus = (statusId: number): string => {
-        const statusMap: Record<number, string> = {
-          10: 'Pending',
-          20: 'Processing',
-          25: 'On Hold',
-          30: 'Complete',
-          40: 'Cancelled'
-        };
-        return statusMap[statusId] || `Status ID: ${statusId}`;
-      };
-
-      const getShippingStatus = (statusId: number): string => {
-        const statusMap: Record<number, string> = {
-          10: 'Not Yet Shipped',
-          20: 'Partially Shipped',
-          25: 'Shipped',
-          30: 'Delivered'
-        };
-        return statusMap[statusId] || `Shipping Status ID: ${statusId}`;
-      };
-
-      // Get current order status
-      const currentOrderStatus = getOrderStatus(order.orderStatusId || 10);
-      const currentShippingStatus = getShippingStatus(order.shippingStatusId || 10);
-      
-      // Create timeline from order notes (these contain the actual progress updates)
-      const timeline = order.orderNotes.map((note, index) => ({
-        id: note.id,
-        status: note.note,
-        date: note.createdOnUtc?.toISOString() || new Date().toISOString(),
-        completed: true,
-        isLatest: index === order.orderNotes.length - 1
-      }));
-
-      // Add current status if no notes exist
-      if (timeline.length === 0) {
-        timeline.push({
-          id: 0,
-          status: `Order ${currentOrderStatus}`,
-          date: order.createdOnUtc?.toISOString() || new Date().toISOString(),
-          completed: true,
-          isLatest: true
-        });
-      }
-
-      // Get the most relevant current status
-      const currentStatus = timeline.length > 0 
-        ? timeline[timeline.length - 1].status 
-        : currentOrderStatus;
-
-      // Get the latest order note for latestUpdate
-      const latestNote = order.orderNotes.length > 0 
-        ? order.orderNotes[order.orderNotes.length - 1] 
-        : null;
-
-      const response = {
-        order: {
-          id: order.id,
-          orderNumber: order.orderNumber,
-          orderDate: order.createdOnUtc || new Date(),
-          status: currentStatus,
-          customer: {
-            name: order.customer.fullName || `${order.customer.firstName} ${order.customer.lastName}`.trim(),
-            email: order.customer.email
-          }
-        },
-        timeline,
-        latestUpdate: latestNote ? {
-          status: latestNote.note,
-          date: latestNote.createdOnUtc?.toISOString() || new Date().toISOString()
-        } : null
-      };
-
-      res.json(response);
+      res.json(buildOrderTrackingResponse(order));
     } catch (error) {
       console.error("Order tracking error:", error);
       res.status(500).json({ 
@@ -179,8 +135,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start or resume a chat session. The token is set as a cookie and also
+  // returned so the widget can keep it in localStorage.
+  app.post("/api/chat/session", async (req, res) => {
+    try {
+      const validationResult = chatSessionRequestSchema.safeParse(req.body || {});
+      if (!validationResult.success) {
+        const errorMessage = fromZodError(validationResult.error).message;
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          message: errorMessage 
+        });
+      }
+
+      const { token, restart } = validationResult.data;
+      // The name goes into the system prompt, so one that reads like an
+      // instruction is dropped
+      let customerName = validationResult.data.customerName;
+      if (customerName && (await guardrailService.checkInput(customerName)).blocked) {
+        customerName = undefined;
+      }
+      const existingToken = token || chatSessionService.getToken(req);
+
+      const resumed = !restart && existingToken ? await chatSessionService.resume(existingToken, customerName) : null;
+      const issued = resumed || await chatSessionService.create(customerName);
+      chatSessionService.setCookie(res, issued);
+
+      res.json({
+        sessionId: issued.session.id,
+        token: issued.token,
+        expiresAt: issued.session.expiresAt,
+        resumed: !!resumed,
+        history: resumed ? await vectorStorage.getChatHistory(issued.session.id) : [],
+        handoff: handoffService.getSession(issued.session.id) || null
+      });
+    } catch (error) {
+      console.error('Chat session error:', error);
+      res.status(500).json({ error: "Failed to start chat session" });
+    }
+  });
+
   // AI Chat endpoint
-  app.post("/api/chat/message", async (req, res) => {
+  app.post("/api/chat/message", requireChatSession, async (req, res) => {
     try {
       const validationResult = chatMessageSchema.safeParse(req.body);
       if (!validationResult.success) {
@@ -191,11 +187,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const { sessionId, content, isBot } = validationResult.data;
+      const { content, isBot, bypassCache } = validationResult.data;
+      const sessionId: string = res.locals.chatSession.id;
+
+      // A blocked message is neither saved nor passed on, so it cannot reach
+      // the model later as conversation history
+      const refusal = await ragService.screenInput(content, sessionId);
+      if (refusal) {
+        return res.json({ message: refusal.answer, sources: [], confidence: 0, type: 'ai_response' });
+      }
       
+      // A human agent owns the conversation, so the bot stays out of it
+      if (handoffService.isBotPaused(sessionId)) {
+        const saved = await vectorStorage.saveChatMessage(sessionId, {
+          content: piiService.redactForStorage(sessionId, content),
+          isBot: false
+        });
+        handoffService.notifyMessage(sessionId, { content: saved.content, sender: 'customer', timestamp: saved.timestamp });
+
+        return res.json({
+          message: null,
+          handoff: handoffService.getSession(sessionId),
+          type: 'agent_active'
+        });
+      }
+
       // Check if AI provider is configured and active
-      const aiConfigured = await vectorStorage.getAiConfig();
-      if (!aiConfigured || !aiConfigured.isActive) {
+      if (!aiService.isConfigured()) {
         return res.status(503).json({
           error: "AI provider not configured",
           message: "AI assistant is not available. Please configure an AI provider in the admin dashboard."
@@ -204,25 +222,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Save user message to vector storage
       if (!isBot) {
-        await vectorStorage.saveChatMessage(sessionId, {
-          content,
+        const saved = await vectorStorage.saveChatMessage(sessionId, {
+          content: piiService.redactForStorage(sessionId, content),
           isBot: false
         });
+        handoffService.notifyMessage(sessionId, { content: saved.content, sender: 'customer', timestamp: saved.timestamp });
       }
 
       // Always run through RAG pipeline for all queries
-      const ragResponse = await ragService.query(content, sessionId);
+      const ragResponse = await ragService.query(content, sessionId, {
+        customerName: res.locals.chatSession.customerName,
+        bypassCache,
+        inputScreened: true
+      });
       
       // Save bot response to vector storage
-      await vectorStorage.saveChatMessage(sessionId, {
-        content: ragResponse.answer,
+      const savedAnswer = await vectorStorage.saveChatMessage(sessionId, {
+        content: piiService.redactForStorage(sessionId, ragResponse.answer),
         isBot: true
       });
+      handoffService.notifyMessage(sessionId, { content: savedAnswer.content, sender: 'bot', timestamp: savedAnswer.timestamp });
+
+      const handoff = await handoffService.recordOutcome(sessionId, {
+        intent: ragResponse.intent?.intent,
+        // A refused message says nothing about how well the bot answers
+        confidence: ragResponse.blocked ? undefined : ragResponse.confidence,
+        failed: ragResponse.failed,
+        answeredByTool: !!ragResponse.orderTracking
+      });
 
       res.json({
         message: ragResponse.answer,
-        sources: ragResponse.sources,
+        sources: ragResponse.citations,
         confidence: ragResponse.confidence,
+        intent: ragResponse.intent && { intent: ragResponse.intent.intent, confidence: ragResponse.intent.confidence },
+        orderTracking: ragResponse.orderTracking,
+        suggestedActions: ragResponse.suggestedActions,
+        cached: ragResponse.cached,
+        handoff,
         type: 'ai_response'
       });
     } catch (error: any) {
@@ -231,12 +268,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Still try to save the error response
       try {
-        if (req.body.sessionId) {
-          await vectorStorage.saveChatMessage(req.body.sessionId, {
-            content: errorResponse,
-            isBot: true
-          });
-        }
+        const sessionId: string = res.locals.chatSession.id;
+        await vectorStorage.saveChatMessage(sessionId, {
+          content: errorResponse,
+          isBot: true
+        });
+        await handoffService.recordOutcome(sessionId, { failed: true });
       } catch (saveError) {
         console.error('Failed to save error response:', saveError);
       }
@@ -248,15 +285,190 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get chat history
-  app.get("/api/chat/history/:sessionId", async (req, res) => {
+  // Streaming AI chat endpoint (Server-Sent Events)
+  app.post("/api/chat/stream", requireChatSession, async (req, res) => {
+    const validationResult = chatMessageSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).message;
+      return res.status(400).json({ 
+        error: "Validation failed", 
+        message: errorMessage 
+      });
+    }
+
+    const { content, isBot, bypassCache } = validationResult.data;
+    const sessionId: string = res.locals.chatSession.id;
+
+    if (!aiService.isConfigured()) {
+      return res.status(503).json({
+        error: "AI provider not configured",
+        message: "AI assistant is not available. Please configure an AI provider in the admin dashboard."
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    // The response closes when the client goes away; the request already
+    // emitted 'close' once its body was read
+    let clientClosed = false;
+    res.on('close', () => {
+      clientClosed = true;
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (clientClosed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
     try {
-      const { sessionId } = req.params;
+      // A blocked message is neither saved nor passed on, so it cannot reach
+      // the model later as conversation history
+      const refusal = await ragService.screenInput(content, sessionId);
+      if (refusal) {
+        sendEvent('done', { message: refusal.answer, sources: [], confidence: 0, type: 'ai_response' });
+        return;
+      }
+
+      if (!isBot) {
+        const saved = await vectorStorage.saveChatMessage(sessionId, {
+          content: piiService.redactForStorage(sessionId, content),
+          isBot: false
+        });
+        handoffService.notifyMessage(sessionId, { content: saved.content, sender: 'customer', timestamp: saved.timestamp });
+      }
+
+      // A human agent owns the conversation, so the bot stays out of it
+      if (handoffService.isBotPaused(sessionId)) {
+        sendEvent('done', {
+          message: null,
+          handoff: handoffService.getSession(sessionId),
+          type: 'agent_active'
+        });
+        return;
+      }
+
+      const ragResponse = await ragService.query(content, sessionId, {
+        customerName: res.locals.chatSession.customerName,
+        bypassCache,
+        inputScreened: true,
+        onToken: (delta) => sendEvent('token', { delta })
+      });
+
+      // Persist the full answer even if the client went away mid-stream
+      const savedAnswer = await vectorStorage.saveChatMessage(sessionId, {
+        content: piiService.redactForStorage(sessionId, ragResponse.answer),
+        isBot: true
+      });
+      handoffService.notifyMessage(sessionId, { content: savedAnswer.content, sender: 'bot', timestamp: savedAnswer.timestamp });
+
+      const handoff = await handoffService.recordOutcome(sessionId, {
+        intent: ragResponse.intent?.intent,
+        // A refused message says nothing about how well the bot answers
+        confidence: ragResponse.blocked ? undefined : ragResponse.confidence,
+        failed: ragResponse.failed,
+        answeredByTool: !!ragResponse.orderTracking
+      });
+
+      sendEvent('done', {
+        message: ragResponse.answer,
+        sources: ragResponse.citations,
+        confidence: ragResponse.confidence,
+        intent: ragResponse.intent && { intent: ragResponse.intent.intent, confidence: ragResponse.intent.confidence },
+        orderTracking: ragResponse.orderTracking,
+        suggestedActions: ragResponse.suggestedActions,
+        cached: ragResponse.cached,
+        handoff,
+        type: 'ai_response'
+      });
+    } catch (error) {
+      console.error('Chat Stream Error:', error);
+      const errorResponse = "I apologize, but I'm experiencing some technical difficulties. Please try again in a moment.";
+
+      try {
+        await vectorStorage.saveChatMessage(sessionId, {
+          content: errorResponse,
+          isBot: true
+        });
+        await handoffService.recordOutcome(sessionId, { failed: true });
+      } catch (saveError) {
+        console.error('Failed to save error response:', saveError);
+      }
+
+      sendEvent('error', {
+        message: errorResponse,
+        error: "Chat service temporarily unavailable"
+      });
+    } finally {
+      res.end();
+    }
+  });
+
+  // Customer asks for a human agent
+  app.post("/api/chat/handoff", requireChatSession, async (req, res) => {
+    try {
+      const handoff = await handoffService.requestHandoff(res.locals.chatSession.id, 'requested');
+      res.json(handoff);
+    } catch (error) {
+      console.error('Handoff request error:', error);
+      res.status(500).json({ error: "Failed to request a human agent" });
+    }
+  });
+
+  // Live handoff updates and agent replies for one chat session (Server-Sent Events)
+  app.get("/api/chat/events", requireChatSession, (req, res) => {
+    const sessionId: string = res.locals.chatSession.id;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const current = handoffService.getSession(sessionId);
+    if (current) sendEvent('handoff', current);
+
+    const unsubscribe = handoffService.subscribe(event => {
+      if (event.type === 'handoff' && event.session.sessionId === sessionId) {
+        sendEvent('handoff', event.session);
+      } else if (event.type === 'message' && event.sessionId === sessionId && event.message.sender === 'agent') {
+        sendEvent('agent_message', event.message);
+      }
+    });
+
+    // Comment lines keep proxies from closing an idle stream
+    const keepAlive = setInterval(() => res.write(': ping\n\n'), 25000);
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  });
+
+  // Get chat history, only for the caller's own session
+  app.get("/api/chat/history/:sessionId?", requireChatSession, async (req, res) => {
+    try {
+      const sessionId: string = res.locals.chatSession.id;
+      if (req.params.sessionId && req.params.sessionId !== sessionId) {
+        return res.status(403).json({ error: "Not allowed to read this chat session" });
+      }
+
       const history = await vectorStorage.getChatHistory(sessionId);
       
       res.json(history.map(msg => ({
         content: msg.content,
         isBot: msg.isBot,
+        sender: msg.sender,
+        agentName: msg.agentName,
         timestamp: msg.timestamp
       })));
     } catch (error) {
@@ -1,12 +1,29 @@
 import type { Express } from "express";
 import { z } from "zod";
 import { vectorStorage } from "../services/vector-storage";
-import { aiService } from "../services/ai-service";
+import { aiService, createProvider } from "../services/ai-service";
+import { aiProfileService } from "../services/ai-profiles";
+import { ollamaService } from "../services/ollama-service";
+import { promptTemplateService, findUnknownVariables, diffLines } from "../services/prompt-templates";
+import { guardrailService } from "../services/guardrails";
+import { piiService } from "../services/pii-redaction";
+import { groundingService } from "../services/grounding";
+import { responseCacheService } from "../services/response-cache";
+import { faqService, FaqImportRejectedError } from "../services/faq-service";
+import { chunkingService } from "../services/chunking";
 import { ragService } from "../services/rag-service";
-import { contentParser } from "../services/content-parser";
+import { contentParser, UnreadableDocumentError } from "../services/content-parser";
+import type { DocumentSection } from "../services/vector-storage";
 import { schedulerService } from "../services/scheduler";
-import { azureConfigSchema, ollamaConfigSchema, aiProviderConfigSchema } from "@shared/schema";
+import { isVectorStoreBackend } from "../services/vector-store";
+import { intentService } from "../services/intent-classifier";
+import { handoffService } from "../services/handoff-service";
+import { requireRole } from "../services/admin-auth";
+import { secretsService } from "../services/secrets";
+import { azureConfigSchema, ollamaConfigSchema, aiProviderConfigSchema, intentExampleSchema, intentSettingsSchema, INTENTS, handoffSettingsSchema, agentMessageSchema, aiProfileSchema, aiRoutingSettingsSchema, AiProfile, ollamaPullSchema, generationSettingsSchema, promptTemplateSchema, promptPreviewSchema, PROMPT_VARIABLES, guardrailSettingsSchema, guardrailCheckSchema, piiSettingsSchema, piiTestSchema, groundingSettingsSchema, responseCacheSettingsSchema, faqEntrySchema, chunkingSettingsSchema, chunkPreviewSchema, ChunkingSettings, knowledgeDocumentSchema } from "@shared/schema";
 import multer from "multer";
+import fs from "fs";
+import path from "path";
 
 // Configure multer for file uploads
 const upload = multer({ 
@@ -14,12 +31,35 @@ const upload = multer({
   limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
 });
 
+// Role checks per route. registerAuthRoutes already requires a login for all
+// of /api/admin; analysts only ever read.
+const ownerOnly = requireRole('owner');
+const canEditContent = requireRole('owner', 'content_editor');
+const canHandleChats = requireRole('owner', 'support_agent');
+const canViewChats = requireRole('owner', 'support_agent', 'analyst');
+const canView = requireRole('owner', 'content_editor', 'support_agent', 'analyst');
+
+// The admin forms send secrets back redacted; swap in the stored ones so saving
+// or testing does not require re-entering them
+function withStoredSecrets<T extends object>(provider: string, config: T, existing: AiProfile | undefined): T {
+  return secretsService.keepExistingSecrets(config, existing?.provider === provider ? existing.config : undefined);
+}
+
+function redactProfile(profile: AiProfile) {
+  return {
+    ...profile,
+    config: secretsService.redactSecrets(profile.config),
+    health: aiService.getHealth(profile.id)
+  };
+}
+
 export function registerAdminRoutes(app: Express) {
   // Get AI configuration
-  app.get("/api/admin/ai-config", async (req, res) => {
+  app.get("/api/admin/ai-config", ownerOnly, async (req, res) => {
     try {
-      const config = await vectorStorage.getAiConfig();
-      res.json(config || null);
+      const config = aiProfileService.getPrimaryConfig();
+      // Secrets never leave the server, only a redacted hint of them
+      res.json(config ? { ...config, config: secretsService.redactSecrets(config.config as object) } : null);
     } catch (error) {
       console.error('Error getting AI config:', error);
       res.status(500).json({ error: 'Failed to get AI configuration' });
@@ -27,7 +67,7 @@ export function registerAdminRoutes(app: Express) {
   });
 
   // Save AI configuration
-  app.post("/api/admin/ai-config", async (req, res) => {
+  app.post("/api/admin/ai-config", ownerOnly, async (req, res) => {
     try {
       const validationResult = aiProviderConfigSchema.safeParse(req.body);
       if (!validationResult.success) {
@@ -37,19 +77,15 @@ export function registerAdminRoutes(app: Express) {
         });
       }
 
-      const { provider, config, customInstructions } = validationResult.data;
+      const { provider, customInstructions } = validationResult.data;
+      const config = withStoredSecrets(provider, validationResult.data.config, aiProfileService.getPrimary());
       
-      // Save configuration to vector storage
-      const savedConfig = await vectorStorage.saveAiConfig({
-        provider,
-        config,
-        customInstructions
-      });
+      // Updates the primary provider profile and applies it straight away
+      await aiProfileService.savePrimary(provider, config, customInstructions);
+      responseCacheService.invalidate('Custom instructions changed');
+      const savedConfig = aiProfileService.getPrimaryConfig()!;
 
-      // Initialize AI service with new configuration
-      aiService.setProvider(savedConfig);
-
-      res.json(savedConfig);
+      res.json({ ...savedConfig, config: secretsService.redactSecrets(savedConfig.config as object) });
     } catch (error) {
       console.error('Error saving AI config:', error);
       res.status(500).json({ error: 'Failed to save AI configuration' });
@@ -57,7 +93,7 @@ export function registerAdminRoutes(app: Express) {
   });
 
   // Test AI connection
-  app.post("/api/admin/test-connection", async (req, res) => {
+  app.post("/api/admin/test-connection", ownerOnly, async (req, res) => {
     try {
       const validationResult = aiProviderConfigSchema.safeParse(req.body);
       if (!validationResult.success) {
@@ -67,22 +103,11 @@ export function registerAdminRoutes(app: Express) {
         });
       }
 
-      const { provider, config } = validationResult.data;
-      
-      // Create temporary AI service instance for testing
-      const tempConfig = {
-        id: 0,
-        provider,
-        config,
-        isActive: true,
-        createdOnUtc: new Date(),
-        updatedOnUtc: new Date()
-      };
+      const { provider } = validationResult.data;
+      const config = withStoredSecrets(provider, validationResult.data.config, aiProfileService.getPrimary());
       
-      const tempAiService = new (aiService.constructor as any)();
-      tempAiService.setProvider(tempConfig);
-      
-      const isConnected = await tempAiService.testConnection();
+      // Test against a throwaway provider so nothing is saved
+      const isConnected = await createProvider(provider, config).testConnection();
       
       if (isConnected) {
         res.json({ success: true, message: 'Connection successful' });
@@ -95,26 +120,481 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
-  // Get available Ollama models
-  app.get("/api/admin/ollama-models", async (req, res) => {
+  // AI provider profiles, tried in priority order with failover
+  app.get("/api/admin/ai-profiles", ownerOnly, async (req, res) => {
+    try {
+      await aiProfileService.initialize();
+      res.json({
+        profiles: aiProfileService.listProfiles().map(redactProfile),
+        routing: aiProfileService.getRouting()
+      });
+    } catch (error) {
+      console.error('Error getting AI profiles:', error);
+      res.status(500).json({ error: 'Failed to get AI profiles' });
+    }
+  });
+
+  app.post("/api/admin/ai-profiles", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = aiProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      await aiProfileService.initialize();
+      const profile = await aiProfileService.createProfile(validationResult.data);
+      res.json(redactProfile(profile));
+    } catch (error) {
+      console.error('Error creating AI profile:', error);
+      res.status(500).json({ error: 'Failed to create AI profile' });
+    }
+  });
+
+  app.put("/api/admin/ai-profiles/:id", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = aiProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const input = validationResult.data;
+      const existing = aiProfileService.getProfile(req.params.id);
+      const profile = await aiProfileService.updateProfile(req.params.id, {
+        ...input,
+        config: withStoredSecrets(input.provider, input.config, existing)
+      });
+      if (!profile) {
+        return res.status(404).json({ error: 'AI profile not found' });
+      }
+      res.json(redactProfile(profile));
+    } catch (error) {
+      console.error('Error updating AI profile:', error);
+      res.status(500).json({ error: 'Failed to update AI profile' });
+    }
+  });
+
+  app.delete("/api/admin/ai-profiles/:id", ownerOnly, async (req, res) => {
+    try {
+      const deleted = await aiProfileService.deleteProfile(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'AI profile not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting AI profile:', error);
+      res.status(500).json({ error: 'Failed to delete AI profile' });
+    }
+  });
+
+  app.post("/api/admin/ai-profiles/:id/test", ownerOnly, async (req, res) => {
+    try {
+      const profile = aiProfileService.getProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ error: 'AI profile not found' });
+      }
+
+      const isConnected = await createProvider(profile.provider, profile.config).testConnection();
+      if (isConnected) {
+        res.json({ success: true, message: 'Connection successful' });
+      } else {
+        res.status(400).json({ error: 'Connection test failed' });
+      }
+    } catch (error) {
+      console.error('Error testing AI profile:', error);
+      res.status(500).json({ error: 'Failed to test AI profile' });
+    }
+  });
+
+  app.put("/api/admin/ai-routing", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = aiRoutingSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const unknownProfile = validationResult.data.rules.find(rule => !aiProfileService.getProfile(rule.profileId));
+      if (unknownProfile) {
+        return res.status(400).json({ error: `Unknown AI profile for ${unknownProfile.intent} rule` });
+      }
+
+      res.json(await aiProfileService.saveRouting(validationResult.data));
+    } catch (error) {
+      console.error('Error saving AI routing:', error);
+      res.status(500).json({ error: 'Failed to save AI routing' });
+    }
+  });
+
+  // Sampling settings for every provider, with per-intent overrides
+  app.get("/api/admin/ai-generation", ownerOnly, async (req, res) => {
+    try {
+      await aiProfileService.initialize();
+      res.json(aiProfileService.getGeneration());
+    } catch (error) {
+      console.error('Error getting generation settings:', error);
+      res.status(500).json({ error: 'Failed to get generation settings' });
+    }
+  });
+
+  app.put("/api/admin/ai-generation", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = generationSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const saved = await aiProfileService.saveGeneration(validationResult.data);
+      responseCacheService.invalidate('Generation settings changed');
+      res.json(saved);
+    } catch (error) {
+      console.error('Error saving generation settings:', error);
+      res.status(500).json({ error: 'Failed to save generation settings' });
+    }
+  });
+
+  // System prompt template, newest version first
+  app.get("/api/admin/prompt-templates", canEditContent, async (req, res) => {
+    try {
+      await promptTemplateService.initialize();
+      res.json({
+        active: promptTemplateService.getActiveTemplate(),
+        versions: promptTemplateService.listVersions(),
+        variables: PROMPT_VARIABLES
+      });
+    } catch (error) {
+      console.error('Error getting prompt templates:', error);
+      res.status(500).json({ error: 'Failed to get prompt templates' });
+    }
+  });
+
+  app.post("/api/admin/prompt-templates", canEditContent, async (req, res) => {
+    try {
+      const validationResult = promptTemplateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const { template, note } = validationResult.data;
+      const unknown = findUnknownVariables(template);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown template variables: ${unknown.join(', ')}` });
+      }
+
+      const saved = await promptTemplateService.saveTemplate(template, note, req.user?.username);
+      responseCacheService.invalidate('Prompt template changed');
+      res.json(saved);
+    } catch (error) {
+      console.error('Error saving prompt template:', error);
+      res.status(500).json({ error: 'Failed to save prompt template' });
+    }
+  });
+
+  app.post("/api/admin/prompt-templates/:version/rollback", canEditContent, async (req, res) => {
+    try {
+      const version = await promptTemplateService.rollback(parseInt(req.params.version), req.user?.username);
+      if (!version) {
+        return res.status(404).json({ error: 'Template version not found' });
+      }
+      responseCacheService.invalidate('Prompt template rolled back');
+      res.json(version);
+    } catch (error) {
+      console.error('Error rolling back prompt template:', error);
+      res.status(500).json({ error: 'Failed to roll back prompt template' });
+    }
+  });
+
+  // Line diff between two versions, `from` defaulting to the one before `to`
+  app.get("/api/admin/prompt-templates/:version/diff", canEditContent, async (req, res) => {
+    try {
+      await promptTemplateService.initialize();
+      const to = promptTemplateService.getVersion(parseInt(req.params.version));
+      const fromVersion = req.query.from ? parseInt(req.query.from as string) : (to?.version || 0) - 1;
+      const from = promptTemplateService.getVersion(fromVersion);
+      if (!to) {
+        return res.status(404).json({ error: 'Template version not found' });
+      }
+
+      res.json({
+        from: from?.version ?? null,
+        to: to.version,
+        lines: diffLines(from?.template || '', to.template)
+      });
+    } catch (error) {
+      console.error('Error diffing prompt templates:', error);
+      res.status(500).json({ error: 'Failed to diff prompt templates' });
+    }
+  });
+
+  app.post("/api/admin/prompt-templates/preview", canEditContent, async (req, res) => {
+    try {
+      const validationResult = promptPreviewSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const { query, template, customerName } = validationResult.data;
+      const preview = await ragService.previewSystemPrompt(query, template, customerName);
+      res.json({ ...preview, unknownVariables: template ? findUnknownVariables(template) : [] });
+    } catch (error) {
+      console.error('Error previewing prompt template:', error);
+      res.status(500).json({ error: 'Failed to preview prompt template' });
+    }
+  });
+
+  // Prompt-injection guardrails and the attempts they blocked
+  app.get("/api/admin/guardrails/settings", canViewChats, async (req, res) => {
+    try {
+      await guardrailService.initialize();
+      res.json(guardrailService.getSettings());
+    } catch (error) {
+      console.error('Error getting guardrail settings:', error);
+      res.status(500).json({ error: 'Failed to get guardrail settings' });
+    }
+  });
+
+  app.put("/api/admin/guardrails/settings", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = guardrailSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const saved = await guardrailService.saveSettings(validationResult.data);
+      responseCacheService.invalidate('Guardrail settings changed');
+      res.json(saved);
+    } catch (error) {
+      console.error('Error saving guardrail settings:', error);
+      res.status(500).json({ error: 'Failed to save guardrail settings' });
+    }
+  });
+
+  app.get("/api/admin/guardrails/events", canViewChats, async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      res.json(await guardrailService.listEvents(limit));
+    } catch (error) {
+      console.error('Error getting guardrail events:', error);
+      res.status(500).json({ error: 'Failed to get guardrail events' });
+    }
+  });
+
+  // Score a sample message with the current settings, without logging it
+  app.post("/api/admin/guardrails/check", canViewChats, async (req, res) => {
+    try {
+      const validationResult = guardrailCheckSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      res.json(await guardrailService.evaluateInput(validationResult.data.text));
+    } catch (error) {
+      console.error('Error checking message:', error);
+      res.status(500).json({ error: 'Failed to check message' });
+    }
+  });
+
+  // Strict grounding of bot answers in retrieved content
+  app.get("/api/admin/grounding/settings", ownerOnly, async (req, res) => {
+    try {
+      await groundingService.initialize();
+      res.json(groundingService.getSettings());
+    } catch (error) {
+      console.error('Error getting grounding settings:', error);
+      res.status(500).json({ error: 'Failed to get grounding settings' });
+    }
+  });
+
+  app.put("/api/admin/grounding/settings", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = groundingSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const saved = await groundingService.saveSettings(validationResult.data);
+      responseCacheService.invalidate('Grounding settings changed');
+      res.json(saved);
+    } catch (error) {
+      console.error('Error saving grounding settings:', error);
+      res.status(500).json({ error: 'Failed to save grounding settings' });
+    }
+  });
+
+  // PII redaction in stored transcripts and AI prompts
+  app.get("/api/admin/pii/settings", canView, async (req, res) => {
+    try {
+      await piiService.initialize();
+      res.json(piiService.getSettings());
+    } catch (error) {
+      console.error('Error getting PII settings:', error);
+      res.status(500).json({ error: 'Failed to get PII settings' });
+    }
+  });
+
+  app.put("/api/admin/pii/settings", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = piiSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const saved = await piiService.saveSettings(validationResult.data);
+      responseCacheService.invalidate('PII settings changed');
+      res.json(saved);
+    } catch (error) {
+      console.error('Error saving PII settings:', error);
+      res.status(500).json({ error: 'Failed to save PII settings' });
+    }
+  });
+
+  // Redact a sample text with the current settings
+  app.post("/api/admin/pii/test", canView, async (req, res) => {
+    try {
+      const validationResult = piiTestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      await piiService.initialize();
+      res.json(piiService.preview(validationResult.data.text));
+    } catch (error) {
+      console.error('Error testing PII redaction:', error);
+      res.status(500).json({ error: 'Failed to test PII redaction' });
+    }
+  });
+
+  // Cached answers to repeated questions
+  app.get("/api/admin/cache/stats", canView, async (req, res) => {
+    try {
+      res.json(responseCacheService.getStats());
+    } catch (error) {
+      console.error('Error getting cache stats:', error);
+      res.status(500).json({ error: 'Failed to get cache stats' });
+    }
+  });
+
+  app.get("/api/admin/cache/settings", canView, async (req, res) => {
+    try {
+      await responseCacheService.initialize();
+      res.json(responseCacheService.getSettings());
+    } catch (error) {
+      console.error('Error getting cache settings:', error);
+      res.status(500).json({ error: 'Failed to get cache settings' });
+    }
+  });
+
+  app.put("/api/admin/cache/settings", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = responseCacheSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      res.json(await responseCacheService.saveSettings(validationResult.data));
+    } catch (error) {
+      console.error('Error saving cache settings:', error);
+      res.status(500).json({ error: 'Failed to save cache settings' });
+    }
+  });
+
+  // For answers that depend on something other than knowledge and products,
+  // such as the system prompt
+  app.post("/api/admin/cache/clear", canEditContent, async (req, res) => {
+    try {
+      res.json({ cleared: responseCacheService.clear() });
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      res.status(500).json({ error: 'Failed to clear cache' });
+    }
+  });
+
+  // Re-encrypt stored secrets under a new master key. With a key file a new key
+  // is generated; with SECRETS_MASTER_KEY this only catches up after an env change.
+  app.post("/api/admin/secrets/rotate", ownerOnly, async (req, res) => {
+    try {
+      const generated = secretsService.rotateKey();
+      const reencrypted = await vectorStorage.reencryptSecrets();
+      secretsService.dropPreviousKeys();
+
+      console.log(`✓ Re-encrypted ${reencrypted} stored AI configurations`);
+      res.json({ success: true, generatedKey: generated, reencrypted });
+    } catch (error) {
+      console.error('Error rotating secrets key:', error);
+      res.status(500).json({ error: 'Failed to rotate secrets key' });
+    }
+  });
+
+  // Get available Ollama models, with sizes and whether they are loaded
+  app.get("/api/admin/ollama-models", ownerOnly, async (req, res) => {
     try {
       const endpoint = req.query.endpoint as string || 'http://localhost:11434';
-      const models = await aiService.getOllamaModels(endpoint);
-      
-      const modelsWithSize = models.map(model => ({
-        name: model,
-        size: 'Unknown' // Ollama API doesn't always provide size info easily
-      }));
-      
-      res.json(modelsWithSize);
+      res.json(await ollamaService.listModels(endpoint));
     } catch (error) {
       console.error('Error getting Ollama models:', error);
       res.status(500).json({ error: 'Failed to get Ollama models' });
     }
   });
 
+  // Pulls run in the background; poll the pulls list for progress
+  app.post("/api/admin/ollama-models/pull", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = ollamaPullSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const { endpoint, model } = validationResult.data;
+      res.status(202).json(ollamaService.startPull(endpoint, model));
+    } catch (error) {
+      console.error('Error pulling Ollama model:', error);
+      res.status(500).json({ error: 'Failed to pull Ollama model' });
+    }
+  });
+
+  app.get("/api/admin/ollama-models/pulls", ownerOnly, async (req, res) => {
+    res.json(ollamaService.getPulls());
+  });
+
   // Knowledge base routes
-  app.get("/api/admin/knowledge-base", async (req, res) => {
+  app.get("/api/admin/knowledge-base", canView, async (req, res) => {
     try {
       const knowledgeBase = await vectorStorage.getKnowledgeBase();
       res.json(knowledgeBase);
@@ -124,14 +604,17 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
-  app.post("/api/admin/knowledge-base", async (req, res) => {
+  app.post("/api/admin/knowledge-base", canEditContent, async (req, res) => {
     try {
-      const { title, content, type, sourceUrl } = req.body;
-      
-      if (!title || !content || !type) {
-        return res.status(400).json({ error: 'Title, content, and type are required' });
+      const validationResult = knowledgeDocumentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
       }
 
+      const { title, content, type, sourceUrl } = validationResult.data;
       const documentId = await ragService.addKnowledgeDocument(
         title,
         content,
@@ -150,39 +633,297 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
+  // Edits are re-chunked and re-indexed
+  app.put("/api/admin/knowledge-base/:id", canEditContent, async (req, res) => {
+    try {
+      const validationResult = knowledgeDocumentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const document = await ragService.updateKnowledgeDocument(req.params.id, validationResult.data);
+      if (!document) {
+        return res.status(404).json({ error: 'Knowledge document not found' });
+      }
+      res.json(document);
+    } catch (error) {
+      console.error('Error updating knowledge:', error);
+      res.status(500).json({ error: 'Failed to update knowledge' });
+    }
+  });
+
+  // Deactivates the document so the chatbot stops using it; ?hard=true
+  // deletes it and its chunks for good
+  app.delete("/api/admin/knowledge-base/:id", canEditContent, async (req, res) => {
+    try {
+      if (req.query.hard === 'true') {
+        const deleted = await vectorStorage.deleteKnowledgeBase(req.params.id);
+        if (!deleted) {
+          return res.status(404).json({ error: 'Knowledge document not found' });
+        }
+        return res.json({ success: true });
+      }
+
+      const document = await vectorStorage.setKnowledgeActive(req.params.id, false);
+      if (!document) {
+        return res.status(404).json({ error: 'Knowledge document not found' });
+      }
+      res.json(document);
+    } catch (error) {
+      console.error('Error deleting knowledge:', error);
+      res.status(500).json({ error: 'Failed to delete knowledge' });
+    }
+  });
+
+  app.post("/api/admin/knowledge-base/:id/reactivate", canEditContent, async (req, res) => {
+    try {
+      const document = await vectorStorage.setKnowledgeActive(req.params.id, true);
+      if (!document) {
+        return res.status(404).json({ error: 'Knowledge document not found' });
+      }
+      res.json(document);
+    } catch (error) {
+      console.error('Error reactivating knowledge:', error);
+      res.status(500).json({ error: 'Failed to reactivate knowledge' });
+    }
+  });
+
   // Upload and process files
-  app.post("/api/admin/upload", upload.single('file'), async (req, res) => {
+  app.post("/api/admin/upload", canEditContent, upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
       }
 
-      const { title, type } = req.body;
+      const { title } = req.body;
       const filePath = req.file.path;
+      const extension = path.extname(req.file.originalname).toLowerCase();
       
-      let parsedContent;
-      
-      if (req.file.mimetype === 'application/pdf') {
-        parsedContent = await contentParser.parsePDF(filePath, title);
-      } else {
-        return res.status(400).json({ error: 'Unsupported file type' });
+      const parser = contentParser.findParser(req.file.originalname, req.file.mimetype);
+      if (!parser) {
+        return res.status(400).json({ 
+          error: `Unsupported file type. Supported files: ${contentParser.getSupportedExtensions().join(', ')}` 
+        });
       }
 
+      const parsedContent = await parser.parse(filePath, title || path.basename(req.file.originalname, extension));
       const documentId = await contentParser.processAndStore(parsedContent);
 
       res.json({ 
         success: true, 
         documentId,
+        format: parser.format,
+        sectionCount: parsedContent.sections?.length,
+        pageCount: parsedContent.metadata?.pageCount,
+        // Pages without a text layer, e.g. scanned images inside an otherwise digital PDF
+        pagesWithoutText: parsedContent.metadata?.pagesWithoutText,
         message: 'File processed and added to knowledge base' 
       });
     } catch (error) {
+      if (error instanceof UnreadableDocumentError) {
+        return res.status(422).json({ error: error.message });
+      }
       console.error('Error processing upload:', error);
       res.status(500).json({ error: 'Failed to process uploaded file' });
+    } finally {
+      // Multer's temp copy is only needed while parsing
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(error => console.error('Error removing uploaded file:', error));
+      }
+    }
+  });
+
+  // Chunking routes
+  app.get("/api/admin/chunking/settings", canView, async (req, res) => {
+    try {
+      await chunkingService.initialize();
+      res.json(chunkingService.getSettings());
+    } catch (error) {
+      console.error('Error getting chunking settings:', error);
+      res.status(500).json({ error: 'Failed to get chunking settings' });
+    }
+  });
+
+  app.put("/api/admin/chunking/settings", canEditContent, async (req, res) => {
+    try {
+      const validationResult = chunkingSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      res.json(await chunkingService.saveSettings(validationResult.data));
+    } catch (error) {
+      console.error('Error saving chunking settings:', error);
+      res.status(500).json({ error: 'Failed to save chunking settings' });
+    }
+  });
+
+  // Shows how a document would be chunked without storing it. Takes either a
+  // JSON body with content and type, or an uploaded file. Unsaved settings can
+  // be sent along, as a JSON form field for a file.
+  app.post("/api/admin/chunking/preview", canEditContent, upload.single('file'), async (req, res) => {
+    try {
+      let document: { content: string; type: string; sections?: DocumentSection[] };
+      let settings: ChunkingSettings | undefined;
+
+      if (req.file) {
+        const parser = contentParser.findParser(req.file.originalname, req.file.mimetype);
+        if (!parser) {
+          return res.status(400).json({ 
+            error: `Unsupported file type. Supported files: ${contentParser.getSupportedExtensions().join(', ')}` 
+          });
+        }
+
+        let rawSettings: unknown;
+        try {
+          rawSettings = req.body.settings ? JSON.parse(req.body.settings) : undefined;
+        } catch (error) {
+          return res.status(400).json({ error: 'Settings must be JSON' });
+        }
+        const validationResult = chunkingSettingsSchema.optional().safeParse(rawSettings);
+        if (!validationResult.success) {
+          return res.status(400).json({ 
+            error: "Validation failed", 
+            details: validationResult.error.errors 
+          });
+        }
+
+        document = await parser.parse(req.file.path, req.file.originalname);
+        settings = validationResult.data;
+      } else {
+        const validationResult = chunkPreviewSchema.safeParse(req.body);
+        if (!validationResult.success) {
+          return res.status(400).json({ 
+            error: "Validation failed", 
+            details: validationResult.error.errors 
+          });
+        }
+
+        document = validationResult.data;
+        settings = validationResult.data.settings;
+      }
+
+      const chunked = await chunkingService.chunkDocument(document, settings);
+      res.json({
+        type: document.type,
+        config: chunked.config,
+        chunks: chunked.chunks.map((chunk, index) => ({
+          index,
+          text: chunk.text,
+          length: chunk.text.length,
+          page: chunk.page,
+          sectionPath: chunk.headings?.length ? chunk.headings.join(' > ') : undefined
+        }))
+      });
+    } catch (error) {
+      if (error instanceof UnreadableDocumentError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Error previewing chunks:', error);
+      res.status(500).json({ error: 'Failed to preview chunks' });
+    } finally {
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(error => console.error('Error removing uploaded file:', error));
+      }
+    }
+  });
+
+  // FAQ routes
+  app.get("/api/admin/faqs", canView, async (req, res) => {
+    try {
+      res.json(await faqService.list());
+    } catch (error) {
+      console.error('Error getting FAQs:', error);
+      res.status(500).json({ error: 'Failed to get FAQs' });
+    }
+  });
+
+  app.post("/api/admin/faqs", canEditContent, async (req, res) => {
+    try {
+      const validationResult = faqEntrySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      res.json(await faqService.create(validationResult.data));
+    } catch (error) {
+      console.error('Error creating FAQ:', error);
+      res.status(500).json({ error: 'Failed to create FAQ' });
+    }
+  });
+
+  app.put("/api/admin/faqs/:id", canEditContent, async (req, res) => {
+    try {
+      const validationResult = faqEntrySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const entry = await faqService.update(req.params.id, validationResult.data);
+      if (!entry) {
+        return res.status(404).json({ error: 'FAQ not found' });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error('Error updating FAQ:', error);
+      res.status(500).json({ error: 'Failed to update FAQ' });
+    }
+  });
+
+  app.delete("/api/admin/faqs/:id", canEditContent, async (req, res) => {
+    try {
+      const deleted = await faqService.delete(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'FAQ not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting FAQ:', error);
+      res.status(500).json({ error: 'Failed to delete FAQ' });
+    }
+  });
+
+  // Bulk import from a CSV, TSV or JSON file. With replace=true, FAQs missing
+  // from the file are deleted.
+  app.post("/api/admin/faqs/import", canEditContent, upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const rows = await contentParser.parseFaqFile(req.file.path, req.file.originalname);
+      const result = await faqService.import(rows, req.body.replace === 'true');
+      res.json(result);
+    } catch (error) {
+      if (error instanceof UnreadableDocumentError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof FaqImportRejectedError) {
+        return res.status(422).json({ error: error.message, skipped: error.skipped });
+      }
+      console.error('Error importing FAQs:', error);
+      res.status(500).json({ error: 'Failed to import FAQs' });
+    } finally {
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(error => console.error('Error removing uploaded file:', error));
+      }
     }
   });
 
   // Merchant feed routes
-  app.get("/api/admin/merchant-feeds", async (req, res) => {
+  app.get("/api/admin/merchant-feeds", canView, async (req, res) => {
     try {
       const feeds = await vectorStorage.getMerchantFeeds();
       res.json(feeds);
@@ -192,7 +933,7 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
-  app.post("/api/admin/merchant-feeds", async (req, res) => {
+  app.post("/api/admin/merchant-feeds", canEditContent, async (req, res) => {
     try {
       const { name, feedUrl, syncInterval } = req.body;
       
@@ -214,7 +955,7 @@ export function registerAdminRoutes(app: Express) {
   });
 
   // Trigger merchant feed sync
-  app.post("/api/admin/sync-feeds", async (req, res) => {
+  app.post("/api/admin/sync-feeds", canEditContent, async (req, res) => {
     try {
       await schedulerService.triggerMerchantFeedSync();
       res.json({ success: true, message: 'Merchant feed sync started' });
@@ -225,7 +966,7 @@ export function registerAdminRoutes(app: Express) {
   });
 
   // Vector storage statistics
-  app.get("/api/admin/stats", async (req, res) => {
+  app.get("/api/admin/stats", canView, async (req, res) => {
     try {
       const stats = await vectorStorage.getStats();
       res.json(stats);
@@ -235,8 +976,233 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
+  // Copy the searchable content between backends, and with `activate` switch to the target
+  app.post("/api/admin/vector-store/migrate", ownerOnly, async (req, res) => {
+    try {
+      const { from, to, activate } = req.body;
+      const source = from || vectorStorage.getBackend().active;
+
+      if (!isVectorStoreBackend(source) || !isVectorStoreBackend(to)) {
+        return res.status(400).json({ error: 'Backends must be one of memory, local or chroma' });
+      }
+      if (source === to) {
+        return res.status(400).json({ error: 'Source and target backends must differ' });
+      }
+      if (source === 'memory' && vectorStorage.getBackend().active !== 'memory') {
+        return res.status(400).json({ error: 'The memory backend only holds data while it is the live backend' });
+      }
+
+      const result = await vectorStorage.migrate(source, to, !!activate);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error('Error migrating vector store:', error);
+      res.status(500).json({ error: 'Failed to migrate vector store' });
+    }
+  });
+
+  // Intent classifier examples and settings
+  app.get("/api/admin/intents", canView, async (req, res) => {
+    try {
+      const examples = await intentService.getExamples();
+      res.json({
+        intents: INTENTS,
+        examples,
+        settings: intentService.getSettings()
+      });
+    } catch (error) {
+      console.error('Error getting intents:', error);
+      res.status(500).json({ error: 'Failed to get intents' });
+    }
+  });
+
+  app.post("/api/admin/intents/examples", canEditContent, async (req, res) => {
+    try {
+      const validationResult = intentExampleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const example = await intentService.addExample(validationResult.data);
+      res.json(example);
+    } catch (error) {
+      console.error('Error adding intent example:', error);
+      res.status(500).json({ error: 'Failed to add intent example' });
+    }
+  });
+
+  app.delete("/api/admin/intents/examples/:id", canEditContent, async (req, res) => {
+    try {
+      const deleted = await intentService.deleteExample(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Intent example not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting intent example:', error);
+      res.status(500).json({ error: 'Failed to delete intent example' });
+    }
+  });
+
+  app.put("/api/admin/intents/settings", canEditContent, async (req, res) => {
+    try {
+      const validationResult = intentSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const settings = await intentService.saveSettings(validationResult.data);
+      res.json(settings);
+    } catch (error) {
+      console.error('Error saving intent settings:', error);
+      res.status(500).json({ error: 'Failed to save intent settings' });
+    }
+  });
+
+  // Classify a sample message with the current examples and settings
+  app.post("/api/admin/intents/classify", canView, async (req, res) => {
+    try {
+      const { text } = req.body;
+      if (!text || typeof text !== 'string') {
+        return res.status(400).json({ error: 'Text is required' });
+      }
+
+      res.json(await intentService.classify(text));
+    } catch (error) {
+      console.error('Error classifying text:', error);
+      res.status(500).json({ error: 'Failed to classify text' });
+    }
+  });
+
+  // Human handoff queue for the agent inbox
+  app.get("/api/admin/handoffs", canViewChats, async (req, res) => {
+    try {
+      const sessions = await handoffService.listSessions(req.query.includeClosed === 'true');
+      const withHistory = await Promise.all(sessions.map(async session => ({
+        ...session,
+        messages: await vectorStorage.getChatHistory(session.sessionId)
+      })));
+      res.json(withHistory);
+    } catch (error) {
+      console.error('Error getting handoffs:', error);
+      res.status(500).json({ error: 'Failed to get handoffs' });
+    }
+  });
+
+  app.get("/api/admin/handoffs/settings", canViewChats, async (req, res) => {
+    try {
+      await handoffService.initialize();
+      res.json(handoffService.getSettings());
+    } catch (error) {
+      console.error('Error getting handoff settings:', error);
+      res.status(500).json({ error: 'Failed to get handoff settings' });
+    }
+  });
+
+  app.put("/api/admin/handoffs/settings", ownerOnly, async (req, res) => {
+    try {
+      const validationResult = handoffSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      res.json(await handoffService.saveSettings(validationResult.data));
+    } catch (error) {
+      console.error('Error saving handoff settings:', error);
+      res.status(500).json({ error: 'Failed to save handoff settings' });
+    }
+  });
+
+  // Queue changes and conversation messages for open handoffs (Server-Sent Events)
+  app.get("/api/admin/handoffs/events", canViewChats, (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const unsubscribe = handoffService.subscribe(event => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    // Comment lines keep proxies from closing an idle stream
+    const keepAlive = setInterval(() => res.write(': ping\n\n'), 25000);
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  });
+
+  app.post("/api/admin/handoffs/:sessionId/accept", canHandleChats, async (req, res) => {
+    try {
+      const agentName = typeof req.body.agentName === 'string' && req.body.agentName.trim() ? req.body.agentName.trim() : 'Agent';
+      const session = await handoffService.accept(req.params.sessionId, agentName);
+      if (!session) {
+        return res.status(404).json({ error: 'No open handoff for this session' });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error('Error accepting handoff:', error);
+      res.status(500).json({ error: 'Failed to accept handoff' });
+    }
+  });
+
+  app.post("/api/admin/handoffs/:sessionId/messages", canHandleChats, async (req, res) => {
+    try {
+      const validationResult = agentMessageSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Validation failed", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const { sessionId } = req.params;
+      const { content, agentName } = validationResult.data;
+
+      let session = handoffService.getSession(sessionId);
+      if (!session || session.status === 'closed') {
+        return res.status(404).json({ error: 'No open handoff for this session' });
+      }
+
+      // Replying to a waiting customer takes ownership, so the bot stops answering
+      if (session.status === 'waiting') {
+        session = (await handoffService.accept(sessionId, agentName))!;
+      }
+
+      const message = await handoffService.postAgentMessage(sessionId, session.agentName || agentName, content);
+      res.json(message);
+    } catch (error) {
+      console.error('Error sending agent message:', error);
+      res.status(500).json({ error: 'Failed to send message' });
+    }
+  });
+
+  app.post("/api/admin/handoffs/:sessionId/close", canHandleChats, async (req, res) => {
+    try {
+      const session = await handoffService.close(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'No open handoff for this session' });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error('Error closing handoff:', error);
+      res.status(500).json({ error: 'Failed to close handoff' });
+    }
+  });
+
   // Parse website content
-  app.post("/api/admin/parse-website", async (req, res) => {
+  app.post("/api/admin/parse-website", canEditContent, async (req, res) => {
     try {
       const { url, title } = req.body;
       
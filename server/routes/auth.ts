@@ -0,0 +1,167 @@
+import type { Express } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { adminAuthService, requireAdmin, requireRole } from "../services/admin-auth";
+import { adminAuthConfig } from "../config";
+import { adminLoginSchema, adminUserSchema, adminUserUpdateSchema, AdminUser } from "@shared/schema";
+
+const MemoryStore = createMemoryStore(session);
+
+// Admin login, logout and account management. Must be registered before
+// registerAdminRoutes: it also locks every other /api/admin route behind a login.
+export function registerAuthRoutes(app: Express) {
+  const ttl = adminAuthConfig.sessionTtlHours * 60 * 60 * 1000;
+
+  app.use(session({
+    name: adminAuthConfig.cookieName,
+    secret: adminAuthService.getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: ttl }),
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: ttl
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await adminAuthService.authenticate(username, password);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  // Deleted accounts drop out of their sessions; role changes apply immediately
+  passport.deserializeUser((id: string, done) => done(null, adminAuthService.getUser(id) || false));
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const validationResult = adminLoginSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: validationResult.error.errors
+      });
+    }
+
+    passport.authenticate('local', (error: unknown, user: AdminUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      // A fresh session id on login prevents session fixation
+      req.session.regenerate(regenerateError => {
+        if (regenerateError) return next(regenerateError);
+        req.login(user, loginError => {
+          if (loginError) return next(loginError);
+          console.log(`✓ Admin "${user.username}" logged in`);
+          res.json(user);
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout(error => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie(adminAuthConfig.cookieName);
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAdmin, (req, res) => {
+    res.json(req.user);
+  });
+
+  // Everything under /api/admin needs a login; routes narrow this by role
+  app.use("/api/admin", requireAdmin);
+
+  app.get("/api/admin/users", requireRole('owner'), async (req, res) => {
+    try {
+      res.json(await adminAuthService.listUsers());
+    } catch (error) {
+      console.error('Error fetching admin users:', error);
+      res.status(500).json({ error: 'Failed to fetch users' });
+    }
+  });
+
+  app.post("/api/admin/users", requireRole('owner'), async (req, res) => {
+    try {
+      const validationResult = adminUserSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validationResult.error.errors
+        });
+      }
+
+      if (adminAuthService.isUsernameTaken(validationResult.data.username)) {
+        return res.status(409).json({ error: 'Username already exists' });
+      }
+
+      const user = await adminAuthService.createUser(validationResult.data);
+      console.log(`✓ Admin "${req.user!.username}" created ${user.role} account "${user.username}"`);
+      res.json(user);
+    } catch (error) {
+      console.error('Error creating admin user:', error);
+      res.status(500).json({ error: 'Failed to create user' });
+    }
+  });
+
+  app.put("/api/admin/users/:id", requireRole('owner'), async (req, res) => {
+    try {
+      const validationResult = adminUserUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validationResult.error.errors
+        });
+      }
+
+      const { role } = validationResult.data;
+      if (role && role !== 'owner' && adminAuthService.isLastOwner(req.params.id)) {
+        return res.status(400).json({ error: 'There must be at least one owner' });
+      }
+
+      const user = await adminAuthService.updateUser(req.params.id, validationResult.data);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json(user);
+    } catch (error) {
+      console.error('Error updating admin user:', error);
+      res.status(500).json({ error: 'Failed to update user' });
+    }
+  });
+
+  app.delete("/api/admin/users/:id", requireRole('owner'), async (req, res) => {
+    try {
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ error: 'You cannot delete your own account' });
+      }
+      if (adminAuthService.isLastOwner(req.params.id)) {
+        return res.status(400).json({ error: 'There must be at least one owner' });
+      }
+
+      const deleted = await adminAuthService.deleteUser(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting admin user:', error);
+      res.status(500).json({ error: 'Failed to delete user' });
+    }
+  });
+}
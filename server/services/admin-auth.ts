@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import type { Request, Response, NextFunction } from 'express';
+import { AdminRole, AdminUser, AdminUserInput, AdminUserRecord, AdminUserUpdate } from '@shared/schema';
+import { adminAuthConfig } from '../config';
+import { vectorStorage } from './vector-storage';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+const SECRET_SETTINGS_KEY = 'admin_session_secret';
+
+declare global {
+  namespace Express {
+    // The logged-in admin passport attaches as `req.user`
+    interface User extends AdminUser {}
+  }
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, 64);
+  return `${hash.toString('hex')}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split('.');
+  if (!hash || !salt) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const given = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(given, expected);
+}
+
+function toPublicUser({ passwordHash, ...user }: AdminUserRecord): AdminUser {
+  return user;
+}
+
+/**
+ * Admin dashboard accounts.
+ *
+ * Passwords are hashed with scrypt and a per-user salt. Logins are kept in an
+ * express-session cookie; see registerAuthRoutes for the passport wiring.
+ */
+export class AdminAuthService {
+  private users: Map<string, AdminUserRecord> = new Map();
+  private sessionSecret: string | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    if (adminAuthConfig.sessionSecret) {
+      this.sessionSecret = adminAuthConfig.sessionSecret;
+    } else {
+      let stored = await vectorStorage.getSettings<string>(SECRET_SETTINGS_KEY);
+      if (!stored) {
+        stored = crypto.randomBytes(32).toString('hex');
+        await vectorStorage.saveSettings(SECRET_SETTINGS_KEY, stored);
+        console.warn('⚠️ ADMIN_SESSION_SECRET not set, generated an admin session signing secret');
+      }
+      this.sessionSecret = stored;
+    }
+
+    (await vectorStorage.getAdminUsers()).forEach(user => this.users.set(user.id, user));
+
+    if (this.users.size === 0) {
+      const password = adminAuthConfig.ownerPassword || crypto.randomBytes(12).toString('base64url');
+      await this.createUser({ username: adminAuthConfig.ownerUsername, password, role: 'owner' });
+
+      if (adminAuthConfig.ownerPassword) {
+        console.log(`✓ Created owner account "${adminAuthConfig.ownerUsername}"`);
+      } else {
+        console.warn(`⚠️ ADMIN_PASSWORD not set, created owner account "${adminAuthConfig.ownerUsername}" with password: ${password}`);
+      }
+    }
+  }
+
+  // Falls back to a per-process secret if storage was unavailable at startup,
+  // so the dashboard still works but logins do not survive a restart
+  getSessionSecret(): string {
+    if (!this.sessionSecret) {
+      this.sessionSecret = crypto.randomBytes(32).toString('hex');
+      console.warn('⚠️ Admin session secret not loaded, using a temporary one');
+    }
+    return this.sessionSecret;
+  }
+
+  async authenticate(username: string, password: string): Promise<AdminUser | null> {
+    await this.initialize();
+
+    const user = this.findByUsername(username);
+    // Hash anyway for unknown users so response time does not reveal them
+    const valid = await verifyPassword(password, user?.passwordHash || (await hashPassword(password)));
+    return user && valid ? toPublicUser(user) : null;
+  }
+
+  getUser(id: string): AdminUser | undefined {
+    const user = this.users.get(id);
+    return user ? toPublicUser(user) : undefined;
+  }
+
+  async listUsers(): Promise<AdminUser[]> {
+    await this.initialize();
+    return Array.from(this.users.values())
+      .map(toPublicUser)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  isUsernameTaken(username: string): boolean {
+    return !!this.findByUsername(username);
+  }
+
+  // Guards against locking everyone out of owner-only settings
+  isLastOwner(id: string): boolean {
+    const owners = Array.from(this.users.values()).filter(user => user.role === 'owner');
+    return owners.length === 1 && owners[0].id === id;
+  }
+
+  async createUser(input: AdminUserInput): Promise<AdminUser> {
+    const now = new Date().toISOString();
+    const user: AdminUserRecord = {
+      id: crypto.randomUUID(),
+      username: input.username,
+      role: input.role,
+      passwordHash: await hashPassword(input.password),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await vectorStorage.saveAdminUser(user);
+    this.users.set(user.id, user);
+    return toPublicUser(user);
+  }
+
+  async updateUser(id: string, update: AdminUserUpdate): Promise<AdminUser | undefined> {
+    await this.initialize();
+
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const user: AdminUserRecord = {
+      ...existing,
+      role: update.role || existing.role,
+      passwordHash: update.password ? await hashPassword(update.password) : existing.passwordHash,
+      updatedAt: new Date().toISOString()
+    };
+
+    await vectorStorage.saveAdminUser(user);
+    this.users.set(user.id, user);
+    return toPublicUser(user);
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    await this.initialize();
+
+    if (!this.users.has(id)) return false;
+    await vectorStorage.deleteAdminUser(id);
+    this.users.delete(id);
+    return true;
+  }
+
+  private findByUsername(username: string): AdminUserRecord | undefined {
+    const normalized = username.trim().toLowerCase();
+    return Array.from(this.users.values()).find(user => user.username.toLowerCase() === normalized);
+  }
+}
+
+export const adminAuthService = new AdminAuthService();
+
+// Rejects requests without a logged-in admin
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+// Admits logged-in admins whose role is one of `roles`
+export function requireRole(...roles: AdminRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ error: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { AiConfig, AiProfile, AiProfileInput, AiRoutingSettings, aiRoutingSettingsSchema, AiProviderSettings, GenerationSettings, generationSettingsSchema } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+import { aiService } from './ai-service';
+import { embeddingService } from './embedding-service';
+
+const ROUTING_SETTINGS_KEY = 'ai_routing';
+const INSTRUCTIONS_SETTINGS_KEY = 'ai_custom_instructions';
+const GENERATION_SETTINGS_KEY = 'ai_generation';
+
+/**
+ * Saved AI provider profiles, routing and generation settings. Every change is applied to
+ * aiService straight away. The highest-priority enabled profile is the
+ * "primary": it backs the single-provider AI configuration form and supplies
+ * the embedding model.
+ */
+export class AIProfileService {
+  private profiles: AiProfile[] = [];
+  private routing: AiRoutingSettings = aiRoutingSettingsSchema.parse({});
+  private generation: GenerationSettings = generationSettingsSchema.parse({});
+  private customInstructions: string | undefined;
+  private initPromise: Promise<void> | null = null;
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    const routing = await vectorStorage.getSettings<AiRoutingSettings>(ROUTING_SETTINGS_KEY);
+    this.routing = aiRoutingSettingsSchema.parse(routing || {});
+    const generation = await vectorStorage.getSettings<GenerationSettings>(GENERATION_SETTINGS_KEY);
+    this.generation = generationSettingsSchema.parse(generation || {});
+    this.customInstructions = (await vectorStorage.getSettings<string>(INSTRUCTIONS_SETTINGS_KEY)) || undefined;
+    this.profiles = await vectorStorage.getAiProfiles();
+
+    // Carry over the single config saved before profiles existed
+    const legacy = await vectorStorage.getAiConfig();
+    if (legacy) {
+      if (this.profiles.length === 0) {
+        await this.createProfile({
+          name: 'Primary',
+          provider: legacy.provider as AiProfile['provider'],
+          config: legacy.config as AiProviderSettings,
+          priority: 0,
+          enabled: true,
+          timeoutMs: 30000
+        });
+        if (legacy.customInstructions) {
+          await this.saveCustomInstructions(legacy.customInstructions);
+        }
+        console.log('✓ Migrated saved AI configuration to a provider profile');
+      }
+      await vectorStorage.deleteAiConfig();
+    }
+
+    this.apply();
+    if (aiService.isConfigured()) {
+      console.log(`✓ AI service initialized with ${this.profiles.filter(profile => profile.enabled).length} provider profiles`);
+    }
+  }
+
+  listProfiles(): AiProfile[] {
+    return [...this.profiles];
+  }
+
+  getProfile(id: string): AiProfile | undefined {
+    return this.profiles.find(profile => profile.id === id);
+  }
+
+  getPrimary(): AiProfile | undefined {
+    return this.profiles.find(profile => profile.enabled);
+  }
+
+  // The primary profile in the shape of the original single AI configuration
+  getPrimaryConfig(): AiConfig | undefined {
+    const primary = this.getPrimary();
+    if (!primary) return undefined;
+
+    return {
+      id: 1,
+      provider: primary.provider,
+      config: primary.config,
+      customInstructions: this.customInstructions || null,
+      isActive: true,
+      createdOnUtc: new Date(primary.createdAt),
+      updatedOnUtc: new Date(primary.updatedAt)
+    };
+  }
+
+  // Does not wait for initialize: load() uses it to migrate the legacy config
+  async createProfile(input: AiProfileInput): Promise<AiProfile> {
+    const now = new Date().toISOString();
+    const profile = await vectorStorage.saveAiProfile({ ...input, id: crypto.randomUUID(), createdAt: now, updatedAt: now });
+
+    this.profiles = sortByPriority([...this.profiles, profile]);
+    this.apply();
+    return profile;
+  }
+
+  async updateProfile(id: string, input: AiProfileInput): Promise<AiProfile | undefined> {
+    await this.initialize();
+
+    const existing = this.getProfile(id);
+    if (!existing) return undefined;
+
+    const profile = await vectorStorage.saveAiProfile({ ...existing, ...input, updatedAt: new Date().toISOString() });
+    this.profiles = sortByPriority(this.profiles.map(current => current.id === id ? profile : current));
+    this.apply();
+    return profile;
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    await this.initialize();
+
+    const deleted = await vectorStorage.deleteAiProfile(id);
+    if (!deleted) return false;
+
+    this.profiles = this.profiles.filter(profile => profile.id !== id);
+    if (this.routing.rules.some(rule => rule.profileId === id)) {
+      await this.saveRouting({ ...this.routing, rules: this.routing.rules.filter(rule => rule.profileId !== id) });
+    }
+    this.apply();
+    return true;
+  }
+
+  // Used by the single-provider form: updates the primary profile, or creates
+  // one when there are none yet
+  async savePrimary(provider: AiProfile['provider'], config: AiProviderSettings, customInstructions?: string): Promise<AiProfile> {
+    await this.initialize();
+    await this.saveCustomInstructions(customInstructions);
+
+    const primary = this.getPrimary();
+    if (primary) {
+      return (await this.updateProfile(primary.id, { ...primary, provider, config }))!;
+    }
+    return this.createProfile({ name: 'Primary', provider, config, priority: 0, enabled: true, timeoutMs: 30000 });
+  }
+
+  getRouting(): AiRoutingSettings {
+    return this.routing;
+  }
+
+  async saveRouting(settings: AiRoutingSettings): Promise<AiRoutingSettings> {
+    await this.initialize();
+    this.routing = await vectorStorage.saveSettings(ROUTING_SETTINGS_KEY, settings);
+    this.apply();
+    return this.routing;
+  }
+
+  getGeneration(): GenerationSettings {
+    return this.generation;
+  }
+
+  async saveGeneration(settings: GenerationSettings): Promise<GenerationSettings> {
+    await this.initialize();
+    this.generation = await vectorStorage.saveSettings(GENERATION_SETTINGS_KEY, settings);
+    this.apply();
+    return this.generation;
+  }
+
+  private async saveCustomInstructions(customInstructions: string | undefined) {
+    this.customInstructions = customInstructions || undefined;
+    await vectorStorage.saveSettings(INSTRUCTIONS_SETTINGS_KEY, this.customInstructions || '');
+  }
+
+  private apply() {
+    aiService.configure(this.profiles, this.routing, this.generation, this.customInstructions);
+    embeddingService.configure(this.getPrimaryConfig() || null);
+  }
+}
+
+function sortByPriority(profiles: AiProfile[]): AiProfile[] {
+  return profiles.sort((a, b) => a.priority - b.priority);
+}
+
+export const aiProfileService = new AIProfileService();
@@ -0,0 +1,59 @@
+import '../test/setup';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { AnthropicAIProvider, type AIMessage } from './ai-service';
+
+const requests: any[] = [];
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      requests.push(JSON.parse(body));
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ content: [{ type: 'text', text: 'Your order has shipped.' }] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => server.close());
+
+const LOOKUP_TOOL = { name: 'lookup_order', description: 'Looks up an order', parameters: { type: 'object', properties: {} } };
+
+const conversation: AIMessage[] = [
+  { role: 'user', content: 'Where is order 1001?' },
+  { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'lookup_order', arguments: { orderId: '1001' } }] },
+  { role: 'tool', content: '{"status":"shipped"}', toolCallId: 'call_1' },
+];
+
+function blockTypes(body: any): string[] {
+  return body.messages.flatMap((turn: any) => turn.content.map((block: any) => block.type));
+}
+
+test('Anthropic requests keep tool blocks while tools are offered', async () => {
+  const provider = new AnthropicAIProvider({ baseUrl, apiKey: 'test-key', model: 'test-model', apiVersion: '2023-06-01' });
+  await provider.generateResponse(conversation, 'Be helpful.', [LOOKUP_TOOL]);
+
+  const body = requests.pop();
+  assert.equal(body.tools.length, 1);
+  assert.deepEqual(blockTypes(body), ['text', 'tool_use', 'tool_result']);
+});
+
+test('Anthropic requests turn earlier tool turns into text once tools are withdrawn', async () => {
+  const provider = new AnthropicAIProvider({ baseUrl, apiKey: 'test-key', model: 'test-model', apiVersion: '2023-06-01' });
+  const reply = await provider.generateResponse(conversation, 'Be helpful.');
+
+  const body = requests.pop();
+  assert.equal(body.tools, undefined);
+  assert.deepEqual(blockTypes(body), ['text', 'text', 'text']);
+  assert.match(JSON.stringify(body.messages), /lookup_order/);
+  assert.match(JSON.stringify(body.messages), /shipped/);
+  assert.equal(reply.content, 'Your order has shipped.');
+});
@@ -1,72 +1,342 @@
 // Azure OpenAI will be accessed via HTTP API
 import { OpenAI } from 'openai';
 // Ollama will be accessed via HTTP API
-import { AiConfig, AzureConfig, OllamaConfig } from '@shared/schema';
+import { AzureConfig, OllamaConfig, OpenAICompatibleConfig, AnthropicConfig, AiProviderName, AiProviderSettings, AiProfile, AiProfileHealth, AiRoutingSettings, aiRoutingSettingsSchema, GenerationParams, GenerationSettings, generationParamsSchema, generationSettingsSchema } from '@shared/schema';
+import {
+  ChatToolDefinition,
+  ToolCall,
+  ToolResult,
+  describeToolsForPrompt,
+  executeToolCall,
+  mayBeTextToolCall,
+  parseTextToolCall,
+  parseToolArguments,
+  TEXT_TOOL_CALL_PREFIX
+} from './chat-tools';
+import { promptTemplateService, renderPromptTemplate } from './prompt-templates';
+import { storeConfig } from '../config';
 
+export interface AIMessage {
+  role: string;
+  content: string;
+  // Set on assistant turns that requested tools
+  toolCalls?: ToolCall[];
+  // Set on `tool` turns carrying a tool result
+  toolCallId?: string;
+}
+
+export interface AIProviderReply {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+export type AIStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_calls'; toolCalls: ToolCall[] };
+
+// `signal` aborts the request, e.g. when the profile's timeout passes
 export interface AIProvider {
-  generateResponse(messages: { role: string; content: string }[], systemPrompt?: string): Promise<string>;
+  generateResponse(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[], params?: GenerationParams, signal?: AbortSignal): Promise<AIProviderReply>;
+  streamResponse(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[], params?: GenerationParams, signal?: AbortSignal): AsyncGenerator<AIStreamEvent>;
   testConnection(): Promise<boolean>;
 }
 
-export class AzureAIProvider implements AIProvider {
-  private config: AzureConfig & { deploymentName: string };
+export interface AIRequestOptions {
+  tools?: ChatToolDefinition[];
+  onToolResult?: (result: ToolResult) => void;
+  // Classified intent of the customer's message, for routing rules and the prompt
+  intent?: string;
+  customerName?: string;
+  // Applied to tool arguments before a tool runs and to its result before the
+  // model sees it, e.g. to restore redacted PII for the lookup only
+  mapToolArguments?: (args: Record<string, any>) => Record<string, any>;
+  mapToolResult?: (content: string) => string;
+}
 
-  constructor(config: AzureConfig & { deploymentName: string }) {
-    this.config = config;
+interface ProfileEntry {
+  profile: AiProfile;
+  provider: AIProvider;
+}
+
+type HealthRecord = Omit<AiProfileHealth, 'status'>;
+
+const DEFAULT_GENERATION_PARAMS: GenerationParams = generationParamsSchema.parse({});
+
+// Aborts a streamed request once nothing has arrived for `ms`, so a long
+// answer that keeps coming is not cut off
+class IdleTimeout {
+  private controller = new AbortController();
+  private timer: NodeJS.Timeout | undefined;
+  readonly signal = this.controller.signal;
+
+  constructor(private ms: number, private label: string) {
+    this.reset();
   }
 
-  async generateResponse(messages: { role: string; content: string }[], systemPrompt?: string): Promise<string> {
-    try {
-      const chatMessages = systemPrompt 
-        ? [{ role: 'system', content: systemPrompt }, ...messages]
-        : messages;
+  reset() {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.controller.abort(new Error(`${this.label} sent nothing for ${this.ms}ms`));
+    }, this.ms);
+    this.timer.unref();
+  }
 
-      const response = await fetch(`${this.config.endpoint}/openai/deployments/${this.config.deploymentName}/chat/completions?api-version=${this.config.apiVersion}`, {
+  // Stops the timer and the request, if it is still running
+  cancel() {
+    clearTimeout(this.timer);
+    this.controller.abort();
+  }
+}
+
+// Splits a streamed HTTP body into lines as chunks arrive
+export async function* readStreamLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Shared by providers that speak the OpenAI chat completions format. Subclasses
+// supply the URL, auth headers and any body fields such as the model name.
+abstract class ChatCompletionsProvider implements AIProvider {
+  protected abstract readonly label: string;
+  protected abstract completionsUrl(): string;
+  protected abstract headers(): Record<string, string>;
+
+  protected requestFields(): Record<string, unknown> {
+    return {};
+  }
+
+  async generateResponse(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[], params = DEFAULT_GENERATION_PARAMS, signal?: AbortSignal): Promise<AIProviderReply> {
+    try {
+      const response = await fetch(this.completionsUrl(), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'api-key': this.config.apiKey,
+          ...this.headers(),
         },
         body: JSON.stringify({
-          messages: chatMessages,
-          max_tokens: 1000,
-          temperature: 0.7,
+          ...this.requestFields(),
+          messages: this.formatMessages(messages, systemPrompt),
+          ...this.formatTools(tools),
+          ...this.formatParams(params),
         }),
+        signal,
       });
 
       if (!response.ok) {
-        throw new Error(`Azure API error: ${response.statusText}`);
+        throw new Error(`${this.label} API error: ${response.statusText}`);
       }
 
       const data = await response.json();
-      return data.choices[0]?.message?.content || 'I apologize, but I could not generate a response at this time.';
+      const message = data.choices[0]?.message;
+      const toolCalls: ToolCall[] = (message?.tool_calls || []).map((call: any) => ({
+        id: call.id,
+        name: call.function?.name,
+        arguments: parseToolArguments(call.function?.arguments)
+      }));
+
+      return {
+        content: message?.content || (toolCalls.length > 0 ? '' : 'I apologize, but I could not generate a response at this time.'),
+        toolCalls
+      };
     } catch (error) {
-      console.error('Azure AI Error:', error);
-      throw new Error('Failed to generate response using Azure OpenAI');
+      console.error(`${this.label} AI Error:`, error);
+      throw new Error(`Failed to generate response using ${this.label}`);
+    }
+  }
+
+  async *streamResponse(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[], params = DEFAULT_GENERATION_PARAMS, signal?: AbortSignal): AsyncGenerator<AIStreamEvent> {
+    const response = await fetch(this.completionsUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.headers(),
+      },
+      body: JSON.stringify({
+        ...this.requestFields(),
+        messages: this.formatMessages(messages, systemPrompt),
+        ...this.formatTools(tools),
+        ...this.formatParams(params),
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`${this.label} API error: ${response.statusText}`);
+    }
+
+    // Tool calls arrive in fragments keyed by index; arguments are a JSON
+    // string split across chunks
+    const pendingCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    // Server-sent events: one `data:` line per chunk, terminated by [DONE]
+    for await (const line of readStreamLines(response.body)) {
+      if (!line.startsWith('data:')) continue;
+
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') break;
+
+      const data = JSON.parse(payload);
+      const delta = data.choices?.[0]?.delta;
+      if (delta?.content) yield { type: 'text', delta: delta.content };
+
+      for (const fragment of delta?.tool_calls || []) {
+        const call = pendingCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
     }
+
+    const toolCalls = pendingCalls.filter(Boolean).map(call => ({
+      id: call.id,
+      name: call.name,
+      arguments: parseToolArguments(call.arguments)
+    }));
+    if (toolCalls.length > 0) yield { type: 'tool_calls', toolCalls };
   }
 
   async testConnection(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.config.endpoint}/openai/deployments/${this.config.deploymentName}/chat/completions?api-version=${this.config.apiVersion}`, {
+      const response = await fetch(this.completionsUrl(), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'api-key': this.config.apiKey,
+          ...this.headers(),
         },
         body: JSON.stringify({
+          ...this.requestFields(),
           messages: [{ role: 'user', content: 'Hello' }],
           max_tokens: 10,
         }),
       });
       return response.ok;
     } catch (error) {
-      console.error('Azure connection test failed:', error);
+      console.error(`${this.label} connection test failed:`, error);
+      return false;
+    }
+  }
+
+  private formatMessages(messages: AIMessage[], systemPrompt?: string) {
+    const chatMessages = messages.map(msg => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+      }
+      if (msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      }
+      return { role: msg.role, content: msg.content };
+    });
+
+    return systemPrompt 
+      ? [{ role: 'system', content: systemPrompt }, ...chatMessages]
+      : chatMessages;
+  }
+
+  // Unset values are left out of the JSON body
+  private formatParams(params: GenerationParams) {
+    return {
+      temperature: params.temperature,
+      top_p: params.topP,
+      max_tokens: params.maxTokens,
+      stop: params.stop.length > 0 ? params.stop : undefined,
+      presence_penalty: params.presencePenalty,
+      frequency_penalty: params.frequencyPenalty,
+    };
+  }
+
+  private formatTools(tools?: ChatToolDefinition[]) {
+    if (!tools?.length) return {};
+    return {
+      tools: tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      }))
+    };
+  }
+}
+
+export class AzureAIProvider extends ChatCompletionsProvider {
+  protected readonly label = 'Azure OpenAI';
+
+  constructor(private config: AzureConfig) {
+    super();
+  }
+
+  protected completionsUrl(): string {
+    return `${this.config.endpoint}/openai/deployments/${this.config.deploymentName}/chat/completions?api-version=${this.config.apiVersion}`;
+  }
+
+  protected headers(): Record<string, string> {
+    return { 'api-key': this.config.apiKey };
+  }
+}
+
+// vLLM, LM Studio, llama.cpp and other servers exposing /v1/chat/completions
+export class OpenAICompatibleAIProvider extends ChatCompletionsProvider {
+  protected readonly label = 'OpenAI-compatible server';
+
+  constructor(private config: OpenAICompatibleConfig) {
+    super();
+  }
+
+  protected completionsUrl(): string {
+    return `${trimTrailingSlash(this.config.baseUrl)}/chat/completions`;
+  }
+
+  protected headers(): Record<string, string> {
+    return this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  protected requestFields(): Record<string, unknown> {
+    return { model: this.config.model };
+  }
+
+  // Listing models is cheap and supported by all the common servers
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(`${trimTrailingSlash(this.config.baseUrl)}/models`, { headers: this.headers() });
+      return response.ok;
+    } catch (error) {
+      console.error('OpenAI-compatible connection test failed:', error);
       return false;
     }
   }
 }
 
+/**
+ * Ollama through its native chat API (`/api/chat`), so the model's own chat
+ * template formats the conversation. Tools use the text protocol from
+ * chat-tools, since many local models have no native tool calling.
+ */
 export class OllamaAIProvider implements AIProvider {
   private config: OllamaConfig;
 
@@ -74,20 +344,15 @@ export class OllamaAIProvider implements AIProvider {
     this.config = config;
   }
 
-  async generateResponse(messages: { role: string; content: string }[], systemPrompt?: string): Promise<string> {
+  async generateResponse(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[], params = DEFAULT_GENERATION_PARAMS, signal?: AbortSignal): Promise<AIProviderReply> {
     try {
-      const prompt = this.formatMessagesForOllama(messages, systemPrompt);
-      
-      const response = await fetch(`${this.config.endpoint}/api/generate`, {
+      const response = await fetch(`${this.config.endpoint}/api/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          model: this.config.model,
-          prompt: prompt,
-          stream: false,
-        }),
+        body: JSON.stringify(this.requestBody(messages, systemPrompt, tools, params, false)),
+        signal,
       });
 
       if (!response.ok) {
@@ -95,13 +360,70 @@ export class OllamaAIProvider implements AIProvider {
       }
 
       const data = await response.json();
-      return data.response || 'I apologize, but I could not generate a response at this time.';
+      const content: string = data.message?.content || '';
+      const toolCall = tools?.length ? parseTextToolCall(content) : null;
+      if (toolCall) {
+        return { content: '', toolCalls: [toolCall] };
+      }
+
+      return {
+        content: content || 'I apologize, but I could not generate a response at this time.',
+        toolCalls: []
+      };
     } catch (error) {
       console.error('Ollama AI Error:', error);
       throw new Error('Failed to generate response using Ollama');
     }
   }
 
+  async *streamResponse(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[], params = DEFAULT_GENERATION_PARAMS, signal?: AbortSignal): AsyncGenerator<AIStreamEvent> {
+    const response = await fetch(`${this.config.endpoint}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.requestBody(messages, systemPrompt, tools, params, true)),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Ollama API error: ${response.statusText}`);
+    }
+
+    // Output is held back while it could still be a text tool call, so the
+    // customer never sees a raw TOOL_CALL line
+    let held = '';
+    let passThrough = !tools?.length;
+
+    // Newline-delimited JSON, the last object has `done: true`
+    for await (const line of readStreamLines(response.body)) {
+      const data = JSON.parse(line);
+      if (data.error) throw new Error(`Ollama API error: ${data.error}`);
+
+      const delta: string | undefined = data.message?.content;
+      if (delta) {
+        if (passThrough) {
+          yield { type: 'text', delta };
+        } else {
+          held += delta;
+          if (!mayBeTextToolCall(held)) {
+            passThrough = true;
+            yield { type: 'text', delta: held };
+          }
+        }
+      }
+
+      if (data.done) break;
+    }
+
+    if (!passThrough && held) {
+      const toolCall = parseTextToolCall(held);
+      yield toolCall
+        ? { type: 'tool_calls', toolCalls: [toolCall] }
+        : { type: 'text', delta: held };
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const response = await fetch(`${this.config.endpoint}/api/tags`);
@@ -112,104 +434,513 @@ export class OllamaAIProvider implements AIProvider {
     }
   }
 
-  async getAvailableModels(): Promise<string[]> {
+  private requestBody(
+    messages: AIMessage[],
+    systemPrompt: string | undefined,
+    tools: ChatToolDefinition[] | undefined,
+    params: GenerationParams,
+    stream: boolean
+  ) {
+    // The profile's temperature is already folded into `params` by AIService
+    const options = {
+      temperature: params.temperature,
+      top_p: params.topP,
+      num_predict: params.maxTokens,
+      stop: params.stop.length > 0 ? params.stop : undefined,
+      presence_penalty: params.presencePenalty,
+      frequency_penalty: params.frequencyPenalty,
+      num_ctx: this.config.numCtx,
+    };
+
+    return {
+      model: this.config.model,
+      messages: this.formatMessages(messages, systemPrompt, tools),
+      stream,
+      options,
+      // Durations such as "10m"; a bare number is seconds, and -1 keeps the model loaded
+      ...(this.config.keepAlive ? { keep_alive: /^-?\d+$/.test(this.config.keepAlive) ? Number(this.config.keepAlive) : this.config.keepAlive } : {}),
+    };
+  }
+
+  private formatMessages(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[]) {
+    const system = [systemPrompt, tools?.length ? describeToolsForPrompt(tools) : undefined]
+      .filter(Boolean)
+      .join('\n\n');
+
+    const chatMessages = messages.map(msg => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', content: msg.content };
+      }
+      if (msg.toolCalls?.length) {
+        // Replayed in the same text form the model used to request them
+        const content = msg.toolCalls
+          .map(call => `${TEXT_TOOL_CALL_PREFIX} ${JSON.stringify({ name: call.name, arguments: call.arguments })}`)
+          .join('\n');
+        return { role: 'assistant', content };
+      }
+      return { role: msg.role === 'assistant' || msg.role === 'system' ? msg.role : 'user', content: msg.content };
+    });
+
+    return system ? [{ role: 'system', content: system }, ...chatMessages] : chatMessages;
+  }
+}
+
+/**
+ * Messages API providers (`POST /v1/messages`).
+ *
+ * The system prompt is a top-level field rather than a message, and tool
+ * calls and results are content blocks. Tool results go back in a user turn,
+ * so consecutive turns of the same role are merged.
+ */
+export class AnthropicAIProvider implements AIProvider {
+  constructor(private config: AnthropicConfig) {}
+
+  async generateResponse(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[], params = DEFAULT_GENERATION_PARAMS, signal?: AbortSignal): Promise<AIProviderReply> {
     try {
-      const response = await fetch(`${this.config.endpoint}/api/tags`);
-      if (!response.ok) return [];
-      
+      const response = await fetch(this.messagesUrl(), {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify(this.requestBody(messages, systemPrompt, tools, params)),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Anthropic API error: ${response.statusText}`);
+      }
+
       const data = await response.json();
-      return data.models?.map((model: any) => model.name) || [];
+      const blocks: any[] = data.content || [];
+      const content = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+      const toolCalls: ToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+
+      return {
+        content: content || (toolCalls.length > 0 ? '' : 'I apologize, but I could not generate a response at this time.'),
+        toolCalls
+      };
     } catch (error) {
-      console.error('Failed to fetch Ollama models:', error);
-      return [];
+      console.error('Anthropic AI Error:', error);
+      throw new Error('Failed to generate response using Anthropic');
     }
   }
 
-  private formatMessagesForOllama(messages: { role: string; content: string }[], systemPrompt?: string): string {
-    let prompt = '';
-    
-    if (systemPrompt) {
-      prompt += `System: ${systemPrompt}\n\n`;
+  async *streamResponse(messages: AIMessage[], systemPrompt?: string, tools?: ChatToolDefinition[], params = DEFAULT_GENERATION_PARAMS, signal?: AbortSignal): AsyncGenerator<AIStreamEvent> {
+    const response = await fetch(this.messagesUrl(), {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ ...this.requestBody(messages, systemPrompt, tools, params), stream: true }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Anthropic API error: ${response.statusText}`);
     }
-    
+
+    // Tool input arrives as partial JSON per content block index
+    const pendingCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    // Server-sent events; only the `data:` lines are needed, they carry the type
+    for await (const line of readStreamLines(response.body)) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = JSON.parse(line.slice(5).trim());
+      if (data.type === 'error') throw new Error(`Anthropic API error: ${data.error?.message}`);
+      if (data.type === 'message_stop') break;
+
+      if (data.type === 'content_block_start' && data.content_block?.type === 'tool_use') {
+        pendingCalls[data.index] = { id: data.content_block.id, name: data.content_block.name, arguments: '' };
+      } else if (data.type === 'content_block_delta') {
+        if (data.delta?.type === 'text_delta' && data.delta.text) {
+          yield { type: 'text', delta: data.delta.text };
+        } else if (data.delta?.type === 'input_json_delta' && pendingCalls[data.index]) {
+          pendingCalls[data.index].arguments += data.delta.partial_json || '';
+        }
+      }
+    }
+
+    const toolCalls = pendingCalls.filter(Boolean).map(call => ({
+      id: call.id,
+      name: call.name,
+      arguments: parseToolArguments(call.arguments)
+    }));
+    if (toolCalls.length > 0) yield { type: 'tool_calls', toolCalls };
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(this.messagesUrl(), {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          model: this.config.model,
+          max_tokens: 10,
+          messages: [{ role: 'user', content: 'Hello' }],
+        }),
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Anthropic connection test failed:', error);
+      return false;
+    }
+  }
+
+  private messagesUrl(): string {
+    return `${trimTrailingSlash(this.config.baseUrl)}/v1/messages`;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': this.config.apiVersion,
+    };
+  }
+
+  // No presence or frequency penalties in this API, and temperature tops out at
+  // 1. Current models reject temperature and top_p together, so a top_p below
+  // the default of 1 is sent instead of the temperature.
+  private requestBody(messages: AIMessage[], systemPrompt: string | undefined, tools: ChatToolDefinition[] | undefined, params: GenerationParams) {
+    const sampling = params.topP !== undefined && params.topP < 1
+      ? { top_p: params.topP }
+      : { temperature: Math.min(params.temperature, 1) };
+
+    return {
+      model: this.config.model,
+      max_tokens: params.maxTokens,
+      ...sampling,
+      stop_sequences: params.stop.length > 0 ? params.stop : undefined,
+      ...(systemPrompt ? { system: systemPrompt } : {}),
+      messages: this.formatMessages(messages, !!tools?.length),
+      ...(tools?.length ? {
+        tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+      } : {}),
+    };
+  }
+
+  // The API rejects tool_use and tool_result blocks in a request without tool
+  // definitions, so once tools are withdrawn earlier tool turns become text
+  private formatMessages(messages: AIMessage[], withTools: boolean) {
+    const turns: Array<{ role: 'user' | 'assistant'; content: any[] }> = [];
+
     messages.forEach(msg => {
-      const role = msg.role === 'assistant' ? 'Assistant' : 'Human';
-      prompt += `${role}: ${msg.content}\n\n`;
+      let role: 'user' | 'assistant' = msg.role === 'assistant' ? 'assistant' : 'user';
+      let blocks: any[];
+
+      if (msg.role === 'tool') {
+        blocks = withTools
+          ? [{ type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content }]
+          : [{ type: 'text', text: `[Tool result]\n${msg.content}` }];
+      } else if (msg.toolCalls?.length) {
+        role = 'assistant';
+        blocks = [
+          ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+          ...msg.toolCalls.map(call => withTools
+            ? { type: 'tool_use', id: call.id, name: call.name, input: call.arguments }
+            : { type: 'text', text: `[Called ${call.name} with ${JSON.stringify(call.arguments)}]` })
+        ];
+      } else {
+        blocks = [{ type: 'text', text: msg.content }];
+      }
+
+      const previous = turns[turns.length - 1];
+      if (previous?.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        turns.push({ role, content: blocks });
+      }
     });
-    
-    prompt += 'Assistant: ';
-    return prompt;
+
+    return turns;
+  }
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+export function createProvider(provider: AiProviderName, config: AiProviderSettings): AIProvider {
+  switch (provider) {
+    case 'azure':
+      return new AzureAIProvider(config as AzureConfig);
+    case 'openai_compatible':
+      return new OpenAICompatibleAIProvider(config as OpenAICompatibleConfig);
+    case 'anthropic':
+      return new AnthropicAIProvider(config as AnthropicConfig);
+    default:
+      return new OllamaAIProvider(config as OllamaConfig);
   }
 }
 
+/**
+ * Generates replies from the enabled provider profiles, in priority order.
+ *
+ * A profile that errors or exceeds its timeout is skipped in favour of the
+ * next one. After `failureThreshold` consecutive failures it is marked down
+ * and tried last until its cooldown ends. Routing rules move a profile to the
+ * front for particular intents.
+ */
 export class AIService {
-  private provider: AIProvider | null = null;
-  private config: AiConfig | null = null;
+  private profiles: ProfileEntry[] = [];
+  private routing: AiRoutingSettings = aiRoutingSettingsSchema.parse({});
+  private generation: GenerationSettings = generationSettingsSchema.parse({});
+  private health: Map<string, HealthRecord> = new Map();
+  private customInstructions?: string;
+  private maxToolRounds = 3;
 
-  setProvider(config: AiConfig) {
-    this.config = config;
-    
-    if (config.provider === 'azure') {
-      this.provider = new AzureAIProvider(config.config as AzureConfig & { deploymentName: string });
-    } else if (config.provider === 'ollama') {
-      this.provider = new OllamaAIProvider(config.config as OllamaConfig);
-    }
+  configure(profiles: AiProfile[], routing: AiRoutingSettings, generation: GenerationSettings, customInstructions?: string) {
+    this.profiles = profiles
+      .filter(profile => profile.enabled)
+      .sort((a, b) => a.priority - b.priority)
+      .map(profile => ({ profile, provider: createProvider(profile.provider, profile.config) }));
+    this.routing = routing;
+    this.generation = generation;
+    this.customInstructions = customInstructions;
+
+    const ids = new Set(profiles.map(profile => profile.id));
+    Array.from(this.health.keys()).forEach(id => {
+      if (!ids.has(id)) this.health.delete(id);
+    });
   }
 
+  // Tool calls are executed and their results fed back until the model
+  // answers in text, giving up on tools after a few rounds
   async generateResponse(
-    messages: { role: string; content: string }[], 
-    contextInfo?: string
+    messages: AIMessage[], 
+    contextInfo?: string,
+    options: AIRequestOptions = {}
   ): Promise<string> {
-    if (!this.provider) {
-      throw new Error('AI provider not configured');
+    const systemPrompt = this.buildSystemPrompt(contextInfo, options);
+    const conversation = [...messages];
+
+    for (let round = 0; ; round++) {
+      const tools = round < this.maxToolRounds ? options.tools : undefined;
+      const reply = await this.withFailover(options.intent, (provider, params, signal) => provider.generateResponse(conversation, systemPrompt, tools, params, signal));
+      if (reply.toolCalls.length === 0) {
+        return reply.content;
+      }
+      await this.runToolCalls(conversation, reply, options);
     }
+  }
+
+  async *streamResponse(
+    messages: AIMessage[], 
+    contextInfo?: string,
+    options: AIRequestOptions = {}
+  ): AsyncGenerator<string> {
+    const systemPrompt = this.buildSystemPrompt(contextInfo, options);
+    const conversation = [...messages];
+
+    for (let round = 0; ; round++) {
+      const tools = round < this.maxToolRounds ? options.tools : undefined;
+      const reply: AIProviderReply = { content: '', toolCalls: [] };
+      const events = this.streamWithFailover(options.intent, (provider, params, signal) => provider.streamResponse(conversation, systemPrompt, tools, params, signal));
+
+      for await (const event of events) {
+        if (event.type === 'text') {
+          reply.content += event.delta;
+          yield event.delta;
+        } else {
+          reply.toolCalls = event.toolCalls;
+        }
+      }
 
-    const systemPrompt = this.buildSystemPrompt(contextInfo);
-    return this.provider.generateResponse(messages, systemPrompt);
+      if (reply.toolCalls.length === 0) {
+        return;
+      }
+      await this.runToolCalls(conversation, reply, options);
+    }
+  }
+
+  // Single completion with a caller-supplied system prompt, for internal tasks
+  // such as classification rather than customer-facing replies
+  async complete(messages: AIMessage[], systemPrompt: string): Promise<string> {
+    const reply = await this.withFailover(undefined, (provider, params, signal) => provider.generateResponse(messages, systemPrompt, undefined, params, signal));
+    return reply.content;
+  }
+
+  isConfigured(): boolean {
+    return this.profiles.length > 0;
   }
 
   async testConnection(): Promise<boolean> {
-    return this.provider?.testConnection() || false;
+    return this.profiles[0]?.provider.testConnection() || false;
   }
 
-  private buildSystemPrompt(contextInfo?: string): string {
-    let prompt = `You are a helpful customer service representative for an e-commerce store. Your role is to:
+  getHealth(profileId: string): AiProfileHealth {
+    const health = this.health.get(profileId) || { requests: 0, failures: 0, consecutiveFailures: 0 };
+    const status = this.isDown(profileId) ? 'down' : health.consecutiveFailures > 0 ? 'degraded' : 'healthy';
+    return { ...health, status };
+  }
 
-1. Assist customers with their inquiries in a friendly, professional manner
-2. Help with order tracking, product recommendations, and general questions
-3. Ask relevant follow-up questions to better understand customer needs
-4. Provide accurate information based on the available data
-5. If you don't know something, politely say so and offer to help find the information
+  // The routed profile first, then by priority. Profiles that are down go last
+  // rather than being dropped, so a request can still succeed when all are.
+  private candidates(intent?: string): ProfileEntry[] {
+    const routedId = intent ? this.routing.rules.find(rule => rule.intent === intent)?.profileId : undefined;
+    const ordered = [
+      ...this.profiles.filter(entry => entry.profile.id === routedId),
+      ...this.profiles.filter(entry => entry.profile.id !== routedId)
+    ];
 
-Guidelines:
-- Be conversational and empathetic
-- Keep responses concise but helpful
-- Always maintain a positive, solution-oriented tone
-- Use the customer's name when appropriate
-- Offer additional assistance at the end of your responses`;
+    return [
+      ...ordered.filter(entry => !this.isDown(entry.profile.id)),
+      ...ordered.filter(entry => this.isDown(entry.profile.id))
+    ];
+  }
+
+  // Defaults, then the profile's own temperature, then the intent's overrides
+  private generationParams(profile: AiProfile, intent?: string): GenerationParams {
+    const { intent: _, ...override } = this.generation.intentOverrides.find(entry => entry.intent === intent) || {};
+    const profileTemperature = profile.provider === 'ollama' ? (profile.config as OllamaConfig).temperature : undefined;
+
+    return {
+      ...this.generation.defaults,
+      ...(profileTemperature !== undefined ? { temperature: profileTemperature } : {}),
+      ...Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined))
+    };
+  }
 
-    if (this.config?.customInstructions) {
-      prompt += `\n\nAdditional Instructions:\n${this.config.customInstructions}`;
+  // Each profile's timeout aborts its request, so a slow provider stops
+  // working on an answer another one has taken over
+  private async withFailover<T>(
+    intent: string | undefined,
+    call: (provider: AIProvider, params: GenerationParams, signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const candidates = this.candidates(intent);
+    if (candidates.length === 0) {
+      throw new Error('AI provider not configured');
     }
 
-    if (contextInfo) {
-      prompt += `\n\nRelevant Information:\n${contextInfo}`;
+    let lastError: unknown;
+    for (const { profile, provider } of candidates) {
+      const started = Date.now();
+      try {
+        const result = await call(provider, this.generationParams(profile, intent), AbortSignal.timeout(profile.timeoutMs));
+        this.recordSuccess(profile, Date.now() - started);
+        return result;
+      } catch (error) {
+        this.recordFailure(profile, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  // Fails over only until the first event: once text has reached the customer
+  // another provider cannot take over the answer. A failure after that still
+  // counts against the provider's health. The profile's timeout applies to the
+  // wait for each event rather than to the whole answer.
+  private async *streamWithFailover(
+    intent: string | undefined,
+    start: (provider: AIProvider, params: GenerationParams, signal: AbortSignal) => AsyncGenerator<AIStreamEvent>
+  ): AsyncGenerator<AIStreamEvent> {
+    const candidates = this.candidates(intent);
+    if (candidates.length === 0) {
+      throw new Error('AI provider not configured');
     }
 
-    return prompt;
+    let lastError: unknown;
+    for (const { profile, provider } of candidates) {
+      const started = Date.now();
+      const idle = new IdleTimeout(profile.timeoutMs, `AI profile "${profile.name}"`);
+      const stream = start(provider, this.generationParams(profile, intent), idle.signal);
+
+      try {
+        let first: IteratorResult<AIStreamEvent>;
+        try {
+          first = await stream.next();
+        } catch (error) {
+          this.recordFailure(profile, error);
+          lastError = error;
+          continue;
+        }
+
+        const latency = Date.now() - started;
+        try {
+          for (let next = first; !next.done; next = await stream.next()) {
+            yield next.value;
+            idle.reset();
+          }
+        } catch (error) {
+          this.recordFailure(profile, error);
+          throw error;
+        }
+        this.recordSuccess(profile, latency);
+        return;
+      } finally {
+        // Also stops the provider when the caller ends the stream early
+        idle.cancel();
+      }
+    }
+    throw lastError;
   }
 
-  async getOllamaModels(endpoint: string = 'http://localhost:11434'): Promise<string[]> {
-    try {
-      const response = await fetch(`${endpoint}/api/tags`);
-      if (!response.ok) return [];
-      
-      const data = await response.json();
-      return data.models?.map((model: any) => model.name) || [];
-    } catch (error) {
-      console.error('Failed to fetch Ollama models:', error);
-      return [];
+  private isDown(profileId: string): boolean {
+    const downUntil = this.health.get(profileId)?.downUntil;
+    return !!downUntil && Date.parse(downUntil) > Date.now();
+  }
+
+  private healthRecord(profileId: string): HealthRecord {
+    let health = this.health.get(profileId);
+    if (!health) {
+      health = { requests: 0, failures: 0, consecutiveFailures: 0 };
+      this.health.set(profileId, health);
     }
+    return health;
+  }
+
+  private recordSuccess(profile: AiProfile, latencyMs: number) {
+    const health = this.healthRecord(profile.id);
+    health.requests++;
+    health.consecutiveFailures = 0;
+    health.downUntil = undefined;
+    health.lastSuccessAt = new Date().toISOString();
+    // Moving average so one slow reply does not dominate
+    health.averageLatencyMs = health.averageLatencyMs === undefined
+      ? latencyMs
+      : Math.round(health.averageLatencyMs * 0.8 + latencyMs * 0.2);
+  }
+
+  private recordFailure(profile: AiProfile, error: unknown) {
+    const health = this.healthRecord(profile.id);
+    const message = error instanceof Error ? error.message : String(error);
+    health.requests++;
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = message;
+    health.lastFailureAt = new Date().toISOString();
+
+    if (health.consecutiveFailures >= this.routing.failureThreshold) {
+      health.downUntil = new Date(Date.now() + this.routing.cooldownSeconds * 1000).toISOString();
+      console.warn(`⚠️ AI profile "${profile.name}" marked down for ${this.routing.cooldownSeconds}s: ${message}`);
+    } else {
+      console.warn(`⚠️ AI profile "${profile.name}" failed, failing over: ${message}`);
+    }
+  }
+
+  private async runToolCalls(conversation: AIMessage[], reply: AIProviderReply, options: AIRequestOptions) {
+    conversation.push({ role: 'assistant', content: reply.content, toolCalls: reply.toolCalls });
+
+    for (const call of reply.toolCalls) {
+      console.log(`✓ Running tool ${call.name}`);
+      const args = options.mapToolArguments ? options.mapToolArguments(call.arguments) : call.arguments;
+      const result = await executeToolCall({ ...call, arguments: args });
+      options.onToolResult?.(result);
+      const content = options.mapToolResult ? options.mapToolResult(result.content) : result.content;
+      conversation.push({ role: 'tool', content, toolCallId: call.id });
+    }
+  }
+
+  // Renders the active prompt template, or `template` when previewing an edit
+  buildSystemPrompt(contextInfo?: string, options: AIRequestOptions = {}, template = promptTemplateService.getActiveTemplate()): string {
+    return renderPromptTemplate(template, {
+      storeName: storeConfig.name,
+      customerName: options.customerName,
+      intent: options.intent?.replace(/_/g, ' '),
+      context: contextInfo,
+      today: new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+      customInstructions: this.customInstructions
+    });
   }
 }
 
@@ -0,0 +1,46 @@
+import '../test/setup';
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { chatSessionService } from './chat-session';
+import { vectorStorage } from './vector-storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The prune timer is created on first use, so the clock is mocked before it
+mock.timers.enable({ apis: ['Date', 'setInterval'], now: Date.parse('2026-01-01T00:00:00Z') });
+
+test('issues tokens that verify, and rejects altered ones', async () => {
+  const { session, token } = await chatSessionService.create('Dana');
+  assert.equal(chatSessionService.verify(token)?.id, session.id);
+
+  const [payload, signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ sid: 'session_other', exp: Date.now() + DAY_MS })).toString('base64url');
+  assert.equal(chatSessionService.verify(`${forged}.${signature}`), null);
+  assert.equal(chatSessionService.verify(`${payload}.${signature.slice(0, -1)}x`), null);
+  assert.equal(chatSessionService.verify('not-a-token'), null);
+  assert.equal(chatSessionService.verify(undefined), null);
+});
+
+test('resume extends a session and keeps its identity', async () => {
+  const { session, token } = await chatSessionService.create();
+  mock.timers.tick(DAY_MS);
+
+  const resumed = await chatSessionService.resume(token, 'Dana');
+  assert.equal(resumed?.session.id, session.id);
+  assert.equal(resumed?.session.customerName, 'Dana');
+  assert.ok(Date.parse(resumed!.session.expiresAt) > Date.parse(session.expiresAt));
+  assert.equal(chatSessionService.verify(resumed!.token)?.id, session.id);
+});
+
+test('expired sessions stop verifying and their records are pruned', async () => {
+  const { token } = await chatSessionService.create();
+  assert.ok((await vectorStorage.getChatSessions()).length > 0);
+
+  // Past the 30-day default lifetime; the hourly prune runs along the way
+  mock.timers.tick(31 * DAY_MS);
+  assert.equal(chatSessionService.verify(token), null);
+  assert.equal(await chatSessionService.resume(token), null);
+
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepEqual(await vectorStorage.getChatSessions(), []);
+});
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { ChatSessionRecord } from '@shared/schema';
+import { chatSessionConfig } from '../config';
+import { vectorStorage } from './vector-storage';
+
+interface TokenPayload {
+  sid: string;
+  exp: number; // Unix time in milliseconds
+}
+
+export interface IssuedChatSession {
+  session: ChatSessionRecord;
+  token: string;
+}
+
+const SECRET_SETTINGS_KEY = 'chat_session_secret';
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Server-issued customer chat sessions.
+ *
+ * A token is `<payload>.<signature>`: the base64url JSON payload names the
+ * session and its expiry, and the signature is an HMAC-SHA256 over it. The
+ * server also keeps a record per session, so a token is only honoured while
+ * its record exists and has not expired.
+ */
+export class ChatSessionService {
+  private secret: Buffer | null = null;
+  private sessions: Map<string, ChatSessionRecord> = new Map();
+  private initPromise: Promise<void> | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    if (chatSessionConfig.secret) {
+      this.secret = Buffer.from(chatSessionConfig.secret);
+    } else {
+      let stored = await vectorStorage.getSettings<string>(SECRET_SETTINGS_KEY);
+      if (!stored) {
+        stored = crypto.randomBytes(32).toString('hex');
+        await vectorStorage.saveSettings(SECRET_SETTINGS_KEY, stored);
+        console.warn('⚠️ CHAT_SESSION_SECRET not set, generated a chat session signing secret');
+      }
+      this.secret = Buffer.from(stored);
+    }
+
+    (await vectorStorage.getChatSessions()).forEach(session => this.sessions.set(session.id, session));
+    await this.pruneExpired();
+
+    if (!this.pruneTimer) {
+      this.pruneTimer = setInterval(() => {
+        this.pruneExpired().catch(error => console.error('Failed to remove expired chat sessions:', error));
+      }, PRUNE_INTERVAL_MS);
+      this.pruneTimer.unref();
+    }
+  }
+
+  // Abandoned sessions are never resumed, so their records are dropped once they expire
+  private async pruneExpired() {
+    const now = Date.now();
+    const expired = Array.from(this.sessions.values())
+      .filter(session => Date.parse(session.expiresAt) <= now)
+      .map(session => session.id);
+    if (expired.length === 0) return;
+
+    expired.forEach(id => this.sessions.delete(id));
+    await vectorStorage.deleteChatSessions(expired);
+    console.log(`✓ Removed ${expired.length} expired chat sessions`);
+  }
+
+  async create(customerName?: string): Promise<IssuedChatSession> {
+    await this.initialize();
+
+    const now = new Date();
+    const session: ChatSessionRecord = {
+      id: `session_${crypto.randomUUID()}`,
+      createdAt: now.toISOString(),
+      lastSeenAt: now.toISOString(),
+      expiresAt: this.nextExpiry(now).toISOString(),
+      ...(customerName ? { customerName } : {})
+    };
+
+    await vectorStorage.saveChatSession(session);
+    this.sessions.set(session.id, session);
+    return { session, token: this.sign({ sid: session.id, exp: Date.parse(session.expiresAt) }) };
+  }
+
+  // Extends a valid session and issues a fresh token for it. A customer name
+  // replaces the stored one, e.g. after the customer signs in.
+  async resume(token: string, customerName?: string): Promise<IssuedChatSession | null> {
+    await this.initialize();
+
+    const current = this.verify(token);
+    if (!current) return null;
+
+    const now = new Date();
+    const session: ChatSessionRecord = {
+      ...current,
+      lastSeenAt: now.toISOString(),
+      expiresAt: this.nextExpiry(now).toISOString(),
+      ...(customerName ? { customerName } : {})
+    };
+
+    await vectorStorage.saveChatSession(session);
+    this.sessions.set(session.id, session);
+    return { session, token: this.sign({ sid: session.id, exp: Date.parse(session.expiresAt) }) };
+  }
+
+  // For the output guardrail, which withholds answers that contain it
+  getSigningSecret(): string | null {
+    return this.secret ? this.secret.toString('utf8') : null;
+  }
+
+  verify(token: string | undefined): ChatSessionRecord | null {
+    if (!token || !this.secret) return null;
+
+    const [encodedPayload, signature] = token.split('.');
+    if (!encodedPayload || !signature) return null;
+
+    const expected = this.signature(encodedPayload);
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      return null;
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    const session = this.sessions.get(payload.sid);
+    const now = Date.now();
+    // Expired sessions are left for pruneExpired, which also deletes their records
+    if (!session || payload.exp <= now || Date.parse(session.expiresAt) <= now) {
+      return null;
+    }
+
+    session.lastSeenAt = new Date(now).toISOString();
+    return session;
+  }
+
+  // Bearer header first, then the cookie. EventSource cannot set headers but
+  // sends the cookie, so tokens never travel in URLs where they would be logged.
+  getToken(req: Request): string | undefined {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) {
+      return header.slice(7).trim();
+    }
+
+    return readCookie(req.headers.cookie, chatSessionConfig.cookieName);
+  }
+
+  setCookie(res: Response, issued: IssuedChatSession) {
+    res.cookie(chatSessionConfig.cookieName, issued.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      expires: new Date(issued.session.expiresAt),
+      path: '/api/chat'
+    });
+  }
+
+  private sign(payload: TokenPayload): string {
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encodedPayload}.${this.signature(encodedPayload).toString('utf8')}`;
+  }
+
+  private signature(encodedPayload: string): Buffer {
+    return Buffer.from(crypto.createHmac('sha256', this.secret!).update(encodedPayload).digest('base64url'));
+  }
+
+  private nextExpiry(from: Date): Date {
+    return new Date(from.getTime() + chatSessionConfig.ttlHours * 60 * 60 * 1000);
+  }
+}
+
+function readCookie(header: string | undefined, name: string): string | undefined {
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    if (part.slice(0, index).trim() === name) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+export const chatSessionService = new ChatSessionService();
+
+// Rejects chat requests without a valid session token and exposes the
+// session as `res.locals.chatSession`
+export function requireChatSession(req: Request, res: Response, next: NextFunction) {
+  const session = chatSessionService.verify(chatSessionService.getToken(req));
+  if (!session) {
+    return res.status(401).json({
+      error: "Invalid chat session",
+      message: "Your chat session has expired. Please reload the chat to start a new one."
+    });
+  }
+
+  res.locals.chatSession = session;
+  next();
+}
@@ -0,0 +1,149 @@
+import { orderTrackingSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { buildOrderTrackingResponse, getShippingStatus, OrderTrackingResponse } from './order-tracking';
+
+// Function the model may call mid-conversation. `parameters` is a JSON schema,
+// passed as-is to providers with native tool calling.
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  // JSON handed back to the model
+  content: string;
+  // Structured payload for the chat widget
+  orderTracking?: OrderTrackingResponse;
+}
+
+export const trackOrderTool: ChatToolDefinition = {
+  name: 'track_order',
+  description: 'Look up the status and progress timeline of a customer order. Requires both the order number (for example ORD-2024-001) and the email address used for the order. Ask the customer for whichever is missing instead of guessing.',
+  parameters: {
+    type: 'object',
+    properties: {
+      orderId: {
+        type: 'string',
+        description: 'Order number or order ID'
+      },
+      email: {
+        type: 'string',
+        description: 'Email address the order was placed with'
+      }
+    },
+    required: ['orderId', 'email']
+  }
+};
+
+export const chatTools: ChatToolDefinition[] = [trackOrderTool];
+
+export async function executeToolCall(call: ToolCall): Promise<ToolResult> {
+  const result = (content: Record<string, any>, extra: Partial<ToolResult> = {}): ToolResult => ({
+    callId: call.id,
+    name: call.name,
+    content: JSON.stringify(content),
+    ...extra
+  });
+
+  try {
+    switch (call.name) {
+      case trackOrderTool.name: {
+        const validation = orderTrackingSchema.safeParse(call.arguments);
+        if (!validation.success) {
+          return result({
+            error: 'invalid_arguments',
+            message: validation.error.errors.map(e => e.message).join('; ')
+          });
+        }
+
+        const { orderId, email } = validation.data;
+        const order = await storage.getOrderByIdAndEmail(orderId.trim(), email.trim());
+        if (!order) {
+          return result({
+            error: 'order_not_found',
+            message: `No order found with ID "${orderId}" for email "${email}".`
+          });
+        }
+
+        const tracking = buildOrderTrackingResponse(order);
+        return result({
+          orderNumber: tracking.order.orderNumber,
+          orderDate: tracking.order.orderDate,
+          status: tracking.order.status,
+          shippingStatus: getShippingStatus(order.shippingStatusId || 10),
+          customerName: tracking.order.customer.name,
+          timeline: tracking.timeline.map(item => ({ status: item.status, date: item.date }))
+        }, { orderTracking: tracking });
+      }
+      default:
+        return result({ error: 'unknown_tool', message: `Unknown tool "${call.name}"` });
+    }
+  } catch (error) {
+    console.error(`Tool ${call.name} failed:`, error);
+    return result({ error: 'tool_failed', message: 'The lookup failed. Apologise and suggest trying again later.' });
+  }
+}
+
+// Text protocol for models without native tool calling: the model replies with
+// a single `TOOL_CALL: {...}` line, which is parsed and executed like a native call
+export const TEXT_TOOL_CALL_PREFIX = 'TOOL_CALL:';
+
+export function describeToolsForPrompt(tools: ChatToolDefinition[]): string {
+  const lines = tools.map(tool => `- ${tool.name}: ${tool.description}\n  Arguments (JSON schema): ${JSON.stringify(tool.parameters)}`);
+
+  return `Tools:
+You can call the tools below. To call one, reply with exactly one line and nothing else:
+${TEXT_TOOL_CALL_PREFIX} {"name": "<tool name>", "arguments": {...}}
+The result will be sent back to you as a Tool message; use it to answer the customer.
+
+${lines.join('\n')}`;
+}
+
+// True while a partial reply could still turn out to be a text tool call
+export function mayBeTextToolCall(text: string): boolean {
+  const lead = text.trimStart();
+  return lead.length < TEXT_TOOL_CALL_PREFIX.length
+    ? TEXT_TOOL_CALL_PREFIX.startsWith(lead)
+    : lead.startsWith(TEXT_TOOL_CALL_PREFIX);
+}
+
+export function parseTextToolCall(text: string): ToolCall | null {
+  const lead = text.trim();
+  if (!lead.startsWith(TEXT_TOOL_CALL_PREFIX)) return null;
+
+  const body = lead.slice(TEXT_TOOL_CALL_PREFIX.length);
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start === -1 || end < start) return null;
+
+  try {
+    const parsed = JSON.parse(body.slice(start, end + 1));
+    if (typeof parsed.name !== 'string') return null;
+
+    return {
+      id: `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: parsed.name,
+      arguments: parsed.arguments && typeof parsed.arguments === 'object' ? parsed.arguments : {}
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function parseToolArguments(raw: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,223 @@
+import { ChunkingConfig, ChunkingSettings, ChunkingStrategy, chunkingSettingsSchema } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+import type { DocumentSection } from './vector-storage';
+
+// Splits one section of a document. The chunks keep the section's page and
+// heading path; a chunker that finds headings of its own extends the path.
+export interface Chunker {
+  strategy: ChunkingStrategy;
+  split(section: DocumentSection, config: ChunkingConfig): DocumentSection[];
+}
+
+export interface ChunkedDocument {
+  config: ChunkingConfig;
+  chunks: DocumentSection[];
+}
+
+const SETTINGS_KEY = 'chunking_settings';
+// Coarsest first; the empty separator cuts between characters
+const RECURSIVE_SEPARATORS = ['\n\n', '\n', '. ', ' ', ''];
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Splits knowledge documents into the chunks that are embedded and retrieved.
+ * Each knowledge type can use its own strategy, chunk size and overlap.
+ */
+export class ChunkingService {
+  private chunkers = new Map<ChunkingStrategy, Chunker>();
+  private settings: ChunkingSettings = chunkingSettingsSchema.parse({});
+  private initPromise: Promise<void> | null = null;
+
+  constructor() {
+    this.registerChunker({
+      strategy: 'sentence',
+      split: (section, config) => withText(section, pack(sentenceUnits(section.text, config), config))
+    });
+    this.registerChunker({
+      strategy: 'paragraph',
+      split: (section, config) => withText(section, pack(paragraphUnits(section.text, config), config))
+    });
+    this.registerChunker({
+      strategy: 'heading',
+      split: (section, config) => headingSections(section).flatMap(part =>
+        withText(part, pack(paragraphUnits(part.text, config), config)))
+    });
+    this.registerChunker({
+      strategy: 'token',
+      split: (section, config) => withText(section, pack(section.text.match(/\S+\s*/g) || [], config, estimateTokens))
+    });
+    this.registerChunker({
+      strategy: 'recursive',
+      split: (section, config) => withText(section, pack(recursiveUnits(section.text, config.chunkSize), config))
+    });
+  }
+
+  registerChunker(chunker: Chunker) {
+    this.chunkers.set(chunker.strategy, chunker);
+  }
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    const saved = await vectorStorage.getSettings<ChunkingSettings>(SETTINGS_KEY);
+    this.settings = chunkingSettingsSchema.parse(saved || {});
+  }
+
+  getSettings(): ChunkingSettings {
+    return this.settings;
+  }
+
+  // Only documents added afterwards are chunked with the new settings
+  async saveSettings(settings: ChunkingSettings): Promise<ChunkingSettings> {
+    await this.initialize();
+    this.settings = await vectorStorage.saveSettings(SETTINGS_KEY, settings);
+    return this.settings;
+  }
+
+  getConfig(type: string, settings: ChunkingSettings = this.settings): ChunkingConfig {
+    return settings.byType[type] || settings.default;
+  }
+
+  // Documents without sections are chunked as a single section. `settings`
+  // replaces the saved settings, e.g. to preview unsaved changes.
+  async chunkDocument(document: {
+    content: string;
+    type: string;
+    sections?: DocumentSection[];
+  }, settings?: ChunkingSettings): Promise<ChunkedDocument> {
+    await this.initialize();
+
+    const chunkConfig = this.getConfig(document.type, settings);
+    const chunker = this.chunkers.get(chunkConfig.strategy) || this.chunkers.get('recursive')!;
+    const sections = document.sections || [{ text: document.content }];
+
+    return {
+      config: chunkConfig,
+      chunks: sections.flatMap(section => chunker.split(section, chunkConfig))
+    };
+  }
+}
+
+function withText(section: DocumentSection, texts: string[]): DocumentSection[] {
+  return texts.map(text => ({ ...section, text }));
+}
+
+// Joins consecutive units into chunks of at most `chunkSize`. Each chunk after
+// the first starts with the trailing units of the previous one that fit in the
+// overlap. Units keep their trailing separator, so joining them restores the text.
+function pack(units: string[], config: ChunkingConfig, measure: (text: string) => number = text => text.length): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentSize = 0;
+  // Units of the current chunk that are not repeated from the previous one
+  let added = 0;
+
+  units.forEach(unit => {
+    const unitSize = measure(unit);
+    if (added > 0 && currentSize + unitSize > config.chunkSize) {
+      chunks.push(current.join(''));
+
+      const carried: string[] = [];
+      let carriedSize = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const size = measure(current[i]);
+        if (carriedSize + size > config.overlap || carriedSize + size + unitSize > config.chunkSize) break;
+        carried.unshift(current[i]);
+        carriedSize += size;
+      }
+      current = carried;
+      currentSize = carriedSize;
+      added = 0;
+    }
+
+    current.push(unit);
+    currentSize += unitSize;
+    added++;
+  });
+  if (added > 0) chunks.push(current.join(''));
+
+  return chunks.map(chunk => chunk.trim()).filter(Boolean);
+}
+
+function splitKeepingSeparator(text: string, separator: string): string[] {
+  const parts = text.split(separator);
+  return parts.map((part, index) => index < parts.length - 1 ? part + separator : part).filter(Boolean);
+}
+
+// Splits on the coarsest separator that occurs, and splits any piece that is
+// still too long on the next one
+function recursiveUnits(text: string, chunkSize: number, separators: string[] = RECURSIVE_SEPARATORS): string[] {
+  if (text.length <= chunkSize) return [text];
+
+  const index = separators.findIndex(separator => !separator || text.includes(separator));
+  const separator = separators[index];
+  if (!separator) {
+    const pieces: string[] = [];
+    for (let start = 0; start < text.length; start += chunkSize) {
+      pieces.push(text.slice(start, start + chunkSize));
+    }
+    return pieces;
+  }
+
+  return splitKeepingSeparator(text, separator).flatMap(piece =>
+    recursiveUnits(piece, chunkSize, separators.slice(index + 1)));
+}
+
+// A sentence ends at a line break or at punctuation followed by a space, so
+// prices such as 9.50 stay whole
+function sentenceUnits(text: string, config: ChunkingConfig): string[] {
+  const sentences = (text.match(/(?:[^.!?\n]|[.!?](?=[^\s"')\]]))*(?:[.!?]+["')\]]*|\n|$)\s*/g) || []).filter(Boolean);
+  return sentences.flatMap(sentence => recursiveUnits(sentence, config.chunkSize, [' ', '']));
+}
+
+// Paragraphs too long for a chunk fall back to sentences
+function paragraphUnits(text: string, config: ChunkingConfig): string[] {
+  return splitKeepingSeparator(text, '\n\n').flatMap(paragraph =>
+    paragraph.length > config.chunkSize ? sentenceUnits(paragraph, config) : [paragraph]);
+}
+
+// Splits at Markdown headings, so no chunk spans two headed sections. Each
+// part's heading path continues the section's own.
+function headingSections(section: DocumentSection): DocumentSection[] {
+  const parts: DocumentSection[] = [];
+  const stack: { level: number; text: string }[] = [];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      const headings = [...(section.headings || []), ...stack.map(heading => heading.text)];
+      parts.push({ ...section, text, headings: headings.length > 0 ? headings : undefined });
+    }
+    lines = [];
+  };
+
+  section.text.split('\n').forEach(line => {
+    const match = line.match(MARKDOWN_HEADING);
+    if (match) {
+      flush();
+      const level = match[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, text: match[2] });
+    }
+    lines.push(line);
+  });
+  flush();
+
+  return parts;
+}
+
+// Close to what BPE tokenizers produce for English prose
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.trim().length / 4));
+}
+
+export const chunkingService = new ChunkingService();
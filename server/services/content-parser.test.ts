@@ -0,0 +1,45 @@
+import { testDir } from '../test/setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { buildZip } from '../test/zip';
+import { contentParser, UnreadableDocumentError } from './content-parser';
+
+const DOCUMENT_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>
+<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Returns</w:t></w:r></w:p>
+<w:p><w:r><w:t>Items can be returned within 30 days.</w:t></w:r></w:p>
+</w:body></w:document>`;
+
+function writeDocx(name: string, entries: Parameters<typeof buildZip>[0]): string {
+  const filePath = path.join(testDir, name);
+  fs.writeFileSync(filePath, buildZip(entries));
+  return filePath;
+}
+
+test('reads the text of a Word document', async () => {
+  const filePath = writeDocx('plain.docx', [{ name: 'word/document.xml', data: Buffer.from(DOCUMENT_XML) }]);
+  const parsed = await contentParser.parseDocx(filePath, 'Policies');
+  assert.match(parsed.content, /returned within 30 days/);
+});
+
+test('rejects a document whose XML inflates past the cap', async () => {
+  // A few hundred KB on disk
+  const filePath = writeDocx('bomb.docx', [{ name: 'word/document.xml', data: Buffer.alloc(64 * 1024 * 1024, 0x20) }]);
+  await assert.rejects(contentParser.parseDocx(filePath, 'Bomb'), (error: unknown) =>
+    error instanceof UnreadableDocumentError && /larger than 5 MB/.test(error.message));
+});
+
+test('rejects an oversized entry whose header claims it is small', async () => {
+  const filePath = writeDocx('lying.docx', [
+    { name: 'word/document.xml', data: Buffer.alloc(16 * 1024 * 1024, 0x20), declaredSize: 1024 }
+  ]);
+  await assert.rejects(contentParser.parseDocx(filePath, 'Lying'), UnreadableDocumentError);
+});
+
+test('rejects a file that is not a ZIP archive', async () => {
+  const filePath = path.join(testDir, 'not-a-zip.docx');
+  fs.writeFileSync(filePath, 'plain text');
+  await assert.rejects(contentParser.parseDocx(filePath, 'Text'), /not a Word document/);
+});
@@ -1,8 +1,11 @@
 import fs from 'fs';
 import path from 'path';
 import * as cheerio from 'cheerio';
+import yauzl from 'yauzl';
 import { parseString } from 'xml2js';
+import pdf from 'pdf-parse/lib/pdf-parse.js';
 import { ragService } from './rag-service';
+import type { DocumentSection } from './vector-storage';
 
 export interface ParsedContent {
   title: string;
@@ -10,12 +13,425 @@ export interface ParsedContent {
   type: string;
   sourceUrl?: string;
   metadata?: Record<string, any>;
+  // Pages or headed sections; chunks keep their page number and heading path
+  sections?: DocumentSection[];
 }
 
+// Turns an uploaded file into knowledge
+export interface DocumentParser {
+  format: string;
+  mimeTypes: string[];
+  // Lower case, with the leading dot
+  extensions: string[];
+  parse(filePath: string, title: string): Promise<ParsedContent>;
+}
+
+// An uploaded file that cannot be turned into knowledge, such as a scanned PDF.
+// The message is meant for the admin who uploaded it.
+export class UnreadableDocumentError extends Error {}
+
+// A paragraph or heading of a document, in reading order
+interface TextBlock {
+  text: string;
+  // Heading level, 1 for the top level; absent for body text
+  level?: number;
+}
+
+// Pages with less text than this are taken to be images without a text layer
+const MIN_PAGE_TEXT_LENGTH = 20;
+// Table rows are grouped into sections of about this many characters
+const MAX_TABLE_SECTION_LENGTH = 900;
+// Uploads are capped at 10 MB, but a small archive can inflate to gigabytes.
+// The XML is parsed whole, so it is capped well below what would strain memory.
+const MAX_DOCX_XML_BYTES = 5 * 1024 * 1024;
+const QUESTION_COLUMNS = ['q', 'question', 'questions', 'faq'];
+const ANSWER_COLUMNS = ['a', 'answer', 'answers', 'response'];
+const CATEGORY_COLUMNS = ['category', 'topic', 'section'];
+
 export class ContentParser {
+  private parsers: DocumentParser[] = [];
+
+  constructor() {
+    this.registerParser({
+      format: 'pdf',
+      mimeTypes: ['application/pdf'],
+      extensions: ['.pdf'],
+      parse: (filePath, title) => this.parsePDF(filePath, title)
+    });
+    this.registerParser({
+      format: 'docx',
+      mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+      extensions: ['.docx'],
+      parse: (filePath, title) => this.parseDocx(filePath, title)
+    });
+    this.registerParser({
+      format: 'markdown',
+      mimeTypes: ['text/markdown', 'text/x-markdown'],
+      extensions: ['.md', '.markdown'],
+      parse: (filePath, title) => this.parseMarkdown(filePath, title)
+    });
+    this.registerParser({
+      format: 'html',
+      mimeTypes: ['text/html', 'application/xhtml+xml'],
+      extensions: ['.html', '.htm'],
+      parse: (filePath, title) => this.parseHtmlFile(filePath, title)
+    });
+    this.registerParser({
+      format: 'csv',
+      mimeTypes: ['text/csv', 'application/csv'],
+      extensions: ['.csv'],
+      parse: (filePath, title) => this.parseDelimited(filePath, title, ',')
+    });
+    this.registerParser({
+      format: 'tsv',
+      mimeTypes: ['text/tab-separated-values'],
+      extensions: ['.tsv', '.tab'],
+      parse: (filePath, title) => this.parseDelimited(filePath, title, '\t')
+    });
+    this.registerParser({
+      format: 'json',
+      mimeTypes: ['application/json'],
+      extensions: ['.json'],
+      parse: (filePath, title) => this.parseJson(filePath, title)
+    });
+    this.registerParser({
+      format: 'text',
+      mimeTypes: ['text/plain'],
+      extensions: ['.txt', '.text'],
+      parse: (filePath, title) => this.parseText(filePath, title)
+    });
+  }
+
+  registerParser(parser: DocumentParser) {
+    this.parsers.push(parser);
+  }
+
+  // The extension decides first, since browsers report many text formats as
+  // text/plain or application/octet-stream
+  findParser(fileName: string, mimeType: string): DocumentParser | undefined {
+    const extension = path.extname(fileName).toLowerCase();
+    return this.parsers.find(parser => parser.extensions.includes(extension))
+      || this.parsers.find(parser => parser.mimeTypes.includes(mimeType));
+  }
+
+  getSupportedExtensions(): string[] {
+    return this.parsers.flatMap(parser => parser.extensions);
+  }
+
   async parsePDF(filePath: string, title?: string): Promise<ParsedContent> {
-    // PDF parsing temporarily disabled - will implement with different library
-    throw new Error('PDF parsing temporarily unavailable. Please use text files or website URLs instead.');
+    const data = await fs.promises.readFile(filePath);
+    if (data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new UnreadableDocumentError('The file is not a PDF document.');
+    }
+
+    const pages: string[] = [];
+    let result;
+    try {
+      // pdf.js reads the whole underlying ArrayBuffer, and small files share
+      // Node's buffer pool, so the bytes are copied out first
+      result = await pdf(new Uint8Array(data), {
+        pagerender: async page => {
+          const text = await extractPageText(page);
+          pages[page.pageNumber - 1] = text;
+          return text;
+        }
+      });
+    } catch (error) {
+      console.error('Error parsing PDF:', error);
+      throw new UnreadableDocumentError('The PDF could not be read. It may be damaged or password-protected.');
+    }
+
+    // Pages that failed to render count as pages without text
+    const pageTexts = Array.from({ length: result.numpages }, (_, index) => cleanText(pages[index] || ''));
+    const pagesWithoutText = pageTexts
+      .map((text, index) => text.replace(/\s/g, '').length < MIN_PAGE_TEXT_LENGTH ? index + 1 : 0)
+      .filter(page => page > 0);
+
+    if (pagesWithoutText.length === pageTexts.length) {
+      throw new UnreadableDocumentError('No text found in this PDF. It looks like a scanned or image-only document; run it through OCR and upload the result.');
+    }
+
+    return {
+      title: title?.trim() || result.info?.Title?.trim() || 'PDF Document',
+      content: pageTexts.filter(Boolean).join('\n\n'),
+      type: 'pdf',
+      sections: pageTexts.map((text, index) => ({ text, page: index + 1 })),
+      metadata: {
+        pageCount: pageTexts.length,
+        pagesWithoutText,
+        author: result.info?.Author || undefined,
+        parsedAt: new Date().toISOString()
+      }
+    };
+  }
+
+  // Word documents: paragraphs styled as headings start sections, and table
+  // rows become "cell | cell" lines
+  async parseDocx(filePath: string, title: string): Promise<ParsedContent> {
+    let xml: string;
+    try {
+      xml = (await readZipEntry(filePath, 'word/document.xml', MAX_DOCX_XML_BYTES)).toString('utf8');
+    } catch (error) {
+      if (error instanceof UnreadableDocumentError) throw error;
+      console.error('Error reading DOCX:', error);
+      throw new UnreadableDocumentError('The file is not a Word document. Save older .doc files as .docx before uploading.');
+    }
+
+    const $ = cheerio.load(xml, { xml: true });
+    const paragraphText = (element: any) => $(element).find('w\\:t, w\\:tab, w\\:br, w\\:cr')
+      .map((_, node) => node.tagName === 'w:t' ? $(node).text() : node.tagName === 'w:tab' ? '\t' : '\n')
+      .get()
+      .join('')
+      .trim();
+
+    const blocks: TextBlock[] = [];
+    $('w\\:body').find('w\\:p, w\\:tbl')
+      .filter((_, element) => $(element).parents('w\\:tbl').length === 0)
+      .each((_, element) => {
+        if (element.tagName === 'w:tbl') {
+          const rows = $(element).find('w\\:tr').map((_, row) => $(row).find('w\\:tc')
+            .map((_, cell) => $(cell).find('w\\:p').map((_, p) => paragraphText(p)).get().join(' '))
+            .get()
+            .join(' | ')
+          ).get();
+          blocks.push({ text: rows.join('\n') });
+          return;
+        }
+
+        const style = $(element).find('w\\:pStyle').attr('w:val') || '';
+        const outlineLevel = $(element).find('w\\:outlineLvl').attr('w:val');
+        const heading = style.match(/^heading\s?(\d)$/i);
+        const level = style.toLowerCase() === 'title' ? 1
+          : heading ? parseInt(heading[1], 10)
+          : outlineLevel !== undefined ? parseInt(outlineLevel, 10) + 1
+          : undefined;
+        blocks.push({ text: paragraphText(element), level });
+      });
+
+    return this.fromBlocks(blocks, title, 'docx');
+  }
+
+  async parseMarkdown(filePath: string, title: string): Promise<ParsedContent> {
+    const lines = (await readTextFile(filePath)).replace(/^---\n[\s\S]*?\n---\n/, '').split('\n');
+
+    const blocks: TextBlock[] = [];
+    let paragraph: string[] = [];
+    let fence: string | null = null;
+    const endParagraph = () => {
+      if (paragraph.length > 0) blocks.push({ text: stripMarkdown(paragraph.join('\n')) });
+      paragraph = [];
+    };
+
+    for (const line of lines) {
+      const fenceMarker = line.match(/^\s*(```|~~~)/)?.[1];
+      if (fence || fenceMarker) {
+        // Code blocks are kept as they are, including lines starting with #
+        if (fenceMarker && (!fence || fenceMarker === fence)) {
+          fence = fence ? null : fenceMarker;
+        } else {
+          paragraph.push(line);
+        }
+        continue;
+      }
+
+      const atx = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (atx) {
+        endParagraph();
+        blocks.push({ text: stripMarkdown(atx[2]), level: atx[1].length });
+      } else if (/^(=+|-+)\s*$/.test(line) && paragraph.length === 1) {
+        // Setext heading: a single line underlined with = or -
+        blocks.push({ text: stripMarkdown(paragraph[0]), level: line.startsWith('=') ? 1 : 2 });
+        paragraph = [];
+      } else if (!line.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+        endParagraph();
+      } else {
+        paragraph.push(line);
+      }
+    }
+    endParagraph();
+
+    return this.fromBlocks(blocks, title, 'markdown');
+  }
+
+  async parseHtmlFile(filePath: string, title: string): Promise<ParsedContent> {
+    const $ = cheerio.load(await readTextFile(filePath));
+    $('script, style, noscript, template, nav, footer, aside').remove();
+
+    const selector = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, tr, dt, dd, figcaption';
+    const blocks: TextBlock[] = [];
+    $('body').find(selector)
+      // A paragraph inside a list item is part of the item's text
+      .filter((_, element) => $(element).parents(selector).length === 0)
+      .each((_, element) => {
+        const node = $(element);
+        const heading = element.tagName.match(/^h(\d)$/i);
+        const text = element.tagName === 'tr'
+          ? node.children('td, th').map((_, cell) => $(cell).text().replace(/\s+/g, ' ').trim()).get().join(' | ')
+          : element.tagName === 'pre' ? node.text() : node.text().replace(/\s+/g, ' ').trim();
+        blocks.push({ text, level: heading ? parseInt(heading[1], 10) : undefined });
+      });
+
+    // Pages built from bare divs have none of the block elements above
+    if (blocks.length === 0) {
+      blocks.push({ text: $('body').text().replace(/\s+/g, ' ').trim() });
+    }
+
+    const pageTitle = $('title').text().trim();
+    return this.fromBlocks(blocks, title || pageTitle, 'html');
+  }
+
+  async parseText(filePath: string, title: string): Promise<ParsedContent> {
+    const content = cleanText(await readTextFile(filePath));
+    if (!content) {
+      throw new UnreadableDocumentError('The file is empty.');
+    }
+
+    return {
+      title,
+      content,
+      type: 'text',
+      metadata: { parsedAt: new Date().toISOString() }
+    };
+  }
+
+  // Spreadsheets with question and answer columns become one Q&A section per
+  // row. Other tables, such as size charts, are chunked by rows with every
+  // value labelled by its column, so a chunk reads on its own.
+  async parseDelimited(filePath: string, title: string, delimiter: string): Promise<ParsedContent> {
+    const [header, ...rows] = parseDelimitedRows(await readTextFile(filePath), delimiter)
+      .filter(row => row.some(cell => cell.trim()));
+    if (!header || rows.length === 0) {
+      throw new UnreadableDocumentError('The file has no rows below the header row.');
+    }
+
+    const columns = header.map(column => column.trim());
+    const lowerColumns = columns.map(column => column.toLowerCase());
+    const question = lowerColumns.findIndex(column => QUESTION_COLUMNS.includes(column));
+    const answer = lowerColumns.findIndex(column => ANSWER_COLUMNS.includes(column));
+    const describeRow = (row: string[], skip: number[] = []) => columns
+      .map((column, index) => skip.includes(index) || !row[index]?.trim() ? '' : `${column}: ${row[index].trim()}`)
+      .filter(Boolean);
+
+    let sections: DocumentSection[];
+    if (question !== -1 && answer !== -1) {
+      sections = rows
+        .filter(row => row[question]?.trim() && row[answer]?.trim())
+        .map(row => ({
+          text: [`Q: ${row[question].trim()}`, `A: ${row[answer].trim()}`, ...describeRow(row, [question, answer])].join('\n'),
+          headings: [row[question].trim()]
+        }));
+    } else {
+      sections = [];
+      let lines: string[] = [];
+      rows.forEach(row => {
+        const line = describeRow(row).join(' | ');
+        if (lines.length > 0 && lines.join('\n').length + line.length > MAX_TABLE_SECTION_LENGTH) {
+          sections.push({ text: lines.join('\n') });
+          lines = [];
+        }
+        lines.push(line);
+      });
+      if (lines.length > 0) sections.push({ text: lines.join('\n') });
+    }
+
+    if (sections.length === 0) {
+      throw new UnreadableDocumentError('No questions with answers found in the file.');
+    }
+
+    return {
+      title,
+      content: sections.map(section => section.text).join('\n\n'),
+      type: delimiter === '\t' ? 'tsv' : 'csv',
+      sections,
+      metadata: {
+        layout: question !== -1 && answer !== -1 ? 'qa' : 'table',
+        columns,
+        rowCount: rows.length,
+        parsedAt: new Date().toISOString()
+      }
+    };
+  }
+
+  // An array of objects with question and answer fields becomes Q&A sections;
+  // any other JSON becomes one section per object, headed by its key path
+  async parseJson(filePath: string, title: string): Promise<ParsedContent> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await readTextFile(filePath));
+    } catch (error) {
+      throw new UnreadableDocumentError('The file is not valid JSON.');
+    }
+
+    const field = (item: Record<string, any>, names: string[]) => Object.keys(item).find(key => names.includes(key.toLowerCase()));
+    const isQuestionList = Array.isArray(data) && data.length > 0 && data.every(item =>
+      item && typeof item === 'object' && field(item, QUESTION_COLUMNS) && field(item, ANSWER_COLUMNS));
+
+    const sections: DocumentSection[] = isQuestionList
+      ? (data as Record<string, any>[]).map(item => {
+          const question = String(item[field(item, QUESTION_COLUMNS)!]);
+          return { text: `Q: ${question}\nA: ${String(item[field(item, ANSWER_COLUMNS)!])}`, headings: [question] };
+        })
+      : jsonSections(data, []);
+
+    if (sections.length === 0) {
+      throw new UnreadableDocumentError('The JSON file has no values to import.');
+    }
+
+    return {
+      title,
+      content: sections.map(section => section.text).join('\n\n'),
+      type: 'json',
+      sections,
+      metadata: {
+        layout: isQuestionList ? 'qa' : 'tree',
+        parsedAt: new Date().toISOString()
+      }
+    };
+  }
+
+  // Groups paragraphs under their nearest heading. Each section starts with
+  // its heading, so chunks still say what they are about.
+  private fromBlocks(blocks: TextBlock[], title: string, type: string): ParsedContent {
+    const sections: DocumentSection[] = [];
+    const headings: string[] = [];
+    let body: string[] = [];
+    const endSection = () => {
+      if (body.length > 0) {
+        const heading = headings[headings.length - 1];
+        sections.push({
+          text: [heading, ...body].filter(Boolean).join('\n\n'),
+          headings: headings.filter(Boolean)
+        });
+      }
+      body = [];
+    };
+
+    blocks.filter(block => block.text).forEach(block => {
+      if (block.level) {
+        endSection();
+        // Leaves a gap when a level is skipped, e.g. an h3 right below an h1
+        headings.length = Math.min(headings.length, block.level - 1);
+        headings[block.level - 1] = block.text;
+      } else {
+        body.push(block.text);
+      }
+    });
+    endSection();
+
+    if (sections.length === 0) {
+      throw new UnreadableDocumentError('No text found in the document.');
+    }
+
+    return {
+      title: title || blocks.find(block => block.level && block.text)?.text || 'Document',
+      content: sections.map(section => section.text).join('\n\n'),
+      type,
+      sections,
+      metadata: {
+        sectionCount: sections.length,
+        parsedAt: new Date().toISOString()
+      }
+    };
   }
 
   async parseWebsite(url: string): Promise<ParsedContent> {
@@ -76,25 +492,51 @@ export class ContentParser {
     }
   }
 
-  async parseFAQ(faqData: { question: string; answer: string }[]): Promise<ParsedContent> {
-    try {
-      const content = faqData
-        .map(item => `Q: ${item.question}\nA: ${item.answer}`)
-        .join('\n\n');
-      
+  // Q&A pairs for the FAQ manager from a CSV, TSV or JSON file, one object per
+  // row in file order. The caller validates each pair.
+  async parseFaqFile(filePath: string, fileName: string): Promise<Record<string, unknown>[]> {
+    const extension = path.extname(fileName).toLowerCase();
+    const pick = (item: Record<string, unknown>, key: (name: string) => boolean) => {
+      const name = Object.keys(item).find(name => key(name.trim().toLowerCase()));
+      return name === undefined ? undefined : item[name];
+    };
+    const toEntry = (item: Record<string, unknown>) => {
+      const category = pick(item, name => CATEGORY_COLUMNS.includes(name));
+      const active = pick(item, name => name === 'active' || name === 'isactive');
       return {
-        title: 'FAQ Content',
-        content,
-        type: 'faq',
-        metadata: {
-          totalQuestions: faqData.length,
-          createdAt: new Date().toISOString()
-        }
+        question: pick(item, name => QUESTION_COLUMNS.includes(name)),
+        answer: pick(item, name => ANSWER_COLUMNS.includes(name)),
+        category: category === '' || category === null ? undefined : category,
+        isActive: typeof active === 'string' ? !/^(no|false|0)$/i.test(active.trim()) : active
       };
-    } catch (error) {
-      console.error('Error parsing FAQ:', error);
-      throw new Error('Failed to parse FAQ data');
+    };
+
+    if (extension === '.json') {
+      let data: unknown;
+      try {
+        data = JSON.parse(await readTextFile(filePath));
+      } catch (error) {
+        throw new UnreadableDocumentError('The file is not valid JSON.');
+      }
+      const items = Array.isArray(data) ? data : (data as Record<string, unknown>)?.faqs;
+      if (!Array.isArray(items)) {
+        throw new UnreadableDocumentError('Expected a JSON array of objects with question and answer fields.');
+      }
+      return items.map(item => item && typeof item === 'object' ? toEntry(item) : {});
+    }
+
+    if (extension !== '.csv' && extension !== '.tsv') {
+      throw new UnreadableDocumentError('FAQs can be imported from CSV, TSV or JSON files.');
+    }
+
+    const [header, ...rows] = parseDelimitedRows(await readTextFile(filePath), extension === '.tsv' ? '\t' : ',')
+      .filter(row => row.some(cell => cell.trim()));
+    const lowerColumns = (header || []).map(column => column.trim().toLowerCase());
+    if (!lowerColumns.some(column => QUESTION_COLUMNS.includes(column)) || !lowerColumns.some(column => ANSWER_COLUMNS.includes(column))) {
+      throw new UnreadableDocumentError('The file needs a header row with Question and Answer columns.');
     }
+
+    return rows.map(row => toEntry(Object.fromEntries(lowerColumns.map((column, index) => [column, row[index]?.trim() ?? '']))));
   }
 
   async parseGoogleMerchantXML(xmlContent: string): Promise<{
@@ -171,7 +613,8 @@ export class ContentParser {
         content.content,
         content.type,
         content.sourceUrl,
-        content.metadata
+        content.metadata,
+        content.sections
       );
       
       console.log(`✓ Processed and stored ${content.type}: ${content.title}`);
@@ -211,4 +654,154 @@ export class ContentParser {
   }
 }
 
+// Joins a page's text items, starting a new line whenever the baseline moves
+async function extractPageText(page: pdf.Page): Promise<string> {
+  const { items } = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of items) {
+    const y = item.transform[5];
+    text += lastY === undefined || y === lastY ? item.str : `\n${item.str}`;
+    lastY = y;
+  }
+  return text;
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Reads an uploaded text file, dropping a byte order mark and CR line endings
+async function readTextFile(filePath: string): Promise<string> {
+  return (await fs.promises.readFile(filePath, 'utf8')).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\((\S+?)(?:\s+"[^"]*")?\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|\W)\*(?!\s)(.+?)\*(?=\W|$)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+}
+
+// RFC 4180 style: quoted fields may contain the delimiter, newlines and "" quotes
+function parseDelimitedRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// One section per object, listing its plain values as "key: value" lines under
+// the path of keys that leads to it. Array items are labelled by their title
+// or name where they have one.
+function jsonSections(value: unknown, headings: string[]): DocumentSection[] {
+  const isPlain = (item: unknown) => item === null || typeof item !== 'object'
+    || (Array.isArray(item) && item.every(element => element === null || typeof element !== 'object'));
+  const format = (item: unknown) => Array.isArray(item) ? item.join(', ') : String(item);
+  const section = (lines: string[]) => ({
+    text: [headings.join(' > '), ...lines].filter(Boolean).join('\n'),
+    headings
+  });
+
+  if (isPlain(value)) {
+    return value === null || value === '' ? [] : [section([format(value)])];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => {
+      const label = item && typeof item === 'object' && !Array.isArray(item)
+        ? (item as Record<string, unknown>).title || (item as Record<string, unknown>).name
+        : undefined;
+      return jsonSections(item, [...headings, typeof label === 'string' ? label : `Item ${index + 1}`]);
+    });
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  const lines = entries
+    .filter(([, item]) => isPlain(item) && item !== null && item !== '')
+    .map(([key, item]) => `${key}: ${format(item)}`);
+
+  return [
+    ...(lines.length > 0 ? [section(lines)] : []),
+    ...entries
+      .filter(([, item]) => !isPlain(item))
+      .flatMap(([key, item]) => jsonSections(item, [...headings, key]))
+  ];
+}
+
+// Reads one file out of a ZIP archive such as a .docx. The entry is inflated
+// as a stream and abandoned once it passes `maxBytes`, whatever its header says.
+async function readZipEntry(filePath: string, name: string, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new UnreadableDocumentError(
+    `The document is larger than ${maxBytes / 1024 / 1024} MB uncompressed and cannot be read.`
+  );
+
+  const zip = await yauzl.openPromise(filePath, { lazyEntries: true, validateEntrySizes: true });
+  try {
+    for await (const entry of zip.eachEntry()) {
+      if (entry.fileName !== name) continue;
+      if (entry.uncompressedSize > maxBytes) throw tooLarge();
+
+      const stream = await zip.openReadStreamPromise(entry);
+      const chunks: Buffer[] = [];
+      let size = 0;
+      for await (const chunk of stream) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          stream.destroy();
+          throw tooLarge();
+        }
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    }
+  } finally {
+    zip.close();
+  }
+
+  throw new Error(`${name} not found in archive`);
+}
+
 export const contentParser = new ContentParser();
\ No newline at end of file
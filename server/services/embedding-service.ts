@@ -0,0 +1,235 @@
+import { AiConfig, AzureConfig, OllamaConfig, OpenAICompatibleConfig } from '@shared/schema';
+
+export interface Embedder {
+  // Identifies the vector space; embeddings from different ids are not comparable
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'with', 'you', 'your'
+]);
+
+// Local, deterministic embedder that works offline. Words, word bigrams and
+// character trigrams are hashed into a fixed number of signed buckets, so
+// "refunds" still lands close to "refund" without any corpus statistics.
+export class HashedNgramEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private dimensions: number = 512) {
+    this.id = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    };
+
+    const words = text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word && !STOP_WORDS.has(word));
+
+    words.forEach((word, index) => {
+      add(`w:${word}`, 1);
+      if (index > 0) {
+        add(`b:${words[index - 1]} ${word}`, 0.5);
+      }
+
+      const padded = `#${word}#`;
+      const trigramCount = Math.max(1, padded.length - 2);
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 0.5 / trigramCount);
+      }
+    });
+
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimensions;
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[bucket] += sign * (1 + Math.log(1 + count));
+    });
+
+    return normalize(vector);
+  }
+}
+
+export class AzureEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private config: AzureConfig & { embeddingDeployment: string }) {
+    this.id = `azure:${config.embeddingDeployment}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.config.endpoint}/openai/deployments/${this.config.embeddingDeployment}/embeddings?api-version=${this.config.apiVersion}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': this.config.apiKey,
+      },
+      body: JSON.stringify({ input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Azure embeddings error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+export class OllamaEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private config: OllamaConfig & { embeddingModel: string }) {
+    this.id = `ollama:${config.embeddingModel}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.config.endpoint}/api/embed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.config.embeddingModel,
+        input: texts,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embeddings error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.embeddings;
+  }
+}
+
+export class OpenAICompatibleEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private config: OpenAICompatibleConfig & { embeddingModel: string }) {
+    this.id = `openai_compatible:${config.embeddingModel}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.config.embeddingModel,
+        input: texts,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible embeddings error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+export class EmbeddingService {
+  private local: Embedder = new HashedNgramEmbedder();
+  private embedder: Embedder = this.local;
+  private batchSize = 16;
+
+  // Switches to provider embeddings when the AI config names an embedding model
+  configure(config: AiConfig | null) {
+    this.embedder = this.local;
+    if (!config) return;
+
+    if (config.provider === 'azure') {
+      const azure = config.config as AzureConfig;
+      if (azure.embeddingDeployment) {
+        this.embedder = new AzureEmbedder({ ...azure, embeddingDeployment: azure.embeddingDeployment });
+      }
+    } else if (config.provider === 'ollama') {
+      const ollama = config.config as OllamaConfig;
+      if (ollama.embeddingModel) {
+        this.embedder = new OllamaEmbedder({ ...ollama, embeddingModel: ollama.embeddingModel });
+      }
+    } else if (config.provider === 'openai_compatible') {
+      const compatible = config.config as OpenAICompatibleConfig;
+      if (compatible.embeddingModel) {
+        this.embedder = new OpenAICompatibleEmbedder({ ...compatible, embeddingModel: compatible.embeddingModel });
+      }
+    }
+  }
+
+  getActiveModel(): string {
+    return this.embedder.id;
+  }
+
+  // Runs a task against the active embedder, retrying with the local one if
+  // the provider is unreachable so search keeps working during an outage
+  async withEmbedder<T>(task: (embed: (texts: string[]) => Promise<number[][]>, model: string) => Promise<T>): Promise<T> {
+    try {
+      return await task(texts => this.embedInBatches(this.embedder, texts), this.embedder.id);
+    } catch (error) {
+      if (this.embedder === this.local) throw error;
+      console.error(`Embedding with ${this.embedder.id} failed, falling back to ${this.local.id}:`, error);
+      return task(texts => this.embedInBatches(this.local, texts), this.local.id);
+    }
+  }
+
+  private async embedInBatches(embedder: Embedder, texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...await embedder.embed(texts.slice(i, i + this.batchSize)));
+    }
+    return vectors;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export const embeddingService = new EmbeddingService();
@@ -0,0 +1,124 @@
+import { randomUUID } from 'crypto';
+import { FaqEntry, FaqEntryInput, faqEntrySchema } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+
+export interface FaqImportResult {
+  created: number;
+  updated: number;
+  // Entries deleted by a replacing import because the file did not have them
+  removed: number;
+  // Rows are numbered from 1, not counting a header row
+  skipped: { row: number; error: string }[];
+}
+
+// A replacing import that would delete entries because of bad rows. Nothing
+// is changed; the message is meant for the admin who uploaded the file.
+export class FaqImportRejectedError extends Error {
+  constructor(message: string, readonly skipped: FaqImportResult['skipped']) {
+    super(message);
+  }
+}
+
+/**
+ * Question and answer pairs edited in the admin panel. Each pair is indexed on
+ * its own, so a matching question retrieves exactly its answer instead of a
+ * chunk of a longer FAQ page.
+ */
+export class FaqService {
+  async list(): Promise<FaqEntry[]> {
+    const entries = await vectorStorage.getFaqEntries();
+    return entries.sort((a, b) =>
+      (a.category || '').localeCompare(b.category || '') || a.question.localeCompare(b.question));
+  }
+
+  async get(id: string): Promise<FaqEntry | undefined> {
+    const entries = await vectorStorage.getFaqEntries();
+    return entries.find(entry => entry.id === id);
+  }
+
+  async create(input: FaqEntryInput): Promise<FaqEntry> {
+    const now = new Date().toISOString();
+    const [entry] = await vectorStorage.saveFaqEntries([{ ...input, id: randomUUID(), createdAt: now, updatedAt: now }]);
+    return entry;
+  }
+
+  async update(id: string, input: FaqEntryInput): Promise<FaqEntry | undefined> {
+    const existing = await this.get(id);
+    if (!existing) return undefined;
+
+    const [entry] = await vectorStorage.saveFaqEntries([{
+      ...input,
+      id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    }]);
+    return entry;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.get(id);
+    if (!existing) return false;
+
+    await vectorStorage.deleteFaqEntries([id]);
+    return true;
+  }
+
+  // Rows whose question is already in the FAQ update that entry. With `replace`
+  // the entries missing from the file are deleted, so a file with any invalid
+  // row is rejected rather than taken to mean those entries should go.
+  async import(rows: Record<string, unknown>[], replace: boolean = false): Promise<FaqImportResult> {
+    const existing = await vectorStorage.getFaqEntries();
+    const byQuestion = new Map(existing.map(entry => [normalizeQuestion(entry.question), entry] as [string, FaqEntry]));
+    const now = new Date().toISOString();
+    const result: FaqImportResult = { created: 0, updated: 0, removed: 0, skipped: [] };
+    const imported = new Map<string, FaqEntry>();
+
+    rows.forEach((row, index) => {
+      const validation = faqEntrySchema.safeParse(row);
+      if (!validation.success) {
+        result.skipped.push({ row: index + 1, error: validation.error.errors.map(error => error.message).join(', ') });
+        return;
+      }
+
+      const key = normalizeQuestion(validation.data.question);
+      const current = imported.get(key) || byQuestion.get(key);
+      if (!imported.has(key)) {
+        if (current) result.updated++;
+        else result.created++;
+      }
+      imported.set(key, {
+        ...validation.data,
+        id: current?.id || randomUUID(),
+        createdAt: current?.createdAt || now,
+        updatedAt: now
+      });
+    });
+
+    if (replace && imported.size === 0) {
+      throw new FaqImportRejectedError('The file has no valid FAQ entries, so the FAQ was not replaced', result.skipped);
+    }
+    if (replace && result.skipped.length > 0) {
+      throw new FaqImportRejectedError(
+        `${result.skipped.length} ${result.skipped.length === 1 ? 'row is' : 'rows are'} invalid, so the FAQ was not replaced. Fix them, or import without replacing.`,
+        result.skipped
+      );
+    }
+
+    await vectorStorage.saveFaqEntries(Array.from(imported.values()));
+
+    if (replace) {
+      const removed = existing.filter(entry => !imported.has(normalizeQuestion(entry.question)));
+      await vectorStorage.deleteFaqEntries(removed.map(entry => entry.id));
+      result.removed = removed.length;
+    }
+
+    console.log(`✓ Imported FAQs: ${result.created} created, ${result.updated} updated, ${result.removed} removed, ${result.skipped.length} skipped`);
+    return result;
+  }
+}
+
+function normalizeQuestion(question: string): string {
+  return question.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export const faqService = new FaqService();
@@ -0,0 +1,93 @@
+import { GroundingSettings, groundingSettingsSchema } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+import { aiService } from './ai-service';
+import type { SearchResult } from './vector-service';
+
+export interface VerificationResult {
+  supported: boolean;
+  unsupportedClaims: string[];
+}
+
+const SETTINGS_KEY = 'grounding_settings';
+// Answered by the order lookup tool or a handoff, not by retrieved documents
+const UNGROUNDED_INTENTS = ['order_tracking', 'human_handoff'];
+
+/**
+ * Strict grounding for bot answers. In strict mode, questions whose retrieval
+ * confidence is below the threshold get the fallback message instead of an
+ * answer from the model's general knowledge, and answers can be checked claim
+ * by claim against the retrieved documents.
+ */
+export class GroundingService {
+  private settings: GroundingSettings = groundingSettingsSchema.parse({});
+  private initPromise: Promise<void> | null = null;
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    const saved = await vectorStorage.getSettings<GroundingSettings>(SETTINGS_KEY);
+    this.settings = groundingSettingsSchema.parse(saved || {});
+  }
+
+  getSettings(): GroundingSettings {
+    return this.settings;
+  }
+
+  async saveSettings(settings: GroundingSettings): Promise<GroundingSettings> {
+    await this.initialize();
+    this.settings = await vectorStorage.saveSettings(SETTINGS_KEY, settings);
+    return this.settings;
+  }
+
+  // Whether strict mode should refuse before asking the model at all
+  shouldRefuse(confidence: number, intent: string): boolean {
+    return this.settings.strict
+      && !UNGROUNDED_INTENTS.includes(intent)
+      && confidence < this.settings.minConfidence;
+  }
+
+  shouldVerify(): boolean {
+    return this.settings.strict && this.settings.verifyAnswers;
+  }
+
+  // Asks the AI model which claims in the answer the documents do not support.
+  // A failed check keeps the answer rather than refusing every question while
+  // the provider is having trouble.
+  async verifyAnswer(answer: string, results: SearchResult[]): Promise<VerificationResult> {
+    const systemPrompt = `You check a customer support answer against the documents it was based on. List every factual claim the answer makes about the store, such as policies, prices, delivery times, stock or product details, that the documents do not support. Greetings, questions to the customer and offers of help are not claims.
+Reply with JSON only, for example {"unsupported": ["Delivery takes 2 days"]}.`;
+
+    const documents = results
+      .map((result, index) => `<document index="${index + 1}">\n${result.content}\n</document>`)
+      .join('\n\n');
+
+    try {
+      const reply = await aiService.complete([{
+        role: 'user',
+        content: `Documents:\n${documents || '(none)'}\n\nAnswer:\n${answer}`
+      }], systemPrompt);
+
+      const json = reply.match(/\{[\s\S]*\}/)?.[0];
+      if (!json) return { supported: true, unsupportedClaims: [] };
+
+      const parsed = JSON.parse(json);
+      const unsupportedClaims: string[] = Array.isArray(parsed.unsupported)
+        ? parsed.unsupported.filter((claim: unknown): claim is string => typeof claim === 'string')
+        : [];
+      return { supported: unsupportedClaims.length === 0, unsupportedClaims };
+    } catch (error) {
+      console.error('Answer verification failed:', error);
+      return { supported: true, unsupportedClaims: [] };
+    }
+  }
+}
+
+export const groundingService = new GroundingService();
@@ -0,0 +1,209 @@
+import { EventEmitter } from 'events';
+import { HandoffReason, HandoffSession, HandoffSettings, handoffSettingsSchema, ChatSender } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+import { piiService } from './pii-redaction';
+
+export interface HandoffMessage {
+  content: string;
+  sender: ChatSender;
+  agentName?: string;
+  timestamp: string;
+}
+
+export type HandoffEvent =
+  | { type: 'handoff'; session: HandoffSession }
+  | { type: 'message'; sessionId: string; message: HandoffMessage };
+
+// What happened on one bot turn, used to decide whether to escalate
+export interface TurnOutcome {
+  intent?: string;
+  confidence?: number;
+  failed?: boolean;
+  // A tool answered the question, so a low search confidence is expected
+  answeredByTool?: boolean;
+}
+
+const SETTINGS_KEY = 'handoff_settings';
+
+export class HandoffService {
+  private emitter = new EventEmitter();
+  private sessions: Map<string, HandoffSession> = new Map();
+  private lowConfidenceStreaks: Map<string, number> = new Map();
+  private failureStreaks: Map<string, number> = new Map();
+  private settings: HandoffSettings = handoffSettingsSchema.parse({});
+  private initPromise: Promise<void> | null = null;
+
+  constructor() {
+    // One listener per open customer widget and agent console
+    this.emitter.setMaxListeners(0);
+  }
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    const saved = await vectorStorage.getSettings<HandoffSettings>(SETTINGS_KEY);
+    this.settings = handoffSettingsSchema.parse(saved || {});
+
+    const sessions = await vectorStorage.getHandoffs();
+    sessions.forEach(session => this.sessions.set(session.sessionId, session));
+  }
+
+  getSettings(): HandoffSettings {
+    return this.settings;
+  }
+
+  async saveSettings(settings: HandoffSettings): Promise<HandoffSettings> {
+    await this.initialize();
+    this.settings = await vectorStorage.saveSettings(SETTINGS_KEY, settings);
+    return this.settings;
+  }
+
+  getSession(sessionId: string): HandoffSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  async listSessions(includeClosed: boolean = false): Promise<HandoffSession[]> {
+    await this.initialize();
+    return Array.from(this.sessions.values())
+      .filter(session => includeClosed || session.status !== 'closed')
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+  }
+
+  // The bot stays silent while an agent owns the conversation
+  isBotPaused(sessionId: string): boolean {
+    return this.sessions.get(sessionId)?.status === 'active';
+  }
+
+  isOpen(sessionId: string): boolean {
+    const status = this.sessions.get(sessionId)?.status;
+    return status === 'waiting' || status === 'active';
+  }
+
+  async requestHandoff(sessionId: string, reason: HandoffReason): Promise<HandoffSession> {
+    await this.initialize();
+
+    const existing = this.sessions.get(sessionId);
+    if (existing && existing.status !== 'closed') {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const session = await this.update({
+      sessionId,
+      status: 'waiting',
+      reason,
+      requestedAt: now,
+      updatedAt: now
+    });
+    console.log(`✓ Chat ${sessionId} queued for a human agent (${reason})`);
+    return session;
+  }
+
+  // Escalates on an explicit request, on a run of low-confidence answers or on
+  // repeated failures. Returns the open handoff, if any.
+  async recordOutcome(sessionId: string, outcome: TurnOutcome): Promise<HandoffSession | undefined> {
+    await this.initialize();
+
+    if (this.isOpen(sessionId)) {
+      return this.sessions.get(sessionId);
+    }
+    if (outcome.intent === 'human_handoff') {
+      return this.requestHandoff(sessionId, 'requested');
+    }
+    if (!this.settings.autoEscalate) {
+      return undefined;
+    }
+
+    const failures = outcome.failed ? (this.failureStreaks.get(sessionId) || 0) + 1 : 0;
+    this.failureStreaks.set(sessionId, failures);
+    if (failures >= this.settings.maxFailures) {
+      return this.requestHandoff(sessionId, 'repeated_failures');
+    }
+
+    // Small talk has nothing to retrieve, so its confidence says nothing
+    const lowConfidence = !outcome.failed &&
+      !outcome.answeredByTool &&
+      outcome.intent !== 'general' &&
+      (outcome.confidence ?? 1) < this.settings.lowConfidenceThreshold;
+    const streak = lowConfidence ? (this.lowConfidenceStreaks.get(sessionId) || 0) + 1 : 0;
+    this.lowConfidenceStreaks.set(sessionId, streak);
+    if (streak >= this.settings.lowConfidenceTurns) {
+      return this.requestHandoff(sessionId, 'low_confidence');
+    }
+
+    return undefined;
+  }
+
+  async accept(sessionId: string, agentName: string): Promise<HandoffSession | undefined> {
+    await this.initialize();
+
+    const session = this.sessions.get(sessionId);
+    if (!session || session.status === 'closed') return undefined;
+
+    const now = new Date().toISOString();
+    return this.update({ ...session, status: 'active', agentName, acceptedAt: session.acceptedAt || now, updatedAt: now });
+  }
+
+  // Hands the conversation back to the bot
+  async close(sessionId: string): Promise<HandoffSession | undefined> {
+    await this.initialize();
+
+    const session = this.sessions.get(sessionId);
+    if (!session || session.status === 'closed') return undefined;
+
+    this.lowConfidenceStreaks.delete(sessionId);
+    this.failureStreaks.delete(sessionId);
+
+    const now = new Date().toISOString();
+    return this.update({ ...session, status: 'closed', closedAt: now, updatedAt: now });
+  }
+
+  async postAgentMessage(sessionId: string, agentName: string, content: string): Promise<HandoffMessage> {
+    // The customer gets the message as written; the transcript is redacted
+    const saved = await vectorStorage.saveChatMessage(sessionId, {
+      content: piiService.redactForStorage(sessionId, content),
+      isBot: true,
+      sender: 'agent',
+      agentName
+    });
+
+    const message: HandoffMessage = { content, sender: 'agent', agentName, timestamp: saved.timestamp };
+    this.emit({ type: 'message', sessionId, message });
+    return message;
+  }
+
+  // Relays customer and bot messages to agents watching an open handoff
+  notifyMessage(sessionId: string, message: HandoffMessage) {
+    if (this.isOpen(sessionId)) {
+      this.emit({ type: 'message', sessionId, message });
+    }
+  }
+
+  subscribe(listener: (event: HandoffEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  private async update(session: HandoffSession): Promise<HandoffSession> {
+    this.sessions.set(session.sessionId, session);
+    await vectorStorage.saveHandoff(session);
+    this.emit({ type: 'handoff', session });
+    return session;
+  }
+
+  private emit(event: HandoffEvent) {
+    this.emitter.emit('event', event);
+  }
+}
+
+export const handoffService = new HandoffService();
@@ -0,0 +1,283 @@
+import { INTENTS, Intent, IntentExample, IntentExampleInput, IntentSettings, intentSettingsSchema } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+import { aiService } from './ai-service';
+
+export interface IntentClassification {
+  intent: Intent;
+  confidence: number;
+  // Classifier probability for every intent, summing to 1
+  scores: Record<Intent, number>;
+  method: 'classifier' | 'llm' | 'default';
+}
+
+const SETTINGS_KEY = 'intent_settings';
+
+// Seeded into an empty example set so the classifier works out of the box;
+// admins can remove these and add their own.
+const BUILTIN_EXAMPLES: Array<{ text: string; intent: Intent }> = [
+  { intent: 'order_tracking', text: 'where is my order' },
+  { intent: 'order_tracking', text: 'how do I track my order' },
+  { intent: 'order_tracking', text: 'what is the status of my order' },
+  { intent: 'order_tracking', text: 'has my package shipped yet' },
+  { intent: 'order_tracking', text: 'track order ORD-2024-001' },
+  { intent: 'order_tracking', text: 'can you check my order number' },
+  { intent: 'order_tracking', text: 'when will my order arrive' },
+
+  { intent: 'product_recommendation', text: 'can you recommend a perfume' },
+  { intent: 'product_recommendation', text: 'I am looking for a gift for my wife' },
+  { intent: 'product_recommendation', text: 'suggest a good watch under 200' },
+  { intent: 'product_recommendation', text: 'do you have this in blue' },
+  { intent: 'product_recommendation', text: 'which headphones are best' },
+  { intent: 'product_recommendation', text: 'show me new arrivals' },
+  { intent: 'product_recommendation', text: 'is this product in stock' },
+
+  { intent: 'returns', text: 'I need a refund' },
+  { intent: 'returns', text: 'how do I return an item' },
+  { intent: 'returns', text: 'what is your return policy' },
+  { intent: 'returns', text: 'I want to exchange my shoes for another size' },
+  { intent: 'returns', text: 'when will I get my money back' },
+  { intent: 'returns', text: 'the item is damaged and I want to send it back' },
+  { intent: 'returns', text: 'can I cancel and get refunded' },
+
+  { intent: 'shipping', text: 'how long does delivery take' },
+  { intent: 'shipping', text: 'do you ship internationally' },
+  { intent: 'shipping', text: 'how much is shipping' },
+  { intent: 'shipping', text: 'is there free delivery' },
+  { intent: 'shipping', text: 'which courier do you use' },
+  { intent: 'shipping', text: 'can I get express shipping' },
+  { intent: 'shipping', text: 'do you deliver to my country' },
+
+  { intent: 'payment', text: 'what payment methods do you accept' },
+  { intent: 'payment', text: 'my card was declined' },
+  { intent: 'payment', text: 'can I pay with paypal' },
+  { intent: 'payment', text: 'I was charged twice' },
+  { intent: 'payment', text: 'do you offer installments' },
+  { intent: 'payment', text: 'is cash on delivery available' },
+  { intent: 'payment', text: 'I need an invoice for my payment' },
+
+  { intent: 'complaint', text: 'this is terrible service' },
+  { intent: 'complaint', text: 'I am very unhappy with my purchase' },
+  { intent: 'complaint', text: 'your delivery driver was rude' },
+  { intent: 'complaint', text: 'I want to file a complaint' },
+  { intent: 'complaint', text: 'this is the worst experience ever' },
+  { intent: 'complaint', text: 'nobody has answered my emails for a week' },
+  { intent: 'complaint', text: 'I am disappointed with the quality' },
+
+  { intent: 'human_handoff', text: 'I want to talk to a human' },
+  { intent: 'human_handoff', text: 'connect me to an agent' },
+  { intent: 'human_handoff', text: 'can I speak to a real person' },
+  { intent: 'human_handoff', text: 'let me talk to customer service' },
+  { intent: 'human_handoff', text: 'transfer me to support staff' },
+  { intent: 'human_handoff', text: 'I need a representative' },
+  { intent: 'human_handoff', text: 'stop the bot I want a person' },
+
+  { intent: 'support', text: 'how do I reset my password' },
+  { intent: 'support', text: 'I cannot log in to my account' },
+  { intent: 'support', text: 'how do I change my email address' },
+  { intent: 'support', text: 'the website is not working' },
+  { intent: 'support', text: 'how do I use a discount code' },
+  { intent: 'support', text: 'where can I find the size guide' },
+  { intent: 'support', text: 'how do I update my address' },
+
+  { intent: 'general', text: 'hello' },
+  { intent: 'general', text: 'hi there' },
+  { intent: 'general', text: 'thanks for your help' },
+  { intent: 'general', text: 'good morning' },
+  { intent: 'general', text: 'who are you' },
+  { intent: 'general', text: 'what are your opening hours' },
+  { intent: 'general', text: 'bye' },
+];
+
+export function tokenizeForIntent(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s']/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const tokens = [...words];
+  for (let i = 1; i < words.length; i++) {
+    tokens.push(`${words[i - 1]} ${words[i]}`);
+  }
+  return tokens;
+}
+
+// Multinomial naive Bayes with Laplace smoothing over word and bigram counts
+export class NaiveBayesClassifier {
+  private docCounts: Map<Intent, number> = new Map();
+  private tokenCounts: Map<Intent, Map<string, number>> = new Map();
+  private tokenTotals: Map<Intent, number> = new Map();
+  private vocabulary: Set<string> = new Set();
+  private totalDocs = 0;
+
+  train(examples: Array<{ text: string; intent: Intent }>) {
+    this.docCounts.clear();
+    this.tokenCounts.clear();
+    this.tokenTotals.clear();
+    this.vocabulary.clear();
+    this.totalDocs = examples.length;
+
+    examples.forEach(({ text, intent }) => {
+      this.docCounts.set(intent, (this.docCounts.get(intent) || 0) + 1);
+
+      if (!this.tokenCounts.has(intent)) {
+        this.tokenCounts.set(intent, new Map());
+      }
+      const counts = this.tokenCounts.get(intent)!;
+
+      tokenizeForIntent(text).forEach(token => {
+        counts.set(token, (counts.get(token) || 0) + 1);
+        this.tokenTotals.set(intent, (this.tokenTotals.get(intent) || 0) + 1);
+        this.vocabulary.add(token);
+      });
+    });
+  }
+
+  isTrained(): boolean {
+    return this.totalDocs > 0;
+  }
+
+  // Posterior probability per intent; intents without examples score 0
+  classify(text: string): Record<Intent, number> {
+    const scores = Object.fromEntries(INTENTS.map(intent => [intent, 0])) as Record<Intent, number>;
+    if (!this.isTrained()) return scores;
+
+    // Unseen tokens carry no signal and only flatten the distribution
+    const tokens = tokenizeForIntent(text).filter(token => this.vocabulary.has(token));
+    const vocabularySize = this.vocabulary.size;
+
+    const logScores: Array<[Intent, number]> = [];
+    this.docCounts.forEach((docCount, intent) => {
+      const counts = this.tokenCounts.get(intent)!;
+      const total = this.tokenTotals.get(intent) || 0;
+
+      let logProb = Math.log(docCount / this.totalDocs);
+      tokens.forEach(token => {
+        logProb += Math.log(((counts.get(token) || 0) + 1) / (total + vocabularySize));
+      });
+      logScores.push([intent, logProb]);
+    });
+
+    // Softmax in log space to avoid underflow
+    const max = Math.max(...logScores.map(([, score]) => score));
+    const exp = logScores.map(([intent, score]) => [intent, Math.exp(score - max)] as const);
+    const sum = exp.reduce((acc, [, value]) => acc + value, 0);
+    exp.forEach(([intent, value]) => {
+      scores[intent] = value / sum;
+    });
+
+    return scores;
+  }
+}
+
+export class IntentService {
+  private classifier = new NaiveBayesClassifier();
+  private settings: IntentSettings = intentSettingsSchema.parse({});
+  private initPromise: Promise<void> | null = null;
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    const saved = await vectorStorage.getSettings<IntentSettings>(SETTINGS_KEY);
+    this.settings = intentSettingsSchema.parse(saved || {});
+
+    let examples = await vectorStorage.getIntentExamples();
+    if (examples.length === 0) {
+      examples = await vectorStorage.addIntentExamples(
+        BUILTIN_EXAMPLES.map(example => ({ ...example, source: 'builtin' as const }))
+      );
+      console.log(`✓ Seeded ${examples.length} built-in intent examples`);
+    }
+
+    this.classifier.train(examples);
+    console.log(`✓ Intent classifier trained on ${examples.length} examples`);
+  }
+
+  async classify(text: string): Promise<IntentClassification> {
+    await this.initialize();
+
+    const scores = this.classifier.classify(text);
+    const [intent, confidence] = (Object.entries(scores) as Array<[Intent, number]>)
+      .sort((a, b) => b[1] - a[1])[0];
+
+    if (confidence >= this.settings.confidenceThreshold) {
+      return { intent, confidence: round(confidence), scores, method: 'classifier' };
+    }
+
+    if (this.settings.llmFallback && aiService.isConfigured()) {
+      const llmResult = await this.classifyWithLlm(text);
+      if (llmResult) {
+        return { ...llmResult, scores, method: 'llm' };
+      }
+    }
+
+    return { intent: 'general', confidence: round(confidence), scores, method: 'default' };
+  }
+
+  async getExamples(): Promise<IntentExample[]> {
+    await this.initialize();
+    return vectorStorage.getIntentExamples();
+  }
+
+  async addExample(input: IntentExampleInput): Promise<IntentExample> {
+    await this.initialize();
+    const [example] = await vectorStorage.addIntentExamples([{ ...input, source: 'admin' }]);
+    await this.retrain();
+    return example;
+  }
+
+  async deleteExample(id: string): Promise<boolean> {
+    await this.initialize();
+    const deleted = await vectorStorage.deleteIntentExample(id);
+    if (deleted) await this.retrain();
+    return deleted;
+  }
+
+  getSettings(): IntentSettings {
+    return this.settings;
+  }
+
+  async saveSettings(settings: IntentSettings): Promise<IntentSettings> {
+    await this.initialize();
+    this.settings = await vectorStorage.saveSettings(SETTINGS_KEY, settings);
+    return this.settings;
+  }
+
+  private async retrain() {
+    this.classifier.train(await vectorStorage.getIntentExamples());
+  }
+
+  private async classifyWithLlm(text: string): Promise<{ intent: Intent; confidence: number } | null> {
+    const systemPrompt = `Classify the customer's message for an e-commerce support chat into exactly one of these intents: ${INTENTS.join(', ')}.
+Reply with JSON only, for example {"intent": "shipping", "confidence": 0.8}.`;
+
+    try {
+      const reply = await aiService.complete([{ role: 'user', content: text }], systemPrompt);
+      const json = reply.match(/\{[\s\S]*\}/)?.[0];
+      if (!json) return null;
+
+      const parsed = JSON.parse(json);
+      if (!INTENTS.includes(parsed.intent)) return null;
+
+      const confidence = typeof parsed.confidence === 'number' ? Math.min(1, Math.max(0, parsed.confidence)) : 0.5;
+      return { intent: parsed.intent, confidence: round(confidence) };
+    } catch (error) {
+      console.error('LLM intent classification failed:', error);
+      return null;
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const intentService = new IntentService();
@@ -0,0 +1,134 @@
+import { readStreamLines } from './ai-service';
+
+export interface OllamaModelInfo {
+  name: string;
+  size: string;
+  sizeBytes: number;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  modifiedAt?: string;
+  // Currently held in memory by the Ollama server
+  loaded: boolean;
+  loadedUntil?: string;
+}
+
+export interface OllamaPullStatus {
+  model: string;
+  endpoint: string;
+  status: string;
+  completed?: number;
+  total?: number;
+  done: boolean;
+  error?: string;
+  startedAt: string;
+}
+
+export function formatBytes(bytes: number): string {
+  if (!bytes) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / Math.pow(1024, exponent)).toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+}
+
+/**
+ * Model management for Ollama servers: installed and loaded models, and model
+ * pulls. Pulls run in the background and can take minutes, so their progress
+ * is kept here for the admin UI to poll.
+ */
+export class OllamaService {
+  private pulls: Map<string, OllamaPullStatus> = new Map();
+
+  async listModels(endpoint: string): Promise<OllamaModelInfo[]> {
+    const [tags, running] = await Promise.all([
+      this.getJson(endpoint, '/api/tags'),
+      // Older servers have no /api/ps; the models are then reported as not loaded
+      this.getJson(endpoint, '/api/ps').catch(() => ({ models: [] }))
+    ]);
+
+    const loaded = new Map<string, string | undefined>(
+      (running.models || []).map((model: any) => [model.name, model.expires_at])
+    );
+
+    return (tags.models || []).map((model: any) => ({
+      name: model.name,
+      size: formatBytes(model.size || 0),
+      sizeBytes: model.size || 0,
+      family: model.details?.family,
+      parameterSize: model.details?.parameter_size,
+      quantization: model.details?.quantization_level,
+      modifiedAt: model.modified_at,
+      loaded: loaded.has(model.name),
+      loadedUntil: loaded.get(model.name)
+    }));
+  }
+
+  // Starts a pull unless one for the same model is already running
+  startPull(endpoint: string, model: string): OllamaPullStatus {
+    const key = `${endpoint}|${model}`;
+    const existing = this.pulls.get(key);
+    if (existing && !existing.done) return existing;
+
+    const pull: OllamaPullStatus = {
+      model,
+      endpoint,
+      status: 'starting',
+      done: false,
+      startedAt: new Date().toISOString()
+    };
+    this.pulls.set(key, pull);
+
+    this.runPull(pull).catch(error => {
+      pull.done = true;
+      pull.status = 'failed';
+      pull.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Pulling Ollama model ${model} failed:`, error);
+    });
+    return pull;
+  }
+
+  getPulls(): OllamaPullStatus[] {
+    return Array.from(this.pulls.values())
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  private async runPull(pull: OllamaPullStatus) {
+    const response = await fetch(`${pull.endpoint}/api/pull`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: pull.model, stream: true }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Ollama API error: ${response.statusText}`);
+    }
+
+    // Newline-delimited JSON progress, one object per layer update
+    for await (const line of readStreamLines(response.body)) {
+      const data = JSON.parse(line);
+      if (data.error) throw new Error(data.error);
+
+      pull.status = data.status || pull.status;
+      pull.total = data.total ?? pull.total;
+      pull.completed = data.completed ?? pull.completed;
+    }
+
+    pull.done = true;
+    if (pull.status !== 'success') {
+      throw new Error(`Pull ended with status "${pull.status}"`);
+    }
+    console.log(`✓ Pulled Ollama model ${pull.model}`);
+  }
+
+  private async getJson(endpoint: string, path: string): Promise<any> {
+    const response = await fetch(`${endpoint}${path}`);
+    if (!response.ok) {
+      throw new Error(`Ollama API error: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
+
+export const ollamaService = new OllamaService();
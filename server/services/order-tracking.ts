@@ -0,0 +1,101 @@
+import { OrderWithDetails } from '@shared/schema';
+
+export interface OrderTimelineItem {
+  id: number;
+  status: string;
+  date: string;
+  completed: boolean;
+  isLatest: boolean;
+}
+
+export interface OrderTrackingResponse {
+  order: {
+    id: number;
+    orderNumber: string;
+    orderDate: Date;
+    status: string;
+    customer: {
+      name: string;
+      email: string;
+    };
+  };
+  timeline: OrderTimelineItem[];
+  latestUpdate: {
+    status: string;
+    date: string;
+  } | null;
+}
+
+// Map nopCommerce status IDs to readable names
+export function getOrderStatus(statusId: number): string {
+  const statusMap: Record<number, string> = {
+    10: 'Pending',
+    20: 'Processing',
+    25: 'On Hold',
+    30: 'Complete',
+    40: 'Cancelled'
+  };
+  return statusMap[statusId] || `Status ID: ${statusId}`;
+}
+
+export function getShippingStatus(statusId: number): string {
+  const statusMap: Record<number, string> = {
+    10: 'Not Yet Shipped',
+    20: 'Partially Shipped',
+    25: 'Shipped',
+    30: 'Delivered'
+  };
+  return statusMap[statusId] || `Shipping Status ID: ${statusId}`;
+}
+
+// Shapes an order for the tracking UI, shared by the tracking endpoint and the
+// chat `track_order` tool
+export function buildOrderTrackingResponse(order: OrderWithDetails): OrderTrackingResponse {
+  const currentOrderStatus = getOrderStatus(order.orderStatusId || 10);
+
+  // Create timeline from order notes (these contain the actual progress updates)
+  const timeline: OrderTimelineItem[] = order.orderNotes.map((note, index) => ({
+    id: note.id,
+    status: note.note,
+    date: note.createdOnUtc?.toISOString() || new Date().toISOString(),
+    completed: true,
+    isLatest: index === order.orderNotes.length - 1
+  }));
+
+  // Add current status if no notes exist
+  if (timeline.length === 0) {
+    timeline.push({
+      id: 0,
+      status: `Order ${currentOrderStatus}`,
+      date: order.createdOnUtc?.toISOString() || new Date().toISOString(),
+      completed: true,
+      isLatest: true
+    });
+  }
+
+  // Get the most relevant current status
+  const currentStatus = timeline[timeline.length - 1].status;
+
+  // Get the latest order note for latestUpdate
+  const latestNote = order.orderNotes.length > 0
+    ? order.orderNotes[order.orderNotes.length - 1]
+    : null;
+
+  return {
+    order: {
+      id: order.id,
+      orderNumber: order.orderNumber,
+      orderDate: order.createdOnUtc || new Date(),
+      status: currentStatus,
+      customer: {
+        name: order.customer.fullName || `${order.customer.firstName} ${order.customer.lastName}`.trim(),
+        email: order.customer.email
+      }
+    },
+    timeline,
+    latestUpdate: latestNote ? {
+      status: latestNote.note,
+      date: latestNote.createdOnUtc?.toISOString() || new Date().toISOString()
+    } : null
+  };
+}
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface PersistedDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  embedding?: number[];
+  embeddingModel?: string;
+}
+
+type WalEntry =
+  | { op: 'put'; doc: PersistedDocument }
+  | { op: 'delete'; id: string };
+
+/**
+ * Durable JSON-lines store backing the vector storage collections.
+ *
+ * Every collection lives in two files inside the data directory: a snapshot
+ * (`<collection>.json`) and a write-ahead log (`<collection>.wal`). Writes are
+ * appended to the log and flushed before they resolve. On load the snapshot is
+ * read and the log replayed on top of it; once a log passes the compaction
+ * threshold the collection is rewritten as a new snapshot and the log removed.
+ */
+export class PersistentStore {
+  private walEntries: Map<string, number> = new Map();
+  private writeQueues: Map<string, Promise<void>> = new Map();
+
+  constructor(private dataDir: string, private compactThreshold: number = 500) {}
+
+  async load(): Promise<Map<string, PersistedDocument[]>> {
+    await fs.promises.mkdir(this.dataDir, { recursive: true });
+
+    const files = await fs.promises.readdir(this.dataDir);
+    const names = new Set<string>();
+    files.forEach(file => {
+      const match = file.match(/^(.+)\.(json|wal)$/);
+      if (match) names.add(match[1]);
+    });
+
+    const collections = new Map<string, PersistedDocument[]>();
+    for (const name of Array.from(names)) {
+      collections.set(name, await this.loadCollection(name));
+    }
+
+    return collections;
+  }
+
+  async put(collection: string, docs: PersistedDocument[], snapshot: () => PersistedDocument[]): Promise<void> {
+    if (docs.length === 0) return;
+    await this.append(collection, docs.map(doc => ({ op: 'put' as const, doc })), snapshot);
+  }
+
+  async delete(collection: string, ids: string[], snapshot: () => PersistedDocument[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.append(collection, ids.map(id => ({ op: 'delete' as const, id })), snapshot);
+  }
+
+  // Rewrites the snapshot from the in-memory state and drops the write-ahead log
+  async compact(collection: string, docs: PersistedDocument[]): Promise<void> {
+    await this.enqueue(collection, () => this.writeSnapshot(collection, docs));
+  }
+
+  private async loadCollection(name: string): Promise<PersistedDocument[]> {
+    const docs = new Map<string, PersistedDocument>();
+
+    try {
+      const snapshot = await fs.promises.readFile(this.snapshotPath(name), 'utf8');
+      const parsed: PersistedDocument[] = JSON.parse(snapshot);
+      parsed.forEach(doc => docs.set(doc.id, doc));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.error(`❌ Failed to read snapshot for ${name}:`, error);
+      }
+    }
+
+    let replayed = 0;
+    try {
+      const wal = await fs.promises.readFile(this.walPath(name), 'utf8');
+      wal.split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+          const entry: WalEntry = JSON.parse(line);
+          if (entry.op === 'put') {
+            docs.set(entry.doc.id, entry.doc);
+          } else if (entry.op === 'delete') {
+            docs.delete(entry.id);
+          }
+          replayed++;
+        } catch {
+          // A torn final line is expected after a crash mid-write
+          console.warn(`⚠️ Skipping unreadable WAL entry ${index + 1} in ${name}`);
+        }
+      });
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.error(`❌ Failed to read write-ahead log for ${name}:`, error);
+      }
+    }
+
+    this.walEntries.set(name, replayed);
+    return Array.from(docs.values());
+  }
+
+  private async append(collection: string, entries: WalEntry[], snapshot: () => PersistedDocument[]): Promise<void> {
+    await this.enqueue(collection, async () => {
+      const payload = entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+      const handle = await fs.promises.open(this.walPath(collection), 'a');
+      try {
+        await handle.write(payload);
+        await handle.datasync();
+      } finally {
+        await handle.close();
+      }
+
+      const count = (this.walEntries.get(collection) || 0) + entries.length;
+      this.walEntries.set(collection, count);
+
+      if (count >= this.compactThreshold) {
+        await this.writeSnapshot(collection, snapshot());
+      }
+    });
+  }
+
+  private async writeSnapshot(collection: string, docs: PersistedDocument[]): Promise<void> {
+    const target = this.snapshotPath(collection);
+    const temp = `${target}.tmp`;
+
+    const handle = await fs.promises.open(temp, 'w');
+    try {
+      await handle.write(JSON.stringify(docs));
+      await handle.datasync();
+    } finally {
+      await handle.close();
+    }
+
+    // Replaying the old log over the new snapshot is idempotent, so a crash
+    // between the rename and the unlink loses nothing
+    await fs.promises.rename(temp, target);
+    await fs.promises.rm(this.walPath(collection), { force: true });
+    this.walEntries.set(collection, 0);
+  }
+
+  // Serializes writes per collection so log order always matches call order
+  private enqueue(collection: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(collection) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writeQueues.set(collection, next);
+    return next;
+  }
+
+  private snapshotPath(collection: string): string {
+    return path.join(this.dataDir, `${collection}.json`);
+  }
+
+  private walPath(collection: string): string {
+    return path.join(this.dataDir, `${collection}.wal`);
+  }
+}
@@ -0,0 +1,216 @@
+import { PII_TYPES, PiiSettings, piiSettingsSchema, PiiType } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+
+export interface PiiMatch {
+  type: PiiType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+type PiiPurpose = 'store' | 'prompt';
+
+// Tokens handed out in one chat session, so the same value always gets the same token
+interface SessionTokens {
+  values: Map<string, string>;
+  tokens: Map<string, string>;
+  counts: Map<PiiType, number>;
+}
+
+const SETTINGS_KEY = 'pii_settings';
+// Token maps only live in memory; beyond this many sessions the oldest are dropped
+const MAX_SESSIONS = 10000;
+const TOKEN_PATTERN = /\[(?:EMAIL|PHONE|CARD|IBAN|ADDRESS)_\d+\]/g;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 check digits: move the country code and checksum to the end, then mod 97
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Long enough for a phone number, and not a date such as 2024-01-15
+function looksLikePhone(value: string): boolean {
+  const digits = digitsOf(value);
+  const minimum = value.startsWith('+') ? 9 : 10;
+  return digits.length >= minimum && digits.length <= 15 && !/^\d{4}-\d{2}-\d{2}/.test(value);
+}
+
+// Checked in this order; later detectors skip text an earlier one matched
+const DETECTORS: Array<{ type: PiiType; pattern: RegExp; valid?: (value: string) => boolean }> = [
+  { type: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { type: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/gi, valid: isValidIban },
+  { type: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, valid: passesLuhn },
+  // Not part of a longer number or word, such as a card number that failed the Luhn check
+  { type: 'phone', pattern: /(?<!\w)(?<!\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{6,16}\d(?![\s.-]?\d)/g, valid: looksLikePhone },
+  {
+    // House number and street name. Lowercase streets only with suffixes that
+    // rarely follow a number in other sentences ("2 items on the way")
+    type: 'address',
+    pattern: /\b\d{1,5}[A-Za-z]?\s+(?:(?:[A-Z][A-Za-z.'-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Crescent|Close|Square|Sq|Highway|Hwy|Parkway|Pkwy)|(?:[a-z.'-]+\s+){1,3}(?:street|avenue|boulevard|terrace|crescent|highway|parkway))\b/g
+  }
+];
+
+/**
+ * Detects and redacts customer PII in chat messages. Values are replaced by
+ * per-session tokens such as [EMAIL_1], separately for stored transcripts and
+ * for prompts sent to AI providers. The token map stays in memory, so tools
+ * like track_order can still be given the real email address; after a restart
+ * older tokens can no longer be resolved.
+ */
+export class PiiService {
+  private settings: PiiSettings = piiSettingsSchema.parse({});
+  private sessions: Map<string, SessionTokens> = new Map();
+  private initPromise: Promise<void> | null = null;
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    const saved = await vectorStorage.getSettings<PiiSettings>(SETTINGS_KEY);
+    this.settings = piiSettingsSchema.parse(saved || {});
+  }
+
+  getSettings(): PiiSettings {
+    return this.settings;
+  }
+
+  async saveSettings(settings: PiiSettings): Promise<PiiSettings> {
+    await this.initialize();
+    this.settings = await vectorStorage.saveSettings(SETTINGS_KEY, settings);
+    return this.settings;
+  }
+
+  detect(text: string, types: readonly PiiType[] = PII_TYPES): PiiMatch[] {
+    const matches: PiiMatch[] = [];
+    const overlaps = (start: number, end: number) => matches.some(match => start < match.end && end > match.start);
+
+    for (const detector of DETECTORS) {
+      if (!types.includes(detector.type)) continue;
+
+      for (const found of Array.from(text.matchAll(detector.pattern))) {
+        const value = found[0];
+        const start = found.index!;
+        const end = start + value.length;
+        if (overlaps(start, end) || (detector.valid && !detector.valid(value))) continue;
+        matches.push({ type: detector.type, value, start, end });
+      }
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+  }
+
+  redactForStorage(sessionId: string, text: string): string {
+    return this.redact(text, 'store', this.sessionTokens(sessionId));
+  }
+
+  redactForPrompt(sessionId: string, text: string): string {
+    return this.redact(text, 'prompt', this.sessionTokens(sessionId));
+  }
+
+  // Puts the original values back, e.g. into the answer shown to the customer
+  restore(sessionId: string, text: string): string {
+    const tokens = this.sessions.get(sessionId);
+    if (!tokens) return text;
+    return text.replace(TOKEN_PATTERN, token => tokens.values.get(token) ?? token);
+  }
+
+  restoreValues(sessionId: string, values: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? this.restore(sessionId, value) : value
+    ]));
+  }
+
+  // Redaction of a sample text with the current settings, for the admin test box
+  preview(text: string): { matches: PiiMatch[]; stored: string; prompt: string } {
+    return {
+      matches: this.detect(text),
+      stored: this.redact(text, 'store', this.emptyTokens()),
+      prompt: this.redact(text, 'prompt', this.emptyTokens())
+    };
+  }
+
+  private redact(text: string, purpose: PiiPurpose, tokens: SessionTokens): string {
+    // Tokens from earlier messages are resolved first, so a type that is only
+    // redacted for storage still reaches the provider in full
+    const restored = text.replace(TOKEN_PATTERN, token => tokens.values.get(token) ?? token);
+    if (!this.settings.enabled) return restored;
+
+    const types = PII_TYPES.filter(type => this.settings.types[type][purpose]);
+    let result = '';
+    let last = 0;
+    for (const match of this.detect(restored, types)) {
+      result += restored.slice(last, match.start) + this.tokenFor(tokens, match);
+      last = match.end;
+    }
+    return result + restored.slice(last);
+  }
+
+  private tokenFor(tokens: SessionTokens, match: PiiMatch): string {
+    const key = `${match.type}:${match.value.replace(/\s/g, '').toLowerCase()}`;
+    const existing = tokens.tokens.get(key);
+    if (existing) return existing;
+
+    const count = (tokens.counts.get(match.type) || 0) + 1;
+    const token = `[${match.type.toUpperCase()}_${count}]`;
+    tokens.counts.set(match.type, count);
+    tokens.tokens.set(key, token);
+    tokens.values.set(token, match.value);
+    return token;
+  }
+
+  private sessionTokens(sessionId: string): SessionTokens {
+    let tokens = this.sessions.get(sessionId);
+    if (!tokens) {
+      if (this.sessions.size >= MAX_SESSIONS) {
+        this.sessions.delete(this.sessions.keys().next().value!);
+      }
+      tokens = this.emptyTokens();
+      this.sessions.set(sessionId, tokens);
+    }
+    return tokens;
+  }
+
+  private emptyTokens(): SessionTokens {
+    return { values: new Map(), tokens: new Map(), counts: new Map() };
+  }
+}
+
+export const piiService = new PiiService();
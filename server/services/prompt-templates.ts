@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { PROMPT_VARIABLES, PromptTemplateVersion, PromptVariable } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+
+export type PromptVariables = Partial<Record<PromptVariable, string>>;
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  line: string;
+}
+
+// The prompt used before templates existed, with its hard-coded parts as variables
+export const DEFAULT_PROMPT_TEMPLATE = `You are a helpful customer service representative for {{storeName}}. Your role is to:
+
+1. Assist customers with their inquiries in a friendly, professional manner
+2. Help with order tracking, product recommendations, and general questions
+3. Ask relevant follow-up questions to better understand customer needs
+4. Provide accurate information based on the available data
+5. If you don't know something, politely say so and offer to help find the information
+
+Guidelines:
+- Be conversational and empathetic
+- Keep responses concise but helpful
+- Always maintain a positive, solution-oriented tone
+- Use the customer's name when appropriate
+- Offer additional assistance at the end of your responses
+
+Today is {{today}}.{{#customerName}} The customer's name is {{customerName}}.{{/customerName}}{{#customInstructions}}
+
+Additional Instructions:
+{{customInstructions}}{{/customInstructions}}{{#context}}
+
+Relevant Information:
+{{context}}{{/context}}`;
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  const value = (name: string) => variables[name as PromptVariable] || '';
+
+  return template
+    .replace(SECTION_PATTERN, (_, name: string, body: string) => value(name) ? body : '')
+    .replace(VARIABLE_PATTERN, (match, marker: string, name: string) => marker ? match : value(name));
+}
+
+// Placeholders that are not one of PROMPT_VARIABLES, likely typos
+export function findUnknownVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(VARIABLE_PATTERN), match => match[2]);
+  return Array.from(new Set(names)).filter(name => !(PROMPT_VARIABLES as readonly string[]).includes(name));
+}
+
+// Line diff via longest common subsequence; templates are short
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'same', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ type: 'removed', line: a[i++] });
+    } else {
+      diff.push({ type: 'added', line: b[j++] });
+    }
+  }
+  a.slice(i).forEach(line => diff.push({ type: 'removed', line }));
+  b.slice(j).forEach(line => diff.push({ type: 'added', line }));
+  return diff;
+}
+
+/**
+ * Versioned system prompt template. Every save adds a version and the newest
+ * one is active; rolling back saves a copy of an earlier version, so history
+ * is never rewritten.
+ */
+export class PromptTemplateService {
+  private versions: PromptTemplateVersion[] = [];
+  private initPromise: Promise<void> | null = null;
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    this.versions = await vectorStorage.getPromptVersions();
+    if (this.versions.length === 0) {
+      await this.saveVersion(DEFAULT_PROMPT_TEMPLATE, { note: 'Default template' });
+      console.log('✓ Created default system prompt template');
+    }
+  }
+
+  // Falls back to the default until initialize has loaded the history
+  getActiveTemplate(): string {
+    return this.versions[this.versions.length - 1]?.template || DEFAULT_PROMPT_TEMPLATE;
+  }
+
+  listVersions(): PromptTemplateVersion[] {
+    return [...this.versions].reverse();
+  }
+
+  getVersion(version: number): PromptTemplateVersion | undefined {
+    return this.versions.find(entry => entry.version === version);
+  }
+
+  async saveTemplate(template: string, note?: string, createdBy?: string): Promise<PromptTemplateVersion> {
+    await this.initialize();
+    return this.saveVersion(template, { note, createdBy });
+  }
+
+  async rollback(version: number, createdBy?: string): Promise<PromptTemplateVersion | undefined> {
+    await this.initialize();
+
+    const target = this.getVersion(version);
+    if (!target) return undefined;
+
+    return this.saveVersion(target.template, {
+      note: `Rolled back to version ${version}`,
+      createdBy,
+      restoredFrom: version
+    });
+  }
+
+  private async saveVersion(template: string, details: Pick<PromptTemplateVersion, 'note' | 'createdBy' | 'restoredFrom'>) {
+    const latest = this.versions[this.versions.length - 1];
+    const version = await vectorStorage.savePromptVersion({
+      id: crypto.randomUUID(),
+      version: (latest?.version || 0) + 1,
+      template,
+      createdAt: new Date().toISOString(),
+      ...details
+    });
+
+    this.versions.push(version);
+    return version;
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
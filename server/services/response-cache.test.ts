@@ -0,0 +1,23 @@
+import '../test/setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { responseCacheService } from './response-cache';
+import type { RAGResponse } from './rag-service';
+
+const ANSWER = { message: 'Returns are accepted within 30 days.', sources: [], confidence: 0.9 } as unknown as RAGResponse;
+
+test('caches an answer and drops it when answer settings change', async () => {
+  await responseCacheService.saveSettings({ ...responseCacheService.getSettings(), enabled: true });
+
+  const first = await responseCacheService.lookup('What is your return policy?');
+  assert.equal(first.response, undefined);
+  responseCacheService.store(first.key!, ANSWER);
+
+  const repeated = await responseCacheService.lookup('what is your RETURN policy');
+  assert.equal(repeated.response, ANSWER);
+
+  responseCacheService.invalidate('Prompt template changed');
+  const afterChange = await responseCacheService.lookup('What is your return policy?');
+  assert.equal(afterChange.response, undefined);
+  assert.equal(responseCacheService.getStats().invalidations, 1);
+});
@@ -0,0 +1,214 @@
+import { ResponseCacheSettings, responseCacheSettingsSchema } from '@shared/schema';
+import { vectorStorage } from './vector-storage';
+import { embeddingService, cosineSimilarity } from './embedding-service';
+import type { RAGResponse } from './rag-service';
+
+// Identifies a customer question; a fresh answer is stored under it
+export interface CacheKey {
+  normalized: string;
+  embedding: number[];
+  model: string;
+  // Knowledge and product version the answer is based on
+  contentVersion: number;
+}
+
+export interface CacheLookup {
+  // Null when caching is turned off
+  key: CacheKey | null;
+  response?: RAGResponse;
+}
+
+interface CacheEntry extends CacheKey {
+  response: RAGResponse;
+  createdAt: number;
+  hits: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  hits: number;
+  // Hits on a differently worded question
+  semanticHits: number;
+  misses: number;
+  bypassed: number;
+  // Times the cache was cleared because knowledge, products or answer settings changed
+  invalidations: number;
+  hitRate: number;
+  topQuestions: { question: string; hits: number }[];
+  since: string;
+}
+
+const SETTINGS_KEY = 'response_cache_settings';
+
+/**
+ * Caches bot answers to repeated questions, matched on the normalized question
+ * text or, failing that, on embedding similarity. Entries expire after the TTL
+ * and are dropped as soon as the knowledge base or product catalog changes, or
+ * settings that shape answers are saved.
+ */
+export class ResponseCacheService {
+  private settings: ResponseCacheSettings = responseCacheSettingsSchema.parse({});
+  private initPromise: Promise<void> | null = null;
+  // Keyed by normalized question, least recently used first
+  private entries = new Map<string, CacheEntry>();
+  private contentVersion = vectorStorage.getContentVersion();
+  private counters = { hits: 0, semanticHits: 0, misses: 0, bypassed: 0, invalidations: 0 };
+  private since = new Date();
+
+  async initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load() {
+    const saved = await vectorStorage.getSettings<ResponseCacheSettings>(SETTINGS_KEY);
+    this.settings = responseCacheSettingsSchema.parse(saved || {});
+  }
+
+  getSettings(): ResponseCacheSettings {
+    return this.settings;
+  }
+
+  async saveSettings(settings: ResponseCacheSettings): Promise<ResponseCacheSettings> {
+    await this.initialize();
+    this.settings = await vectorStorage.saveSettings(SETTINGS_KEY, settings);
+    if (!settings.enabled) this.entries.clear();
+    return this.settings;
+  }
+
+  // With `bypass` the cached answer is skipped, but the key is still returned
+  // so the fresh answer replaces it
+  async lookup(query: string, bypass: boolean = false): Promise<CacheLookup> {
+    await this.initialize();
+    if (!this.settings.enabled) return { key: null };
+
+    this.prune();
+    const key = await this.createKey(query);
+
+    if (bypass) {
+      this.counters.bypassed++;
+      return { key };
+    }
+
+    const entry = this.entries.get(key.normalized) || this.findSimilar(key);
+    if (!entry) {
+      this.counters.misses++;
+      return { key };
+    }
+
+    this.counters.hits++;
+    if (entry.normalized !== key.normalized) this.counters.semanticHits++;
+    entry.hits++;
+    this.entries.delete(entry.normalized);
+    this.entries.set(entry.normalized, entry);
+
+    return { key, response: entry.response };
+  }
+
+  store(key: CacheKey, response: RAGResponse) {
+    // Knowledge or products changed while the answer was being generated
+    if (!this.settings.enabled || key.contentVersion !== vectorStorage.getContentVersion()) return;
+
+    // A refreshed answer keeps the question's hit count
+    const hits = this.entries.get(key.normalized)?.hits || 0;
+    this.entries.delete(key.normalized);
+    this.entries.set(key.normalized, { ...key, response, createdAt: Date.now(), hits });
+
+    while (this.entries.size > this.settings.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): number {
+    const cleared = this.entries.size;
+    this.entries.clear();
+    return cleared;
+  }
+
+  // Drops every entry after a change to settings that shape answers, such as
+  // the prompt template or guardrails
+  invalidate(reason: string) {
+    if (this.entries.size === 0) return;
+    console.log(`✓ ${reason}, cleared ${this.entries.size} cached answers`);
+    this.counters.invalidations++;
+    this.entries.clear();
+  }
+
+  getStats(): ResponseCacheStats {
+    this.prune();
+
+    const { hits, misses } = this.counters;
+    const topQuestions = Array.from(this.entries.values())
+      .filter(entry => entry.hits > 0)
+      .sort((a, b) => b.hits - a.hits)
+      .slice(0, 10)
+      .map(entry => ({ question: entry.normalized, hits: entry.hits }));
+
+    return {
+      entries: this.entries.size,
+      ...this.counters,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      topQuestions,
+      since: this.since.toISOString()
+    };
+  }
+
+  // Drops expired entries, and every entry once knowledge or products changed
+  private prune() {
+    const version = vectorStorage.getContentVersion();
+    if (version !== this.contentVersion) {
+      if (this.entries.size > 0) {
+        console.log(`✓ Knowledge or products changed, cleared ${this.entries.size} cached answers`);
+        this.counters.invalidations++;
+        this.entries.clear();
+      }
+      this.contentVersion = version;
+    }
+
+    const cutoff = Date.now() - this.settings.ttlSeconds * 1000;
+    this.entries.forEach((entry, normalized) => {
+      if (entry.createdAt < cutoff) this.entries.delete(normalized);
+    });
+  }
+
+  private async createKey(query: string): Promise<CacheKey> {
+    const normalized = normalizeQuery(query);
+    const contentVersion = vectorStorage.getContentVersion();
+    return embeddingService.withEmbedder(async (embed, model) => {
+      const [embedding] = await embed([normalized]);
+      return { normalized, embedding, model, contentVersion };
+    });
+  }
+
+  private findSimilar(key: CacheKey): CacheEntry | undefined {
+    let best: CacheEntry | undefined;
+    let bestScore = this.settings.similarityThreshold;
+
+    this.entries.forEach(entry => {
+      if (entry.model !== key.model) return;
+      const score = cosineSimilarity(key.embedding, entry.embedding);
+      if (score >= bestScore) {
+        best = entry;
+        bestScore = score;
+      }
+    });
+
+    return best;
+  }
+}
+
+// Case, punctuation and spacing do not change the question
+function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export const responseCacheService = new ResponseCacheService();
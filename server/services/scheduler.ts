@@ -1,7 +1,6 @@
 import cron from 'node-cron';
 import { storage } from '../storage';
 import { contentParser } from './content-parser';
-import { vectorService } from './vector-service';
 
 export class SchedulerService {
   private static instance: SchedulerService;
@@ -0,0 +1,60 @@
+import '../test/setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AiProfile } from '@shared/schema';
+import { secretsService } from './secrets';
+import { vectorStorage } from './vector-storage';
+
+const API_KEY = 'sk-test-0123456789abcdef';
+
+test('encrypts secrets so they decrypt only unaltered', () => {
+  const encrypted = secretsService.encrypt(API_KEY);
+  assert.ok(secretsService.isEncrypted(encrypted));
+  assert.ok(!encrypted.includes(API_KEY));
+  assert.equal(secretsService.decrypt(encrypted), API_KEY);
+  assert.ok(!secretsService.needsReencryption(encrypted));
+
+  const tampered = encrypted.slice(0, -2) + (encrypted.endsWith('AA') ? 'BB' : 'AA');
+  assert.throws(() => secretsService.decrypt(tampered));
+});
+
+test('treats plain-text values as legacy secrets', () => {
+  assert.equal(secretsService.decrypt(API_KEY), API_KEY);
+  assert.ok(secretsService.needsReencryption(API_KEY));
+});
+
+test('redacts secrets and keeps the stored one when the redacted value comes back', () => {
+  const redacted = secretsService.redactSecrets({ apiKey: API_KEY, model: 'gpt' });
+  assert.deepEqual(redacted, { apiKey: 'sk-****cdef', model: 'gpt' });
+  assert.deepEqual(secretsService.keepExistingSecrets(redacted, { apiKey: API_KEY }), { apiKey: API_KEY, model: 'gpt' });
+  assert.deepEqual(secretsService.keepExistingSecrets({ apiKey: 'sk-new-key-98765' }, { apiKey: API_KEY }), { apiKey: 'sk-new-key-98765' });
+});
+
+test('rotating the master key re-encrypts stored profiles and retires the old key', async () => {
+  const now = new Date().toISOString();
+  const profile = {
+    id: 'profile_rotation',
+    name: 'Primary',
+    provider: 'openai_compatible',
+    config: { baseUrl: 'http://127.0.0.1:1', model: 'test-model', apiKey: API_KEY },
+    priority: 0,
+    enabled: true,
+    timeoutMs: 30000,
+    createdAt: now,
+    updatedAt: now
+  } as unknown as AiProfile;
+  await vectorStorage.saveAiProfile(profile);
+  const underOldKey = secretsService.encrypt(API_KEY);
+
+  assert.ok(secretsService.rotateKey());
+  assert.ok(secretsService.needsReencryption(underOldKey));
+  assert.equal(secretsService.decrypt(underOldKey), API_KEY);
+
+  assert.equal(await vectorStorage.reencryptSecrets(), 1);
+  assert.equal(await vectorStorage.reencryptSecrets(), 0);
+  secretsService.dropPreviousKeys();
+
+  assert.throws(() => secretsService.decrypt(underOldKey), /unknown master key/);
+  const [stored] = await vectorStorage.getAiProfiles();
+  assert.equal((stored.config as { apiKey: string }).apiKey, API_KEY);
+});
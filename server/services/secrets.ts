@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { secretsConfig } from '../config';
+
+// Provider config fields that hold credentials
+export const SECRET_FIELDS = ['apiKey'] as const;
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+  secret: string;
+}
+
+function deriveKey(secret: string): MasterKey {
+  const key = crypto.createHash('sha256').update(secret).digest();
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8), key, secret };
+}
+
+/**
+ * AES-256-GCM encryption for provider secrets kept in vector storage.
+ *
+ * Ciphertexts look like `enc:v1:<keyId>:<iv>.<tag>.<data>`. The key id lets
+ * values written under a previous master key be decrypted and re-encrypted
+ * under the current one. Values without the prefix are legacy plain text.
+ */
+export class SecretsService {
+  // Current key first
+  private keys: MasterKey[] | null = null;
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  encrypt(plainText: string): string {
+    const [current] = this.getKeys();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', current.key, iv);
+    const data = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    const parts = [iv, cipher.getAuthTag(), data].map(part => part.toString('base64url'));
+    return `${ENCRYPTED_PREFIX}${current.id}:${parts.join('.')}`;
+  }
+
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const [keyId, payload] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    const masterKey = this.getKeys().find(key => key.id === keyId);
+    if (!masterKey) {
+      throw new Error(`Secret was encrypted with unknown master key ${keyId}`);
+    }
+
+    const [iv, tag, data] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  }
+
+  // Plain text and values under a previous key both need re-encrypting
+  needsReencryption(value: string): boolean {
+    if (!this.isEncrypted(value)) return true;
+    return !value.startsWith(`${ENCRYPTED_PREFIX}${this.getKeys()[0].id}:`);
+  }
+
+  // `sk-abc...wxyz` becomes `sk-****wxyz`; short values are fully hidden
+  redact(value: string): string {
+    return value.length >= 12 ? `${value.slice(0, 3)}****${value.slice(-4)}` : '****';
+  }
+
+  encryptSecrets<T extends object>(config: T): T {
+    return this.mapSecrets(config, value => this.isEncrypted(value) ? value : this.encrypt(value));
+  }
+
+  decryptSecrets<T extends object>(config: T): T {
+    return this.mapSecrets(config, value => this.decrypt(value));
+  }
+
+  redactSecrets<T extends object>(config: T): T {
+    return this.mapSecrets(config, value => this.redact(value));
+  }
+
+  // Lets a form send back the redacted value, or nothing, to keep the stored
+  // secret. `existing` must be decrypted.
+  keepExistingSecrets<T extends object>(incoming: T, existing: object | undefined): T {
+    if (!existing) return incoming;
+
+    const merged = { ...incoming } as Record<string, unknown>;
+    SECRET_FIELDS.forEach(field => {
+      const previous = (existing as Record<string, unknown>)[field];
+      const value = merged[field];
+      if (typeof previous === 'string' && previous && (!value || value === this.redact(previous))) {
+        merged[field] = previous;
+      }
+    });
+    return merged as T;
+  }
+
+  // Generates a new current key when keys come from the key file. Env keys are
+  // rotated by the operator, so this returns false for them.
+  rotateKey(): boolean {
+    if (secretsConfig.masterKey) return false;
+
+    this.writeKeyFile([crypto.randomBytes(32).toString('hex'), ...this.readKeyFile()]);
+    this.keys = null;
+    console.log('✓ Generated a new secrets master key');
+    return true;
+  }
+
+  // The master keys as configured, for the output guardrail to look for
+  getMasterSecrets(): string[] {
+    return this.getKeys().map(key => key.secret);
+  }
+
+  // Drops previous keys from the key file once nothing is encrypted with them
+  dropPreviousKeys() {
+    if (secretsConfig.masterKey) return;
+
+    this.writeKeyFile(this.readKeyFile().slice(0, 1));
+    this.keys = null;
+  }
+
+  private mapSecrets<T extends object>(config: T, transform: (value: string) => string): T {
+    const mapped = { ...config } as Record<string, unknown>;
+    SECRET_FIELDS.forEach(field => {
+      const value = mapped[field];
+      if (typeof value === 'string' && value) {
+        mapped[field] = transform(value);
+      }
+    });
+    return mapped as T;
+  }
+
+  private getKeys(): MasterKey[] {
+    if (!this.keys) {
+      const secrets = secretsConfig.masterKey
+        ? [secretsConfig.masterKey, ...secretsConfig.previousMasterKeys]
+        : this.readKeyFile();
+      this.keys = secrets.map(deriveKey);
+    }
+    return this.keys;
+  }
+
+  // One key per line, current first. Created on first use.
+  private readKeyFile(): string[] {
+    if (fs.existsSync(secretsConfig.keyFile)) {
+      const keys = fs.readFileSync(secretsConfig.keyFile, 'utf8')
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean);
+      if (keys.length > 0) return keys;
+    }
+
+    const key = crypto.randomBytes(32).toString('hex');
+    this.writeKeyFile([key]);
+    console.warn(`⚠️ SECRETS_MASTER_KEY not set, generated a master key in ${secretsConfig.keyFile}`);
+    return [key];
+  }
+
+  private writeKeyFile(keys: string[]) {
+    fs.mkdirSync(path.dirname(secretsConfig.keyFile), { recursive: true });
+    fs.writeFileSync(secretsConfig.keyFile, `${keys.join('\n')}\n`, { mode: 0o600 });
+  }
+}
+
+export const secretsService = new SecretsService();
@@ -1,11 +1,13 @@
 import { ChromaClient, Collection } from 'chromadb';
 import { HfInference } from '@huggingface/inference';
 import { v4 as uuidv4 } from 'uuid';
+import { vectorStorageConfig } from '../config';
 
 export interface VectorDocument {
   id: string;
   content: string;
   metadata?: Record<string, any>;
+  embedding?: number[];
 }
 
 export interface SearchResult {
@@ -21,8 +23,11 @@ export class VectorService {
   private collections: Map<string, Collection> = new Map();
   
   constructor() {
+    const chromaUrl = new URL(vectorStorageConfig.chromaUrl);
     this.client = new ChromaClient({
-      path: 'http://localhost:8000' // Default ChromaDB path
+      host: chromaUrl.hostname,
+      port: chromaUrl.port ? parseInt(chromaUrl.port, 10) : (chromaUrl.protocol === 'https:' ? 443 : 80),
+      ssl: chromaUrl.protocol === 'https:'
     });
     
     // Initialize Hugging Face for embeddings (fallback)
@@ -54,15 +59,13 @@ export class VectorService {
     }
 
     try {
-      let collection: Collection;
-      try {
-        collection = await this.client.getCollection({ name });
-      } catch {
-        collection = await this.client.createCollection({ 
-          name,
-          metadata: { description: `Collection for ${name}` }
-        });
-      }
+      // Embeddings are always supplied by the caller, so no server-side
+      // embedding function is attached to the collection
+      const collection = await this.client.getOrCreateCollection({
+        name,
+        metadata: { description: `Collection for ${name}` },
+        embeddingFunction: null
+      });
       
       this.collections.set(name, collection);
       return collection;
@@ -94,6 +97,58 @@ export class VectorService {
     }
   }
 
+  // Inserts or replaces documents using caller-provided embeddings
+  async upsertDocuments(collectionName: string, documents: VectorDocument[]): Promise<void> {
+    try {
+      const collection = await this.getOrCreateCollection(collectionName);
+
+      await collection.upsert({
+        ids: documents.map(doc => doc.id),
+        documents: documents.map(doc => doc.content),
+        metadatas: documents.map(doc => doc.metadata || {}),
+        embeddings: documents.map(doc => doc.embedding || [0])
+      });
+    } catch (error) {
+      console.error(`Failed to upsert documents into ${collectionName}:`, error);
+      throw error;
+    }
+  }
+
+  async getAllDocuments(collectionName: string, pageSize: number = 500): Promise<VectorDocument[]> {
+    const collection = await this.getOrCreateCollection(collectionName);
+    const documents: VectorDocument[] = [];
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await collection.get({
+        limit: pageSize,
+        offset,
+        include: ['documents', 'metadatas']
+      });
+
+      page.ids.forEach((id, index) => {
+        documents.push({
+          id,
+          content: page.documents[index] || '',
+          metadata: page.metadatas[index] || {}
+        });
+      });
+
+      if (page.ids.length < pageSize) break;
+    }
+
+    return documents;
+  }
+
+  async listCollections(): Promise<string[]> {
+    const collections = await this.client.listCollections({ limit: 1000 });
+    return collections.map(collection => collection.name);
+  }
+
+  async deleteDocuments(collectionName: string, documentIds: string[]): Promise<void> {
+    const collection = await this.getOrCreateCollection(collectionName);
+    await collection.delete({ ids: documentIds });
+  }
+
   async searchSimilar(
     collectionName: string, 
     query: string, 
@@ -1,24 +1,56 @@
 import { v4 as uuidv4 } from 'uuid';
-import { AiConfig, AzureConfig, OllamaConfig, KnowledgeBase, Product, MerchantFeed } from '@shared/schema';
+import { AiConfig, KnowledgeDocument, Product, MerchantFeed, IntentExample, HandoffSession, ChatSender, ChatSessionRecord, AdminUserRecord, AiProfile, PromptTemplateVersion, GuardrailEvent, FaqEntry } from '@shared/schema';
+import { vectorStorageConfig } from '../config';
+import { CONTENT_COLLECTIONS, STORED_COLLECTIONS, VectorStore, VectorStoreBackend, createVectorStore, isVectorStoreBackend } from './vector-store';
+import { embeddingService, cosineSimilarity } from './embedding-service';
+import { secretsService, SECRET_FIELDS } from './secrets';
 
 export interface VectorStorageDocument {
   id: string;
   content: string;
   metadata: Record<string, any>;
-  type: 'ai_config' | 'knowledge_base' | 'product' | 'merchant_feed' | 'chat_message';
+  type: 'ai_config' | 'knowledge_base' | 'product' | 'merchant_feed' | 'chat_message' | 'settings' | 'intent_example' | 'handoff' | 'chat_session';
+}
+
+// Part of a structured document, chunked on its own so that its chunks keep
+// where in the document they came from. Chunks are sections too.
+export interface DocumentSection {
+  text: string;
+  // Enclosing headings, outermost first
+  headings?: string[];
+  page?: number;
+}
+
+// Collections bot answers are drawn from
+const ANSWER_SOURCE_COLLECTIONS = ['knowledge_base', 'products', 'faqs'];
+// A customer question that matches an FAQ question closely is usually the same question
+const FAQ_QUESTION_BOOST = 1.2;
+// Chunks of a document without a stored record repeat the end of the previous
+// chunk; a shorter shared run is taken as coincidence
+const MIN_CHUNK_OVERLAP = 20;
+
+// In-memory working set, mirrored to the configured vector store backend
+// A knowledge base document as stored, with the sections it was chunked from
+export interface StoredKnowledgeDocument extends KnowledgeDocument {
+  sections?: DocumentSection[];
 }
 
-// In-memory vector storage fallback when ChromaDB is not available
 interface InMemoryDocument {
   id: string;
   content: string;
   metadata: Record<string, any>;
-  embedding?: number[]; // Simple text-based similarity for now
+  embedding?: number[];
+  embeddingModel?: string; // Embedder that produced `embedding`
 }
 
 export class VectorStorage {
   private collections: Map<string, InMemoryDocument[]> = new Map();
-  private initialized = false;
+  private store: VectorStore | null = null;
+  private initPromise: Promise<void> | null = null;
+  // Bumped whenever knowledge or products change, so cached answers can be invalidated
+  private contentVersion = 0;
+  // Collections being re-embedded in the background
+  private reembedding: Set<string> = new Set();
 
   constructor() {
     // Initialize in-memory collections
@@ -30,11 +62,30 @@ export class VectorStorage {
   }
 
   async initialize() {
-    if (this.initialized) return;
-    
+    if (!this.initPromise) {
+      this.initPromise = this.loadFromStore().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async loadFromStore() {
+    const configured = isVectorStoreBackend(vectorStorageConfig.backend) ? vectorStorageConfig.backend : 'local';
+
     try {
-      console.log('✓ Using in-memory vector storage (ChromaDB fallback)');
-      this.initialized = true;
+      let store = createVectorStore(configured);
+      try {
+        await store.initialize();
+      } catch (error) {
+        if (configured === 'local') throw error;
+        console.error(`⚠️ Vector store backend "${configured}" unavailable, falling back to local storage:`, error);
+        store = createVectorStore('local');
+        await store.initialize();
+      }
+
+      await this.useStore(store);
       console.log('✓ Vector storage initialized');
     } catch (error) {
       console.error('❌ Failed to initialize vector storage:', error);
@@ -42,6 +93,75 @@ export class VectorStorage {
     }
   }
 
+  // Replaces the whole working set with what `store` holds, so collections the
+  // previous backend had but this one lacks are not carried over
+  private async useStore(store: VectorStore) {
+    const persisted = await store.load();
+    let total = 0;
+    persisted.forEach(docs => {
+      total += docs.length;
+    });
+    this.collections = persisted;
+    this.store = store;
+    this.contentVersion++;
+    console.log(`✓ Loaded ${total} documents from ${store.backend} vector store`);
+  }
+
+  getBackend(): { configured: string; active: VectorStoreBackend | null } {
+    return {
+      configured: vectorStorageConfig.backend,
+      active: this.store?.backend || null
+    };
+  }
+
+  // Copies the searchable content from one backend into another. The live
+  // working set is used as the source when `from` is the active backend; with
+  // `activate` the application state is copied too and the target becomes the
+  // live backend afterwards.
+  async migrate(from: VectorStoreBackend, to: VectorStoreBackend, activate: boolean = false) {
+    await this.initialize();
+
+    const live = this.store!;
+    if (from === 'memory' && live.backend !== 'memory') {
+      throw new Error('The memory backend only holds data while it is the live backend');
+    }
+
+    let collections: Map<string, InMemoryDocument[]>;
+    if (from === live.backend) {
+      collections = this.collections;
+    } else {
+      const source = createVectorStore(from);
+      await source.initialize();
+      collections = await source.load();
+    }
+
+    const target = to === live.backend ? live : createVectorStore(to);
+    if (target !== live) {
+      await target.initialize();
+      // A local store compacts from what it holds in memory, so what is on disk
+      // has to be loaded before anything is written
+      await target.load();
+    }
+
+    const migrated: Record<string, number> = {};
+    for (const name of activate ? STORED_COLLECTIONS : CONTENT_COLLECTIONS) {
+      const docs = collections.get(name) || [];
+      if (docs.length === 0) continue;
+      await target.upsert(name, docs);
+      migrated[name] = docs.length;
+    }
+
+    if (activate && target !== live) {
+      await this.useStore(target);
+    }
+
+    return { from, to, activated: activate && target !== live, collections: migrated };
+  }
+
+  getContentVersion(): number {
+    return this.contentVersion;
+  }
+
   private getCollection(name: string): InMemoryDocument[] {
     if (!this.collections.has(name)) {
       this.collections.set(name, []);
@@ -49,48 +169,31 @@ export class VectorStorage {
     return this.collections.get(name)!;
   }
 
-  // AI Configuration methods
-  async saveAiConfig(config: {
-    provider: 'azure' | 'ollama';
-    config: AzureConfig | OllamaConfig;
-    customInstructions?: string;
-  }): Promise<AiConfig> {
-    await this.initialize();
-    
-    const collection = this.getCollection('ai_configs');
-    const id = 'current_ai_config';
-    
-    const aiConfig: AiConfig = {
-      id: 1,
-      provider: config.provider,
-      config: config.config,
-      customInstructions: config.customInstructions,
-      isActive: true,
-      createdOnUtc: new Date(),
-      updatedOnUtc: new Date()
-    };
-
-    // Remove existing config
-    const existingIndex = collection.findIndex(doc => doc.id === id);
-    if (existingIndex !== -1) {
-      collection.splice(existingIndex, 1);
-    }
-
-    // Store new config
-    collection.push({
-      id,
-      content: JSON.stringify(aiConfig),
-      metadata: {
-        type: 'ai_config',
-        provider: config.provider,
-        active: true,
-        updatedAt: new Date().toISOString()
+  // Upserts documents by id. The store is written first, so a failed write
+  // leaves the working set matching what is persisted.
+  private async putDocuments(name: string, docs: InMemoryDocument[]) {
+    await this.store!.upsert(name, docs);
+    const collection = this.getCollection(name);
+    docs.forEach(doc => {
+      const index = collection.findIndex(existing => existing.id === doc.id);
+      if (index !== -1) {
+        collection[index] = doc;
+      } else {
+        collection.push(doc);
       }
     });
+    if (ANSWER_SOURCE_COLLECTIONS.includes(name)) this.contentVersion++;
+  }
 
-    return aiConfig;
+  private async deleteDocuments(name: string, ids: string[]) {
+    await this.store!.delete(name, ids);
+    const idSet = new Set(ids);
+    this.collections.set(name, this.getCollection(name).filter(doc => !idSet.has(doc.id)));
+    if (ANSWER_SOURCE_COLLECTIONS.includes(name)) this.contentVersion++;
   }
 
+  // AI Configuration methods
+  // The single config saved before provider profiles; read once to migrate it
   async getAiConfig(): Promise<AiConfig | undefined> {
     await this.initialize();
     
@@ -99,7 +202,8 @@ export class VectorStorage {
     try {
       const doc = collection.find(doc => doc.id === 'current_ai_config');
       if (doc) {
-        return JSON.parse(doc.content);
+        const aiConfig: AiConfig = JSON.parse(doc.content);
+        return { ...aiConfig, config: secretsService.decryptSecrets(aiConfig.config as object) };
       }
     } catch (error) {
       console.error('Error getting AI config:', error);
@@ -108,111 +212,282 @@ export class VectorStorage {
     return undefined;
   }
 
-  // Knowledge Base methods
+  async deleteAiConfig(): Promise<void> {
+    await this.initialize();
+    await this.deleteDocuments('ai_configs', ['current_ai_config']);
+  }
+
+  // AI provider profiles, with their secrets encrypted
+  async saveAiProfile(profile: AiProfile): Promise<AiProfile> {
+    await this.initialize();
+
+    await this.putDocuments('ai_profiles', [{
+      id: profile.id,
+      content: JSON.stringify({ ...profile, config: secretsService.encryptSecrets(profile.config) }),
+      metadata: {
+        type: 'ai_profile',
+        provider: profile.provider,
+        priority: profile.priority,
+        updatedAt: profile.updatedAt
+      }
+    }]);
+
+    return profile;
+  }
+
+  async getAiProfiles(): Promise<AiProfile[]> {
+    await this.initialize();
+
+    return this.getCollection('ai_profiles')
+      .map(doc => {
+        const profile: AiProfile = JSON.parse(doc.content);
+        return { ...profile, config: secretsService.decryptSecrets(profile.config) };
+      })
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  async deleteAiProfile(id: string): Promise<boolean> {
+    await this.initialize();
+
+    if (!this.getCollection('ai_profiles').some(doc => doc.id === id)) {
+      return false;
+    }
+    await this.deleteDocuments('ai_profiles', [id]);
+    return true;
+  }
+
+  // Encrypts plain-text secrets and re-encrypts ones under a previous master
+  // key. Returns the number of configs rewritten.
+  async reencryptSecrets(): Promise<number> {
+    await this.initialize();
+
+    let rewritten = 0;
+    for (const name of ['ai_configs', 'ai_profiles']) {
+      const stale = this.getCollection(name).filter(doc => {
+        const config = JSON.parse(doc.content).config || {};
+        return SECRET_FIELDS.some(field => typeof config[field] === 'string' && config[field] && secretsService.needsReencryption(config[field]));
+      });
+
+      if (stale.length > 0) {
+        await this.putDocuments(name, stale.map(doc => {
+          const record = JSON.parse(doc.content);
+          const config = secretsService.encryptSecrets(secretsService.decryptSecrets(record.config));
+          return { ...doc, content: JSON.stringify({ ...record, config }) };
+        }));
+        rewritten += stale.length;
+      }
+    }
+
+    return rewritten;
+  }
+
+  // Knowledge Base methods. Each document is kept whole in knowledge_documents
+  // and searched through its chunks in knowledge_base, which share its id as
+  // their parentId.
   async addKnowledgeBase(knowledge: {
     title: string;
     content: string;
     type: string;
     sourceUrl?: string;
     metadata?: Record<string, any>;
-  }): Promise<KnowledgeBase> {
+    // Pages or headed sections of a structured document such as a PDF or DOCX,
+    // kept so the document can be chunked again with other settings
+    sections?: DocumentSection[];
+    // The document split by the chunking service, each chunk with its page and headings
+    chunks: DocumentSection[];
+  }): Promise<KnowledgeDocument> {
     await this.initialize();
-    
-    const collection = this.getCollection('knowledge_base');
-    const id = uuidv4();
-    
-    const knowledgeItem: KnowledgeBase = {
-      id: Date.now(), // Simple ID for compatibility
-      title: knowledge.title,
-      content: knowledge.content,
-      type: knowledge.type,
-      sourceUrl: knowledge.sourceUrl,
-      vectorId: id,
-      metadata: knowledge.metadata,
+
+    const now = new Date().toISOString();
+    const { chunks, ...fields } = knowledge;
+    const document: StoredKnowledgeDocument = {
+      ...fields,
+      id: uuidv4(),
       isActive: true,
-      createdOnUtc: new Date(),
-      updatedOnUtc: new Date()
+      chunkCount: chunks.length,
+      createdOnUtc: now,
+      updatedOnUtc: now
     };
 
-    // Chunk content for better search
-    const chunks = this.chunkText(knowledge.content);
-
-    chunks.forEach((chunk, index) => {
-      const chunkId = `${id}_chunk_${index}`;
-      collection.push({
-        id: chunkId,
-        content: chunk,
-        metadata: {
-          type: 'knowledge_base',
-          title: knowledge.title,
-          sourceType: knowledge.type,
-          sourceUrl: knowledge.sourceUrl,
-          chunkIndex: index,
-          totalChunks: chunks.length,
-          parentId: id,
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          ...knowledge.metadata
-        }
-      });
-    });
+    await this.putKnowledgeChunks(document, chunks);
+    return this.toKnowledgeDocument(document);
+  }
+
+  // Replaces the document's fields and chunks. Without new sections, the old
+  // ones are dropped, since they no longer match the content.
+  async updateKnowledgeBase(id: string, update: {
+    title: string;
+    content: string;
+    type: string;
+    sourceUrl?: string;
+    metadata?: Record<string, any>;
+    sections?: DocumentSection[];
+    chunks: DocumentSection[];
+  }): Promise<KnowledgeDocument | undefined> {
+    await this.initialize();
+
+    const existing = this.findKnowledgeDocument(id);
+    if (!existing) return undefined;
 
-    return knowledgeItem;
+    const { chunks, ...fields } = update;
+    const document: StoredKnowledgeDocument = {
+      ...existing,
+      ...fields,
+      chunkCount: chunks.length,
+      updatedOnUtc: new Date().toISOString()
+    };
+
+    await this.putKnowledgeChunks(document, chunks, existing.chunkCount);
+    return this.toKnowledgeDocument(document);
   }
 
-  async getKnowledgeBase(): Promise<KnowledgeBase[]> {
+  // Inactive documents stay listed for the admin but are not searched
+  async setKnowledgeActive(id: string, isActive: boolean): Promise<KnowledgeDocument | undefined> {
     await this.initialize();
-    
-    const collection = this.getCollection('knowledge_base');
-    
+
+    const existing = this.findKnowledgeDocument(id);
+    if (!existing) return undefined;
+
+    const document: StoredKnowledgeDocument = { ...existing, isActive, updatedOnUtc: new Date().toISOString() };
+    const chunks = this.getCollection('knowledge_base')
+      .filter(doc => doc.metadata.parentId === id)
+      .map(doc => ({ ...doc, metadata: { ...doc.metadata, isActive, updatedAt: document.updatedOnUtc } }));
+
+    await this.putDocuments('knowledge_base', chunks);
+    await this.putDocuments('knowledge_documents', [this.toKnowledgeRecord(document)]);
+    return this.toKnowledgeDocument(document);
+  }
+
+  async deleteKnowledgeBase(id: string): Promise<boolean> {
+    await this.initialize();
+
+    if (!this.findKnowledgeDocument(id)) return false;
+
+    const chunkIds = this.getCollection('knowledge_base')
+      .filter(doc => doc.metadata.parentId === id)
+      .map(doc => doc.id);
+    await this.deleteDocuments('knowledge_base', chunkIds);
+    await this.deleteDocuments('knowledge_documents', [id]);
+    return true;
+  }
+
+  async getKnowledgeDocument(id: string): Promise<StoredKnowledgeDocument | undefined> {
+    await this.initialize();
+    return this.findKnowledgeDocument(id);
+  }
+
+  async getKnowledgeBase(): Promise<KnowledgeDocument[]> {
+    await this.initialize();
+
     try {
-      // Group chunks by parentId and reconstruct knowledge items
-      const knowledgeMap = new Map<string, any>();
-      
-      collection.forEach((doc) => {
-        if (doc.metadata.type === 'knowledge_base' && doc.metadata.isActive) {
-          const parentId = doc.metadata.parentId as string;
-          if (!parentId) return;
-
-          if (!knowledgeMap.has(parentId)) {
-            knowledgeMap.set(parentId, {
-              id: Date.now() + Math.random(),
-              title: doc.metadata.title,
-              content: '',
-              type: doc.metadata.sourceType,
-              sourceUrl: doc.metadata.sourceUrl,
-              vectorId: parentId,
-              metadata: doc.metadata,
-              isActive: true,
-              createdOnUtc: new Date(doc.metadata.createdAt as string || Date.now()),
-              updatedOnUtc: new Date(doc.metadata.createdAt as string || Date.now()),
-              chunks: []
-            });
-          }
-
-          const item = knowledgeMap.get(parentId);
-          item.chunks.push({
-            index: doc.metadata.chunkIndex,
-            content: doc.content
-          });
-        }
-      });
+      const documents = this.getCollection('knowledge_documents')
+        .map(doc => JSON.parse(doc.content) as StoredKnowledgeDocument);
+      const known = new Set(documents.map(document => document.id));
 
-      // Sort chunks and concatenate content
-      const knowledgeItems = Array.from(knowledgeMap.values()).map(item => {
-        item.chunks.sort((a: any, b: any) => a.index - b.index);
-        item.content = item.chunks.map((chunk: any) => chunk.content).join(' ');
-        delete item.chunks;
-        return item;
+      // Documents added before they were stored whole exist only as chunks
+      const legacyIds: string[] = [];
+      this.getCollection('knowledge_base').forEach(doc => {
+        const parentId = doc.metadata.parentId as string;
+        if (parentId && !known.has(parentId)) {
+          known.add(parentId);
+          legacyIds.push(parentId);
+        }
       });
 
-      return knowledgeItems;
+      return documents
+        .concat(legacyIds.map(id => this.fromChunks(id)!))
+        .map(document => this.toKnowledgeDocument(document));
     } catch (error) {
       console.error('Error getting knowledge base:', error);
       return [];
     }
   }
 
+  private findKnowledgeDocument(id: string): StoredKnowledgeDocument | undefined {
+    const record = this.getCollection('knowledge_documents').find(doc => doc.id === id);
+    return record ? JSON.parse(record.content) : this.fromChunks(id);
+  }
+
+  // Reassembles a document that has no stored record from its chunks, dropping
+  // the text each chunk repeats from the one before
+  private fromChunks(id: string): StoredKnowledgeDocument | undefined {
+    const chunks = this.getCollection('knowledge_base')
+      .filter(doc => doc.metadata.parentId === id)
+      .sort((a, b) => a.metadata.chunkIndex - b.metadata.chunkIndex);
+    if (chunks.length === 0) return undefined;
+
+    const { title, sourceType, sourceUrl, isActive, createdAt } = chunks[0].metadata;
+    const created = createdAt || new Date().toISOString();
+    return {
+      id,
+      title,
+      content: joinChunks(chunks.map(chunk => chunk.content)),
+      type: sourceType,
+      sourceUrl,
+      isActive: isActive !== false,
+      chunkCount: chunks.length,
+      createdOnUtc: created,
+      updatedOnUtc: created
+    };
+  }
+
+  // Writes the document's chunks and record, and removes chunks left over
+  // from a longer earlier version
+  private async putKnowledgeChunks(document: StoredKnowledgeDocument, chunks: DocumentSection[], previousChunkCount: number = 0) {
+    const { model, vectors } = await this.embed(chunks.map(chunk => chunk.text));
+
+    await this.putDocuments('knowledge_base', chunks.map((chunk, index) => ({
+      id: `${document.id}_chunk_${index}`,
+      content: chunk.text,
+      embedding: vectors[index],
+      embeddingModel: model,
+      // Caller metadata cannot override the fields search and editing rely on
+      metadata: {
+        ...document.metadata,
+        type: 'knowledge_base',
+        title: document.title,
+        sourceType: document.type,
+        sourceUrl: document.sourceUrl,
+        chunkIndex: index,
+        totalChunks: chunks.length,
+        page: chunk.page,
+        heading: chunk.headings?.[chunk.headings.length - 1],
+        sectionPath: chunk.headings?.length ? chunk.headings.join(' > ') : undefined,
+        parentId: document.id,
+        isActive: document.isActive,
+        createdAt: document.createdOnUtc,
+        updatedAt: document.updatedOnUtc
+      }
+    })));
+
+    const staleIds: string[] = [];
+    for (let index = chunks.length; index < previousChunkCount; index++) {
+      staleIds.push(`${document.id}_chunk_${index}`);
+    }
+    if (staleIds.length > 0) await this.deleteDocuments('knowledge_base', staleIds);
+
+    await this.putDocuments('knowledge_documents', [this.toKnowledgeRecord(document)]);
+  }
+
+  private toKnowledgeRecord(document: StoredKnowledgeDocument): InMemoryDocument {
+    return {
+      id: document.id,
+      content: JSON.stringify(document),
+      metadata: {
+        type: 'knowledge_document',
+        title: document.title,
+        isActive: document.isActive,
+        updatedAt: document.updatedOnUtc
+      }
+    };
+  }
+
+  // Sections are only needed for chunking again and can be large
+  private toKnowledgeDocument(document: StoredKnowledgeDocument): KnowledgeDocument {
+    const { sections, ...rest } = document;
+    return rest;
+  }
+
   async searchKnowledge(query: string, limit: number = 5): Promise<Array<{
     content: string;
     metadata: Record<string, any>;
@@ -223,24 +498,101 @@ export class VectorStorage {
     const collection = this.getCollection('knowledge_base');
     
     try {
-      const queryLower = query.toLowerCase();
-      const results = collection
-        .filter(doc => doc.metadata.type === 'knowledge_base' && doc.metadata.isActive)
-        .map(doc => ({
-          content: doc.content,
-          metadata: doc.metadata,
-          score: this.calculateSimilarity(queryLower, doc.content.toLowerCase())
-        }))
+      const candidates = collection.filter(doc => doc.metadata.type === 'knowledge_base' && doc.metadata.isActive);
+      return await this.rankBySimilarity('knowledge_base', candidates, query, limit);
+    } catch (error) {
+      console.error('Error searching knowledge:', error);
+      return [];
+    }
+  }
+
+  // FAQ entries. Each is stored twice, as the question alone and as the whole
+  // question and answer, so a search can match either.
+  async saveFaqEntries(entries: FaqEntry[]): Promise<FaqEntry[]> {
+    await this.initialize();
+    if (entries.length === 0) return entries;
+
+    const docs = entries.flatMap(entry => {
+      const metadata = { type: 'faq', faqId: entry.id, ...entry };
+      return [
+        { id: `${entry.id}_question`, content: entry.question, metadata: { ...metadata, part: 'question' } },
+        { id: `${entry.id}_pair`, content: `Q: ${entry.question}\nA: ${entry.answer}`, metadata: { ...metadata, part: 'pair' } }
+      ];
+    });
+    const { model, vectors } = await this.embed(docs.map(doc => doc.content));
+
+    await this.putDocuments('faqs', docs.map((doc, index) => ({
+      ...doc,
+      embedding: vectors[index],
+      embeddingModel: model
+    })));
+
+    return entries;
+  }
+
+  async getFaqEntries(): Promise<FaqEntry[]> {
+    await this.initialize();
+
+    return this.getCollection('faqs')
+      .filter(doc => doc.metadata.part === 'pair')
+      .map(doc => this.toFaqEntry(doc.metadata));
+  }
+
+  async deleteFaqEntries(ids: string[]): Promise<void> {
+    await this.initialize();
+    if (ids.length === 0) return;
+    await this.deleteDocuments('faqs', ids.flatMap(id => [`${id}_question`, `${id}_pair`]));
+  }
+
+  // Active entries ranked by the better of their question and full-text match
+  async searchFaqs(query: string, limit: number = 3): Promise<Array<{
+    content: string;
+    metadata: Record<string, any>;
+    score: number;
+  }>> {
+    await this.initialize();
+
+    try {
+      const candidates = this.getCollection('faqs').filter(doc => doc.metadata.isActive);
+      const ranked = await this.rankBySimilarity('faqs', candidates, query, candidates.length);
+
+      const best = new Map<string, { content: string; metadata: Record<string, any>; score: number }>();
+      ranked.forEach(result => {
+        const score = result.metadata.part === 'question'
+          ? Math.min(1, result.score * FAQ_QUESTION_BOOST)
+          : result.score;
+        const current = best.get(result.metadata.faqId);
+        if (!current || score > current.score) {
+          const { part, ...metadata } = result.metadata;
+          best.set(result.metadata.faqId, {
+            content: `Q: ${metadata.question}\nA: ${metadata.answer}`,
+            metadata: { ...metadata, matchedOn: part },
+            score
+          });
+        }
+      });
+
+      return Array.from(best.values())
         .sort((a, b) => b.score - a.score)
         .slice(0, limit);
-
-      return results;
     } catch (error) {
-      console.error('Error searching knowledge:', error);
+      console.error('Error searching FAQs:', error);
       return [];
     }
   }
 
+  private toFaqEntry(metadata: Record<string, any>): FaqEntry {
+    return {
+      id: metadata.faqId,
+      question: metadata.question,
+      answer: metadata.answer,
+      category: metadata.category,
+      isActive: metadata.isActive,
+      createdAt: metadata.createdAt,
+      updatedAt: metadata.updatedAt
+    };
+  }
+
   // Product methods
   async addProduct(product: {
     productId: string;
@@ -255,7 +607,6 @@ export class VectorStorage {
   }): Promise<Product> {
     await this.initialize();
     
-    const collection = this.getCollection('products');
     const id = uuidv4();
     
     const productItem: Product = {
@@ -277,10 +628,13 @@ export class VectorStorage {
 
     // Create searchable content
     const searchableContent = `${product.title} ${product.description} ${product.category} ${product.brand}`.trim();
+    const { model, vectors } = await this.embed([searchableContent]);
 
-    collection.push({
+    await this.putDocuments('products', [{
       id,
       content: searchableContent,
+      embedding: vectors[0],
+      embeddingModel: model,
       metadata: {
         type: 'product',
         productId: product.productId,
@@ -293,7 +647,7 @@ export class VectorStorage {
         createdAt: new Date().toISOString(),
         ...product.metadata
       }
-    });
+    }]);
 
     return productItem;
   }
@@ -308,18 +662,8 @@ export class VectorStorage {
     const collection = this.getCollection('products');
     
     try {
-      const queryLower = query.toLowerCase();
-      const results = collection
-        .filter(doc => doc.metadata.type === 'product')
-        .map(doc => ({
-          content: doc.content,
-          metadata: doc.metadata,
-          score: this.calculateSimilarity(queryLower, doc.content.toLowerCase())
-        }))
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
-
-      return results;
+      const candidates = collection.filter(doc => doc.metadata.type === 'product');
+      return await this.rankBySimilarity('products', candidates, query, limit);
     } catch (error) {
       console.error('Error searching products:', error);
       return [];
@@ -334,7 +678,6 @@ export class VectorStorage {
   }): Promise<MerchantFeed> {
     await this.initialize();
     
-    const collection = this.getCollection('merchant_feeds');
     const id = uuidv4();
     
     const merchantFeed: MerchantFeed = {
@@ -346,7 +689,7 @@ export class VectorStorage {
       createdOnUtc: new Date()
     };
 
-    collection.push({
+    await this.putDocuments('merchant_feeds', [{
       id,
       content: feed.name,
       metadata: {
@@ -357,7 +700,7 @@ export class VectorStorage {
         syncInterval: feed.syncInterval || 10800,
         createdAt: new Date().toISOString()
       }
-    });
+    }]);
 
     return merchantFeed;
   }
@@ -389,27 +732,35 @@ export class VectorStorage {
   async saveChatMessage(sessionId: string, message: {
     content: string;
     isBot: boolean;
+    sender?: ChatSender;
+    agentName?: string;
   }) {
     await this.initialize();
     
-    const collection = this.getCollection('chat_sessions');
     const id = uuidv4();
+    const timestamp = new Date().toISOString();
     
-    collection.push({
+    await this.putDocuments('chat_sessions', [{
       id,
       content: message.content,
       metadata: {
         type: 'chat_message',
         sessionId,
         isBot: message.isBot,
-        timestamp: new Date().toISOString()
+        sender: message.sender || (message.isBot ? 'bot' : 'customer'),
+        agentName: message.agentName,
+        timestamp
       }
-    });
+    }]);
+
+    return { id, content: message.content, isBot: message.isBot, sender: message.sender, agentName: message.agentName, timestamp };
   }
 
   async getChatHistory(sessionId: string): Promise<Array<{
     content: string;
     isBot: boolean;
+    sender: ChatSender;
+    agentName?: string;
     timestamp: string;
   }>> {
     await this.initialize();
@@ -422,6 +773,8 @@ export class VectorStorage {
         .map(doc => ({
           content: doc.content,
           isBot: doc.metadata.isBot as boolean,
+          sender: (doc.metadata.sender || (doc.metadata.isBot ? 'bot' : 'customer')) as ChatSender,
+          agentName: doc.metadata.agentName as string | undefined,
           timestamp: doc.metadata.timestamp as string
         }))
         .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
@@ -433,34 +786,271 @@ export class VectorStorage {
     }
   }
 
-  // Utility methods
-  private chunkText(text: string, maxChunkSize: number = 1000, overlap: number = 100): string[] {
-    const chunks: string[] = [];
-    let start = 0;
-    
-    while (start < text.length) {
-      const end = Math.min(start + maxChunkSize, text.length);
-      const chunk = text.slice(start, end);
-      chunks.push(chunk);
-      start = end - overlap;
+  // Settings methods, one JSON document per key
+  async getSettings<T>(key: string): Promise<T | undefined> {
+    await this.initialize();
+
+    const doc = this.getCollection('settings').find(doc => doc.id === key);
+    if (!doc) return undefined;
+
+    try {
+      return JSON.parse(doc.content);
+    } catch (error) {
+      console.error(`Error reading ${key} settings:`, error);
+      return undefined;
     }
-    
-    return chunks;
   }
 
-  private calculateSimilarity(query: string, content: string): number {
-    // Simple keyword-based similarity scoring
-    const queryWords = query.toLowerCase().split(/\s+/);
-    const contentWords = content.toLowerCase().split(/\s+/);
-    
-    let matches = 0;
-    for (const word of queryWords) {
-      if (contentWords.some(cw => cw.includes(word) || word.includes(cw))) {
-        matches++;
+  async saveSettings<T>(key: string, value: T): Promise<T> {
+    await this.initialize();
+
+    await this.putDocuments('settings', [{
+      id: key,
+      content: JSON.stringify(value),
+      metadata: {
+        type: 'settings',
+        key,
+        updatedAt: new Date().toISOString()
+      }
+    }]);
+
+    return value;
+  }
+
+  // Server-issued customer chat sessions
+  async saveChatSession(session: ChatSessionRecord): Promise<ChatSessionRecord> {
+    await this.initialize();
+
+    await this.putDocuments('chat_session_records', [{
+      id: session.id,
+      content: JSON.stringify(session),
+      metadata: {
+        type: 'chat_session',
+        expiresAt: session.expiresAt
+      }
+    }]);
+
+    return session;
+  }
+
+  async getChatSessions(): Promise<ChatSessionRecord[]> {
+    await this.initialize();
+
+    return this.getCollection('chat_session_records').map(doc => JSON.parse(doc.content));
+  }
+
+  async deleteChatSessions(ids: string[]): Promise<void> {
+    await this.initialize();
+    await this.deleteDocuments('chat_session_records', ids);
+  }
+
+  // Admin dashboard accounts
+  async saveAdminUser(user: AdminUserRecord): Promise<AdminUserRecord> {
+    await this.initialize();
+
+    await this.putDocuments('admin_users', [{
+      id: user.id,
+      content: JSON.stringify(user),
+      metadata: {
+        type: 'admin_user',
+        username: user.username,
+        role: user.role
       }
+    }]);
+
+    return user;
+  }
+
+  async getAdminUsers(): Promise<AdminUserRecord[]> {
+    await this.initialize();
+
+    return this.getCollection('admin_users').map(doc => JSON.parse(doc.content));
+  }
+
+  async deleteAdminUser(id: string): Promise<void> {
+    await this.initialize();
+    await this.deleteDocuments('admin_users', [id]);
+  }
+
+  // System prompt template history, one document per version
+  async savePromptVersion(version: PromptTemplateVersion): Promise<PromptTemplateVersion> {
+    await this.initialize();
+
+    await this.putDocuments('prompt_templates', [{
+      id: version.id,
+      content: JSON.stringify(version),
+      metadata: {
+        type: 'prompt_template',
+        version: version.version
+      }
+    }]);
+
+    return version;
+  }
+
+  async getPromptVersions(): Promise<PromptTemplateVersion[]> {
+    await this.initialize();
+
+    return this.getCollection('prompt_templates')
+      .map(doc => JSON.parse(doc.content) as PromptTemplateVersion)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  // Blocked or sanitized prompt-injection attempts, for admin review
+  async saveGuardrailEvent(event: GuardrailEvent): Promise<GuardrailEvent> {
+    await this.initialize();
+
+    await this.putDocuments('guardrail_events', [{
+      id: event.id,
+      content: JSON.stringify(event),
+      metadata: {
+        type: 'guardrail_event',
+        stage: event.stage,
+        createdAt: event.createdAt
+      }
+    }]);
+
+    return event;
+  }
+
+  async getGuardrailEvents(limit: number = 100): Promise<GuardrailEvent[]> {
+    await this.initialize();
+
+    return this.getCollection('guardrail_events')
+      .map(doc => JSON.parse(doc.content) as GuardrailEvent)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  // Human handoff state, one document per chat session
+  async saveHandoff(session: HandoffSession): Promise<HandoffSession> {
+    await this.initialize();
+
+    await this.putDocuments('handoffs', [{
+      id: session.sessionId,
+      content: JSON.stringify(session),
+      metadata: {
+        type: 'handoff',
+        status: session.status,
+        updatedAt: session.updatedAt
+      }
+    }]);
+
+    return session;
+  }
+
+  async getHandoffs(): Promise<HandoffSession[]> {
+    await this.initialize();
+
+    return this.getCollection('handoffs').map(doc => JSON.parse(doc.content));
+  }
+
+  // Intent classifier training examples
+  async addIntentExamples(examples: Array<Omit<IntentExample, 'id' | 'createdAt'>>): Promise<IntentExample[]> {
+    await this.initialize();
+
+    const created = examples.map(example => ({
+      ...example,
+      id: uuidv4(),
+      createdAt: new Date().toISOString()
+    }));
+
+    await this.putDocuments('intent_examples', created.map(example => ({
+      id: example.id,
+      content: example.text,
+      metadata: {
+        type: 'intent_example',
+        intent: example.intent,
+        source: example.source,
+        createdAt: example.createdAt
+      }
+    })));
+
+    return created;
+  }
+
+  async getIntentExamples(): Promise<IntentExample[]> {
+    await this.initialize();
+
+    return this.getCollection('intent_examples').map(doc => ({
+      id: doc.id,
+      text: doc.content,
+      intent: doc.metadata.intent,
+      source: doc.metadata.source,
+      createdAt: doc.metadata.createdAt
+    }));
+  }
+
+  async deleteIntentExample(id: string): Promise<boolean> {
+    await this.initialize();
+
+    if (!this.getCollection('intent_examples').some(doc => doc.id === id)) {
+      return false;
     }
-    
-    return matches / queryWords.length;
+    await this.deleteDocuments('intent_examples', [id]);
+    return true;
+  }
+
+  // Utility methods
+  private async embed(texts: string[]): Promise<{ model: string; vectors: number[][] }> {
+    return embeddingService.withEmbedder(async (embed, model) => ({
+      model,
+      vectors: await embed(texts)
+    }));
+  }
+
+  // Ranks documents by cosine similarity to the query. Documents embedded by a
+  // different model (or before embeddings existed) are not comparable and are
+  // left out; a search never writes, they are re-embedded in the background.
+  private async rankBySimilarity(name: string, docs: InMemoryDocument[], query: string, limit: number) {
+    return embeddingService.withEmbedder(async (embed, model) => {
+      const [queryVector] = await embed([query]);
+
+      // A query embedded by the fallback model during an outage does not move
+      // the collection to that model
+      if (model === embeddingService.getActiveModel() && docs.some(doc => !doc.embedding || doc.embeddingModel !== model)) {
+        this.reembedInBackground(name);
+      }
+
+      return docs
+        .filter(doc => doc.embedding && doc.embeddingModel === model)
+        .map(doc => ({
+          content: doc.content,
+          metadata: doc.metadata,
+          score: Math.max(0, cosineSimilarity(queryVector, doc.embedding!))
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    });
+  }
+
+  // Brings a collection up to the active embedding model. Nothing is saved if
+  // the provider fails and the local model stands in, and documents changed in
+  // the meantime keep their newer embedding.
+  private reembedInBackground(name: string) {
+    if (this.reembedding.has(name)) return;
+    this.reembedding.add(name);
+
+    const run = async () => {
+      const model = embeddingService.getActiveModel();
+      const stale = this.getCollection(name).filter(doc => !doc.embedding || doc.embeddingModel !== model);
+      if (stale.length === 0) return;
+
+      const { model: used, vectors } = await this.embed(stale.map(doc => doc.content));
+      if (used !== model) return;
+
+      const current = new Set(this.getCollection(name));
+      const updated = stale
+        .map((doc, index) => ({ ...doc, embedding: vectors[index], embeddingModel: used }))
+        .filter((doc, index) => current.has(stale[index]));
+      if (updated.length === 0) return;
+      await this.putDocuments(name, updated);
+      console.log(`✓ Re-embedded ${updated.length} documents in ${name} with ${used}`);
+    };
+
+    run()
+      .catch(error => console.error(`Failed to re-embed ${name}:`, error))
+      .finally(() => this.reembedding.delete(name));
   }
 
   async getStats() {
@@ -487,4 +1077,16 @@ export class VectorStorage {
   }
 }
 
+function joinChunks(texts: string[]): string {
+  return texts.reduce((joined, text, index) => {
+    const previous = texts[index - 1];
+    for (let length = Math.min(previous.length, text.length - 1); length >= MIN_CHUNK_OVERLAP; length--) {
+      if (previous.endsWith(text.slice(0, length))) {
+        return joined + text.slice(length);
+      }
+    }
+    return `${joined}\n\n${text}`;
+  });
+}
+
 export const vectorStorage = new VectorStorage();
\ No newline at end of file
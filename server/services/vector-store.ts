@@ -0,0 +1,170 @@
+import { vectorStorageConfig } from '../config';
+import { PersistentStore, PersistedDocument } from './persistent-store';
+import { VectorService, vectorService } from './vector-service';
+
+export type VectorStoreBackend = 'memory' | 'local' | 'chroma';
+
+export const VECTOR_STORE_BACKENDS: VectorStoreBackend[] = ['memory', 'local', 'chroma'];
+
+export type StoredDocument = PersistedDocument;
+
+// Collections written by vector storage. Searchable content can be copied to
+// another backend on its own; application state (credentials, sessions,
+// settings) only moves along with the live backend.
+export const CONTENT_COLLECTIONS = ['knowledge_base', 'knowledge_documents', 'products', 'faqs', 'merchant_feeds', 'intent_examples'];
+export const STATE_COLLECTIONS = [
+  'ai_configs', 'ai_profiles', 'admin_users', 'chat_sessions', 'chat_session_records',
+  'guardrail_events', 'handoffs', 'prompt_templates', 'settings'
+];
+export const STORED_COLLECTIONS = [...CONTENT_COLLECTIONS, ...STATE_COLLECTIONS];
+
+// Durable home for the vector storage collections. Ranking happens in-process
+// against the loaded working set, so every backend behaves the same for search.
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  initialize(): Promise<void>;
+  load(): Promise<Map<string, StoredDocument[]>>;
+  upsert(collection: string, docs: StoredDocument[]): Promise<void>;
+  delete(collection: string, ids: string[]): Promise<void>;
+}
+
+// Keeps documents for the lifetime of the process only
+export class InMemoryVectorStore implements VectorStore {
+  readonly backend: VectorStoreBackend = 'memory';
+  protected collections: Map<string, Map<string, StoredDocument>> = new Map();
+
+  async initialize() {}
+
+  async load(): Promise<Map<string, StoredDocument[]>> {
+    const result = new Map<string, StoredDocument[]>();
+    this.collections.forEach((docs, name) => result.set(name, Array.from(docs.values())));
+    return result;
+  }
+
+  async upsert(collection: string, docs: StoredDocument[]) {
+    const target = this.getCollection(collection);
+    docs.forEach(doc => target.set(doc.id, doc));
+  }
+
+  async delete(collection: string, ids: string[]) {
+    const target = this.getCollection(collection);
+    ids.forEach(id => target.delete(id));
+  }
+
+  protected getCollection(name: string): Map<string, StoredDocument> {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, new Map());
+    }
+    return this.collections.get(name)!;
+  }
+}
+
+// Snapshot + write-ahead log files on local disk
+export class LocalVectorStore extends InMemoryVectorStore {
+  readonly backend: VectorStoreBackend = 'local';
+  private store: PersistentStore;
+
+  constructor(dataDir: string = vectorStorageConfig.dataDir, compactThreshold: number = vectorStorageConfig.compactThreshold) {
+    super();
+    this.store = new PersistentStore(dataDir, compactThreshold);
+  }
+
+  async load(): Promise<Map<string, StoredDocument[]>> {
+    const persisted = await this.store.load();
+    this.collections.clear();
+    persisted.forEach((docs, name) => {
+      const target = this.getCollection(name);
+      docs.forEach(doc => target.set(doc.id, doc));
+    });
+    return persisted;
+  }
+
+  async upsert(collection: string, docs: StoredDocument[]) {
+    await super.upsert(collection, docs);
+    await this.store.put(collection, docs, () => Array.from(this.getCollection(collection).values()));
+  }
+
+  async delete(collection: string, ids: string[]) {
+    await super.delete(collection, ids);
+    await this.store.delete(collection, ids, () => Array.from(this.getCollection(collection).values()));
+  }
+}
+
+// ChromaDB server, used as a storage-only backend: Chroma never runs a vector
+// search here. Records carry a placeholder vector and keep the real embedding
+// in their payload, because Chroma fixes a collection's dimension on first
+// insert and switching embedding models must not strand existing records.
+// Ranking uses the loaded working set, as with the other backends.
+export class ChromaVectorStore implements VectorStore {
+  readonly backend: VectorStoreBackend = 'chroma';
+  private service: VectorService;
+  private batchSize = 100;
+
+  constructor(service: VectorService = vectorService) {
+    this.service = service;
+  }
+
+  async initialize() {
+    await this.service.initialize();
+  }
+
+  async load(): Promise<Map<string, StoredDocument[]>> {
+    const result = new Map<string, StoredDocument[]>();
+
+    // The server may hold collections of other applications
+    const names = (await this.service.listCollections()).filter(name => STORED_COLLECTIONS.includes(name));
+    for (const name of names) {
+      const records = await this.service.getAllDocuments(name);
+      result.set(name, records.map(record => {
+        const payload = JSON.parse((record.metadata?.payload as string) || '{}');
+        return {
+          id: record.id,
+          content: record.content,
+          metadata: payload.metadata || {},
+          embedding: payload.embedding,
+          embeddingModel: payload.embeddingModel
+        };
+      }));
+    }
+
+    return result;
+  }
+
+  async upsert(collection: string, docs: StoredDocument[]) {
+    for (let i = 0; i < docs.length; i += this.batchSize) {
+      await this.service.upsertDocuments(collection, docs.slice(i, i + this.batchSize).map(doc => ({
+        id: doc.id,
+        content: doc.content,
+        metadata: {
+          type: doc.metadata.type || 'unknown',
+          payload: JSON.stringify({
+            metadata: doc.metadata,
+            embedding: doc.embedding,
+            embeddingModel: doc.embeddingModel
+          })
+        },
+        embedding: [0]
+      })));
+    }
+  }
+
+  async delete(collection: string, ids: string[]) {
+    await this.service.deleteDocuments(collection, ids);
+  }
+}
+
+export function createVectorStore(backend: VectorStoreBackend): VectorStore {
+  switch (backend) {
+    case 'memory':
+      return new InMemoryVectorStore();
+    case 'chroma':
+      return new ChromaVectorStore();
+    case 'local':
+    default:
+      return new LocalVectorStore();
+  }
+}
+
+export function isVectorStoreBackend(value: unknown): value is VectorStoreBackend {
+  return VECTOR_STORE_BACKENDS.includes(value as VectorStoreBackend);
+}
@@ -0,0 +1,16 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Imported first by every test file: services read their configuration when
+// they are imported, and tests must not touch the data directory
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatbot-test-'));
+
+process.env.VECTOR_STORE_BACKEND = 'memory';
+process.env.VECTOR_STORAGE_DIR = path.join(dir, 'vector-storage');
+process.env.SECRETS_KEY_FILE = path.join(dir, 'secrets.key');
+process.env.ADMIN_PASSWORD = 'test-owner-password';
+
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+
+export const testDir = dir;
@@ -0,0 +1,34 @@
+// pdf-parse ships without types. The lib entry point is imported directly
+// because the package index reads a test file when it has no parent module.
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  namespace pdf {
+    interface TextItem {
+      str: string;
+      transform: number[];
+    }
+
+    interface Page {
+      pageNumber: number;
+      getTextContent(options?: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{ items: TextItem[] }>;
+    }
+
+    interface Options {
+      // Returns the text of one page
+      pagerender?: (page: Page) => Promise<string>;
+      max?: number;
+      version?: string;
+    }
+
+    interface Result {
+      numpages: number;
+      numrender: number;
+      info: Record<string, any> | null;
+      metadata: unknown;
+      text: string;
+      version: string;
+    }
+  }
+
+  function pdf(data: Uint8Array, options?: pdf.Options): Promise<pdf.Result>;
+  export = pdf;
+}
@@ -91,11 +91,12 @@ export const orderTrackingSchema = z.object({
   orderId: z.string().min(1, "Please enter an order ID"),
 });
 
-// Chat message schema
+// Chat message schema; the session comes from the signed chat session token
 export const chatMessageSchema = z.object({
-  sessionId: z.string(),
   content: z.string().min(1, "Message cannot be empty"),
   isBot: z.boolean().default(false),
+  // Always generate a fresh answer instead of serving a cached one
+  bypassCache: z.boolean().default(false),
 });
 
 // Types
@@ -125,7 +126,7 @@ export type OrderStatus = "pending" | "processing" | "shipped" | "delivered" | "
 // AI Configuration tables
 export const aiConfig = pgTable("ai_config", {
   id: serial("id").primaryKey(),
-  provider: text("provider").notNull(), // 'azure' or 'ollama'
+  provider: text("provider").notNull(), // One of AI_PROVIDERS
   config: json("config").notNull(), // Store provider-specific config
   isActive: boolean("is_active").default(true),
   customInstructions: text("custom_instructions"),
@@ -206,18 +207,73 @@ export const azureConfigSchema = z.object({
   apiKey: z.string().min(1, "API key is required"),
   deploymentName: z.string().min(1, "Deployment name is required"),
   apiVersion: z.string().default("2024-02-01"),
+  embeddingDeployment: z.string().optional(), // Enables provider embeddings for search
 });
 
 export const ollamaConfigSchema = z.object({
   endpoint: z.string().url("Please enter a valid Ollama endpoint").default("http://localhost:11434"),
   model: z.string().min(1, "Model name is required"),
+  embeddingModel: z.string().optional(), // Enables provider embeddings for search
+  // Overrides the generation settings' default temperature for this server
+  temperature: z.number().min(0).max(2).optional(),
+  numCtx: z.number().int().min(256).optional(), // Context window in tokens
+  keepAlive: z.string().regex(/^-?\d+(\.\d+)?(ms|s|m|h)?$/, "Use a duration such as 10m, or -1 to keep the model loaded").optional(),
 });
 
+export const ollamaPullSchema = z.object({
+  endpoint: z.string().url("Please enter a valid Ollama endpoint").default("http://localhost:11434"),
+  model: z.string().trim().min(1, "Model name is required"),
+});
+
+// Any server exposing the OpenAI /v1/chat/completions API: vLLM, LM Studio, llama.cpp
+export const openaiCompatibleConfigSchema = z.object({
+  baseUrl: z.string().url("Please enter a valid base URL, e.g. http://localhost:8000/v1"),
+  apiKey: z.string().optional(), // Local servers usually need none
+  model: z.string().min(1, "Model name is required"),
+  embeddingModel: z.string().optional(), // Enables provider embeddings for search
+});
+
+// Messages API (`/v1/messages`) with `x-api-key` authentication
+export const anthropicConfigSchema = z.object({
+  baseUrl: z.string().url("Please enter a valid base URL").default("https://api.anthropic.com"),
+  apiKey: z.string().min(1, "API key is required"),
+  model: z.string().min(1, "Model name is required"),
+  apiVersion: z.string().default("2023-06-01"),
+});
+
+export const AI_PROVIDERS = ["azure", "ollama", "openai_compatible", "anthropic"] as const;
+
+export const providerConfigSchemas = {
+  azure: azureConfigSchema,
+  ollama: ollamaConfigSchema,
+  openai_compatible: openaiCompatibleConfigSchema,
+  anthropic: anthropicConfigSchema,
+};
+
+const providerFields = {
+  provider: z.enum(AI_PROVIDERS),
+  config: z.record(z.unknown()),
+};
+
+// Checks `config` against the selected provider's schema. A plain union would
+// accept one provider's config as another's, e.g. an OpenAI-compatible config
+// as an Ollama one with the default endpoint.
+function parseProviderConfig<T extends { provider: AiProviderName; config: Record<string, unknown> }>(
+  value: T,
+  ctx: z.RefinementCtx
+): Omit<T, "config"> & { config: AiProviderSettings } {
+  const result = providerConfigSchemas[value.provider].safeParse(value.config);
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ["config", ...issue.path] }));
+    return z.NEVER;
+  }
+  return { ...value, config: result.data };
+}
+
 export const aiProviderConfigSchema = z.object({
-  provider: z.enum(["azure", "ollama"]),
-  config: z.union([azureConfigSchema, ollamaConfigSchema]),
+  ...providerFields,
   customInstructions: z.string().optional(),
-});
+}).transform(parseProviderConfig);
 
 // Types
 export type InsertAiConfig = z.infer<typeof insertAiConfigSchema>;
@@ -234,4 +290,401 @@ export type MerchantFeed = typeof merchantFeeds.$inferSelect;
 
 export type AzureConfig = z.infer<typeof azureConfigSchema>;
 export type OllamaConfig = z.infer<typeof ollamaConfigSchema>;
+export type OpenAICompatibleConfig = z.infer<typeof openaiCompatibleConfigSchema>;
+export type AnthropicConfig = z.infer<typeof anthropicConfigSchema>;
+export type AiProviderName = typeof AI_PROVIDERS[number];
+export type AiProviderSettings = AzureConfig | OllamaConfig | OpenAICompatibleConfig | AnthropicConfig;
 export type AiProviderConfig = z.infer<typeof aiProviderConfigSchema>;
+
+// Intent classification
+export const INTENTS = [
+  "order_tracking",
+  "product_recommendation",
+  "returns",
+  "shipping",
+  "payment",
+  "complaint",
+  "human_handoff",
+  "support",
+  "general",
+] as const;
+
+export const intentExampleSchema = z.object({
+  text: z.string().trim().min(1, "Example text is required"),
+  intent: z.enum(INTENTS),
+});
+
+export const intentSettingsSchema = z.object({
+  // Ask the AI provider when the local classifier is unsure
+  llmFallback: z.boolean().default(false),
+  confidenceThreshold: z.number().min(0).max(1).default(0.5),
+});
+
+export type Intent = typeof INTENTS[number];
+export type IntentExampleInput = z.infer<typeof intentExampleSchema>;
+export type IntentExample = IntentExampleInput & {
+  id: string;
+  source: "builtin" | "admin";
+  createdAt: string;
+};
+export type IntentSettings = z.infer<typeof intentSettingsSchema>;
+
+// AI provider profiles, tried in priority order with failover
+export const aiProfileSchema = z.object({
+  name: z.string().trim().min(1, "Profile name is required"),
+  ...providerFields,
+  // Lower numbers are tried first
+  priority: z.number().int().min(0).default(0),
+  enabled: z.boolean().default(true),
+  // Give up on this profile and fail over after this long. Streamed answers
+  // may take longer, as long as each piece arrives within it.
+  timeoutMs: z.number().int().min(1000).default(30000),
+}).transform(parseProviderConfig);
+
+export const aiRoutingSettingsSchema = z.object({
+  // Send these intents to the given profile first, e.g. small talk to Ollama
+  rules: z.array(z.object({
+    intent: z.enum(INTENTS),
+    profileId: z.string().min(1),
+  })).default([]),
+  // Consecutive failures before a profile is skipped for `cooldownSeconds`
+  failureThreshold: z.number().int().min(1).default(3),
+  cooldownSeconds: z.number().int().min(5).default(60),
+});
+
+// Sampling and length settings sent with every provider request
+export const generationParamsSchema = z.object({
+  temperature: z.number().min(0).max(2).default(0.7),
+  topP: z.number().gt(0).max(1).optional(),
+  maxTokens: z.number().int().min(1).max(32000).default(1000),
+  stop: z.array(z.string().min(1)).max(4, "At most 4 stop sequences").default([]),
+  presencePenalty: z.number().min(-2).max(2).optional(),
+  frequencyPenalty: z.number().min(-2).max(2).optional(),
+});
+
+export const generationSettingsSchema = z.object({
+  defaults: generationParamsSchema.default({}),
+  // Applied on top of the defaults, e.g. a low temperature for order answers
+  intentOverrides: z.array(generationParamsSchema.partial().extend({
+    intent: z.enum(INTENTS),
+  })).default([]),
+});
+
+export type AiProfileInput = z.infer<typeof aiProfileSchema>;
+export type AiProfile = AiProfileInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+export type AiRoutingSettings = z.infer<typeof aiRoutingSettingsSchema>;
+export type GenerationParams = z.infer<typeof generationParamsSchema>;
+export type GenerationSettings = z.infer<typeof generationSettingsSchema>;
+export type AiProfileHealth = {
+  status: "healthy" | "degraded" | "down";
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  averageLatencyMs?: number;
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  // Skipped until then, unless every profile is down
+  downUntil?: string;
+};
+
+// Human agent handoff
+export const handoffSettingsSchema = z.object({
+  // Escalate on low confidence and failures; explicit requests always escalate
+  autoEscalate: z.boolean().default(true),
+  // Escalate after this many consecutive answers below the confidence threshold
+  lowConfidenceThreshold: z.number().min(0).max(1).default(0.2),
+  lowConfidenceTurns: z.number().int().min(1).default(2),
+  // Escalate after this many consecutive failed replies
+  maxFailures: z.number().int().min(1).default(2),
+});
+
+export const agentMessageSchema = z.object({
+  content: z.string().trim().min(1, "Message cannot be empty"),
+  agentName: z.string().trim().min(1).default("Agent"),
+});
+
+export type HandoffSettings = z.infer<typeof handoffSettingsSchema>;
+export type HandoffStatus = "waiting" | "active" | "closed";
+export type HandoffReason = "requested" | "low_confidence" | "repeated_failures";
+export type HandoffSession = {
+  sessionId: string;
+  status: HandoffStatus;
+  reason: HandoffReason;
+  requestedAt: string;
+  updatedAt: string;
+  agentName?: string;
+  acceptedAt?: string;
+  closedAt?: string;
+};
+export type ChatSender = "customer" | "bot" | "agent";
+
+// Customer chat sessions
+export const chatSessionRequestSchema = z.object({
+  // Token kept in localStorage by the widget, for browsers that block the cookie
+  token: z.string().optional(),
+  // Start a fresh conversation instead of resuming
+  restart: z.boolean().default(false),
+  // Set by storefronts that know the signed-in customer; used in the prompt,
+  // so only letters (Latin, Greek, Cyrillic, Japanese, Chinese) and the
+  // punctuation found in names are accepted
+  customerName: z.string().trim().max(100)
+    .regex(/^[A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u3040-\u30FF\u4E00-\u9FFF' .-]+$/, "Customer name may only contain letters, spaces, hyphens, apostrophes and periods")
+    .optional(),
+});
+
+export type ChatSessionRecord = {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  customerName?: string;
+};
+
+// System prompt templates
+// Placeholders are written {{name}}. A section {{#name}}...{{/name}} is only
+// kept when the variable has a value.
+export const PROMPT_VARIABLES = [
+  "storeName",
+  "customerName",
+  "intent",
+  "context",
+  "today",
+  "customInstructions",
+] as const;
+
+export const promptTemplateSchema = z.object({
+  template: z.string().trim().min(1, "Template is required").max(20000),
+  note: z.string().trim().max(200).optional(),
+});
+
+export const promptPreviewSchema = z.object({
+  query: z.string().trim().min(1, "Sample query is required"),
+  // Unsaved template from the editor; the active one otherwise
+  template: z.string().optional(),
+  customerName: z.string().trim().optional(),
+});
+
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+export type PromptTemplateVersion = {
+  id: string;
+  version: number;
+  template: string;
+  note?: string;
+  createdAt: string;
+  createdBy?: string;
+  // Set when this version restored an earlier one
+  restoredFrom?: number;
+};
+
+// Prompt-injection guardrails
+export const guardrailSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Heuristic risk score (0-1) at which a customer message is refused
+  blockThreshold: z.number().min(0).max(1).default(0.7),
+  // Messages scoring between this and blockThreshold are asked about to the AI model
+  llmCheck: z.boolean().default(false),
+  reviewThreshold: z.number().min(0).max(1).default(0.3),
+  // Withhold answers that repeat the system prompt or contain secrets
+  checkOutput: z.boolean().default(true),
+});
+
+export const guardrailCheckSchema = z.object({
+  text: z.string().trim().min(1, "Text is required"),
+});
+
+export type GuardrailSettings = z.infer<typeof guardrailSettingsSchema>;
+export type GuardrailStage = "input" | "context" | "output";
+export type GuardrailEvent = {
+  id: string;
+  stage: GuardrailStage;
+  // Input and output are blocked; retrieved context is sanitized and still used
+  action: "blocked" | "sanitized";
+  rules: string[];
+  score?: number;
+  // Start of the offending text, for review
+  excerpt: string;
+  sessionId?: string;
+  // Knowledge or product document the context came from
+  source?: string;
+  createdAt: string;
+};
+
+// Grounded answers
+export const groundingSettingsSchema = z.object({
+  // Refuse instead of answering from the model's general knowledge
+  strict: z.boolean().default(false),
+  // Retrieval confidence below which strict mode refuses
+  minConfidence: z.number().min(0).max(1).default(0.3),
+  // In strict mode, check the answer's claims against the retrieved documents
+  verifyAnswers: z.boolean().default(false),
+  fallbackMessage: z.string().trim().min(1).max(500).default(
+    "I'm sorry, I don't have reliable information about that. I can connect you with a member of our team, or help you track an order."
+  ),
+});
+
+export type GroundingSettings = z.infer<typeof groundingSettingsSchema>;
+
+// PII redaction
+export const PII_TYPES = ["email", "phone", "card", "iban", "address"] as const;
+
+const piiTypeSettingsSchema = z.object({
+  // Replace in stored chat transcripts
+  store: z.boolean().default(true),
+  // Replace in messages sent to AI providers
+  prompt: z.boolean().default(true),
+});
+
+export const piiSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  types: z.object({
+    email: piiTypeSettingsSchema.default({}),
+    phone: piiTypeSettingsSchema.default({}),
+    card: piiTypeSettingsSchema.default({}),
+    iban: piiTypeSettingsSchema.default({}),
+    address: piiTypeSettingsSchema.default({}),
+  }).default({}),
+});
+
+export const piiTestSchema = z.object({
+  text: z.string().min(1, "Text is required"),
+});
+
+export type PiiType = typeof PII_TYPES[number];
+export type PiiSettings = z.infer<typeof piiSettingsSchema>;
+
+// Cached answers to repeated customer questions
+export const responseCacheSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  ttlSeconds: z.number().int().min(60).max(604800).default(3600),
+  // Cosine similarity at which a differently worded question reuses a cached answer
+  similarityThreshold: z.number().min(0.5).max(1).default(0.92),
+  maxEntries: z.number().int().min(10).max(10000).default(500),
+});
+
+export type ResponseCacheSettings = z.infer<typeof responseCacheSettingsSchema>;
+
+// Knowledge base documents created or edited in the admin panel
+export const knowledgeDocumentSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  content: z.string().trim().min(1, "Content is required"),
+  type: z.string().trim().min(1, "Type is required").max(50),
+  sourceUrl: z.union([z.string().trim().url("Source URL must be a valid URL"), z.literal("")])
+    .optional()
+    .transform(url => url || undefined),
+});
+
+export type KnowledgeDocumentInput = z.infer<typeof knowledgeDocumentSchema>;
+
+// A knowledge base document with its chunks reassembled. The id is the parent
+// id shared by the chunks, so it stays the same across restarts and edits.
+export type KnowledgeDocument = KnowledgeDocumentInput & {
+  id: string;
+  metadata?: Record<string, any>;
+  isActive: boolean;
+  chunkCount: number;
+  createdOnUtc: string;
+  updatedOnUtc: string;
+};
+
+// FAQ entries, each indexed as its own retrievable question and answer
+export const faqEntrySchema = z.object({
+  question: z.string().trim().min(1, "Question is required").max(500),
+  answer: z.string().trim().min(1, "Answer is required").max(5000),
+  category: z.string().trim().max(100).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type FaqEntryInput = z.infer<typeof faqEntrySchema>;
+export type FaqEntry = FaqEntryInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// How knowledge documents are split into chunks before they are embedded
+export const CHUNKING_STRATEGIES = [
+  "sentence",
+  "paragraph",
+  "heading",
+  "token",
+  "recursive",
+] as const;
+
+export type ChunkingStrategy = typeof CHUNKING_STRATEGIES[number];
+
+export const chunkingConfigSchema = z.object({
+  strategy: z.enum(CHUNKING_STRATEGIES).default("recursive"),
+  // In characters, or in tokens for the token strategy
+  chunkSize: z.number().int().min(100).max(8000).default(1000),
+  overlap: z.number().int().min(0).max(2000).default(100),
+}).refine(config => config.overlap < config.chunkSize, {
+  message: "Overlap must be smaller than the chunk size",
+  path: ["overlap"],
+});
+
+export type ChunkingConfig = z.infer<typeof chunkingConfigSchema>;
+
+export const chunkingSettingsSchema = z.object({
+  default: chunkingConfigSchema.default({}),
+  // Keyed by knowledge type, such as "pdf" or "markdown"
+  byType: z.record(chunkingConfigSchema).default({
+    markdown: { strategy: "heading", chunkSize: 1500, overlap: 0 },
+    docx: { strategy: "heading", chunkSize: 1500, overlap: 0 },
+    html: { strategy: "heading", chunkSize: 1500, overlap: 0 },
+    pdf: { strategy: "paragraph", chunkSize: 1000, overlap: 150 },
+    faq: { strategy: "paragraph", chunkSize: 1000, overlap: 0 },
+  }),
+});
+
+export type ChunkingSettings = z.infer<typeof chunkingSettingsSchema>;
+
+export const chunkPreviewSchema = z.object({
+  content: z.string().min(1, "Content is required").max(500000),
+  type: z.string().trim().min(1).default("manual"),
+  // Unsaved settings to try instead of the saved ones
+  settings: chunkingSettingsSchema.optional(),
+});
+
+// Admin accounts
+export const ADMIN_ROLES = [
+  "owner",
+  "content_editor",
+  "support_agent",
+  "analyst",
+] as const;
+
+export const adminLoginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const adminUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(ADMIN_ROLES),
+});
+
+export const adminUserUpdateSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters").optional(),
+  role: z.enum(ADMIN_ROLES).optional(),
+});
+
+export type AdminRole = typeof ADMIN_ROLES[number];
+export type AdminUserInput = z.infer<typeof adminUserSchema>;
+export type AdminUserUpdate = z.infer<typeof adminUserUpdateSchema>;
+export type AdminUserRecord = {
+  id: string;
+  username: string;
+  role: AdminRole;
+  // scrypt hash and salt, `<hash>.<salt>` in hex
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+};
+// What the API returns; never includes the password hash
+export type AdminUser = Omit<AdminUserRecord, "passwordHash">;